@@ -8,6 +8,13 @@ import Dashboard from "./pages/Dashboard";
 import Auth from "./pages/Auth";
 import CreateAuction from "./pages/CreateAuction";
 import AuctionDetail from "./pages/AuctionDetail";
+import AuctionConsole from "./pages/AuctionConsole";
+import CreateEvent from "./pages/CreateEvent";
+import BidIncrements from "./pages/BidIncrements";
+import EventDetail from "./pages/EventDetail";
+import Purchases from "./pages/Purchases";
+import Checkout from "./pages/Checkout";
+import Payouts from "./pages/Payouts";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -54,6 +61,41 @@ const App = () => (
                 <AuctionDetail />
               </ProtectedRoute>
             } />
+            <Route path="/auction/:id/console" element={
+              <ProtectedRoute>
+                <AuctionConsole />
+              </ProtectedRoute>
+            } />
+            <Route path="/create-event" element={
+              <ProtectedRoute>
+                <CreateEvent />
+              </ProtectedRoute>
+            } />
+            <Route path="/events/:id" element={
+              <ProtectedRoute>
+                <EventDetail />
+              </ProtectedRoute>
+            } />
+            <Route path="/checkout/:transactionId" element={
+              <ProtectedRoute>
+                <Checkout />
+              </ProtectedRoute>
+            } />
+            <Route path="/bid-increments" element={
+              <ProtectedRoute>
+                <BidIncrements />
+              </ProtectedRoute>
+            } />
+            <Route path="/purchases" element={
+              <ProtectedRoute>
+                <Purchases />
+              </ProtectedRoute>
+            } />
+            <Route path="/payouts" element={
+              <ProtectedRoute>
+                <Payouts />
+              </ProtectedRoute>
+            } />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
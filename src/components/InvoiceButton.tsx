@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+
+interface InvoiceButtonProps {
+  invoicePath: string;
+  className?: string;
+}
+
+// Invoices live in a private bucket, so each download gets a short-lived signed URL
+const InvoiceButton = ({ invoicePath, className }: InvoiceButtonProps) => {
+  const [loading, setLoading] = useState(false);
+
+  const openInvoice = async () => {
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.storage
+        .from('invoices')
+        .createSignedUrl(invoicePath, 60);
+
+      if (error) throw error;
+      window.open(data.signedUrl, "_blank", "noopener");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={openInvoice} disabled={loading} className={className}>
+      <Download className="h-4 w-4 mr-2" />
+      {loading ? "Opening..." : "Download Invoice"}
+    </Button>
+  );
+};
+
+export default InvoiceButton;
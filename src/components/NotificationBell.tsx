@@ -0,0 +1,283 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface Notification {
+  id: string;
+  auction_id: string | null;
+  type: string;
+  title: string;
+  message: string;
+  read: boolean;
+  data: Json;
+  created_at: string;
+}
+
+const getTransactionId = (notification: Notification) =>
+  (notification.data as { transaction_id?: string } | null)?.transaction_id;
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+const NotificationBell = ({ userId }: NotificationBellProps) => {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  // Counted on the server, since unread notifications can be older than the latest 20
+  const [unreadCount, setUnreadCount] = useState(0);
+  // Second-chance offers can be answered from here while they are still open
+  const [openOfferIds, setOpenOfferIds] = useState<string[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchNotifications();
+
+    // Subscribe to new and updated notifications for this user
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        () => {
+          fetchNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const fetchNotifications = async () => {
+    try {
+      const [{ data, error }, unreadResult] = await Promise.all([
+        supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(20),
+        supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('read', false),
+      ]);
+
+      if (error) throw error;
+      if (unreadResult.error) throw unreadResult.error;
+      setNotifications(data || []);
+      setUnreadCount(unreadResult.count ?? 0);
+
+      const offerIds = (data || [])
+        .filter((n) => n.type === 'second_chance_offer')
+        .map(getTransactionId)
+        .filter(Boolean);
+      if (offerIds.length === 0) {
+        setOpenOfferIds([]);
+        return;
+      }
+
+      const { data: offers, error: offersError } = await supabase
+        .from('transactions')
+        .select('id')
+        .in('id', offerIds)
+        .eq('status', 'offered')
+        .gt('offer_expires_at', new Date().toISOString());
+
+      if (offersError) throw offersError;
+      setOpenOfferIds((offers || []).map((offer) => offer.id));
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  const respondToOffer = async (notification: Notification, action: "accept" | "reject") => {
+    setRespondingId(notification.id);
+
+    try {
+      const { data, error } = await supabase.rpc('respond_to_transaction', {
+        p_transaction_id: getTransactionId(notification),
+        p_action: action,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: data.status === 'accepted' ? "Offer accepted" : data.status === 'rejected' ? "Offer declined" : "Offer expired",
+        description: data.status === 'accepted'
+          ? `You bought the item for $${data.final_amount.toFixed(2)}.`
+          : "The item will not be sold to you.",
+      });
+      if (!notification.read) {
+        markRead([notification.id]);
+      }
+      fetchNotifications();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    setNotifications((prev) =>
+      prev.map((n) => (ids.includes(n.id) ? { ...n, read: true } : n))
+    );
+    setUnreadCount((prev) => Math.max(prev - ids.length, 0));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      fetchNotifications();
+    }
+  };
+
+  const markAllRead = async () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      fetchNotifications();
+    }
+  };
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.read) {
+      markRead([notification.id]);
+    }
+    if (notification.auction_id) {
+      navigate(`/auction/${notification.auction_id}`);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-xs"
+              onClick={(e) => {
+                e.preventDefault();
+                markAllRead();
+              }}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="p-4 text-sm text-center text-muted-foreground">
+            You're all caught up.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={() => openNotification(notification)}
+                className="flex flex-col items-start space-y-1 cursor-pointer"
+              >
+                <div className="flex w-full items-center justify-between">
+                  <span className={notification.read ? "font-medium" : "font-semibold"}>
+                    {notification.title}
+                  </span>
+                  {!notification.read && (
+                    <span className="h-2 w-2 rounded-full bg-primary" />
+                  )}
+                </div>
+                <span className="text-sm text-muted-foreground">{notification.message}</span>
+                {notification.type === 'second_chance_offer' && openOfferIds.includes(getTransactionId(notification)) && (
+                  <div className="flex w-full space-x-2 pt-1">
+                    <Button
+                      size="sm"
+                      className="flex-1 auction-gradient text-white"
+                      disabled={respondingId === notification.id}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        respondToOffer(notification, 'accept');
+                      }}
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      disabled={respondingId === notification.id}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        respondToOffer(notification, 'reject');
+                      }}
+                    >
+                      Decline
+                    </Button>
+                  </div>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </ScrollArea>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,256 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/hooks/use-toast";
+import { FULFILMENT_ACTION_LABELS, FULFILMENT_STATUS_LABELS, getFulfilmentActions } from "@/lib/fulfilment";
+import { format } from "date-fns";
+
+interface FulfilmentEvent {
+  id: string;
+  actor_id: string | null;
+  to_status: string;
+  shipping_carrier: string | null;
+  tracking_number: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface Order {
+  id: string;
+  seller_id: string;
+  buyer_id: string;
+  fulfilment_status: string | null;
+  payment_due_at: string | null;
+}
+
+interface OrderTimelineProps {
+  order: Order;
+  userId: string;
+  onUpdate: () => void;
+}
+
+const OrderTimeline = ({ order, userId, onUpdate }: OrderTimelineProps) => {
+  const [events, setEvents] = useState<FulfilmentEvent[]>([]);
+  const [carrier, setCarrier] = useState("");
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [disputeReason, setDisputeReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchEvents();
+
+    const channel = supabase
+      .channel(`fulfilment-${order.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'fulfilment_events',
+          filter: `transaction_id=eq.${order.id}`
+        },
+        () => {
+          fetchEvents();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [order.id]);
+
+  const fetchEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('fulfilment_events')
+        .select('id, actor_id, to_status, shipping_carrier, tracking_number, note, created_at')
+        .eq('transaction_id', order.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      console.error('Error fetching order history:', error);
+    }
+  };
+
+  const advance = async (status: string) => {
+    setSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc('advance_fulfilment', {
+        p_transaction_id: order.id,
+        p_status: status,
+        p_carrier: status === 'shipped' ? carrier : undefined,
+        p_tracking_number: status === 'shipped' ? trackingNumber : undefined,
+        p_reason: status === 'disputed' ? disputeReason : undefined,
+      });
+
+      if (error) throw error;
+
+      setCarrier("");
+      setTrackingNumber("");
+      setDisputeReason("");
+      onUpdate();
+      toast({
+        title: "Order updated",
+        description: `The order is now ${FULFILMENT_STATUS_LABELS[status].toLowerCase()}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Refunds go through the payment provider, so the order closes when its webhook arrives
+  const refund = async () => {
+    setSubmitting(true);
+
+    try {
+      const { error } = await supabase.functions.invoke('refund-payment', {
+        body: { transaction_id: order.id },
+      });
+
+      if (error) throw error;
+
+      onUpdate();
+      toast({
+        title: "Refund sent",
+        description: "The buyer's payment is being returned to them.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const describeActor = (actorId: string | null) => {
+    if (actorId === null) return "Chrono-Bid";
+    if (actorId === userId) return "You";
+    return actorId === order.seller_id ? "Seller" : "Buyer";
+  };
+
+  const actions = getFulfilmentActions(
+    order.fulfilment_status,
+    userId === order.seller_id ? "seller" : "buyer",
+    order.payment_due_at
+  );
+  const canRefund = userId === order.seller_id && order.fulfilment_status === 'disputed';
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm font-medium">Order Timeline</p>
+      <ol className="space-y-3 border-l border-border pl-4">
+        {events.map((event) => (
+          <li key={event.id} className="relative text-sm">
+            <span
+              className={`absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full ${
+                event.to_status === 'disputed' ? 'bg-destructive' : 'bg-primary'
+              }`}
+            />
+            <p className="font-medium">{FULFILMENT_STATUS_LABELS[event.to_status]}</p>
+            <p className="text-xs text-muted-foreground">
+              {format(new Date(event.created_at), "MMM d, yyyy 'at' h:mm a")} · {describeActor(event.actor_id)}
+            </p>
+            {event.tracking_number && (
+              <p className="text-muted-foreground">
+                {event.shipping_carrier}, tracking {event.tracking_number}
+              </p>
+            )}
+            {event.note && <p className="text-muted-foreground">{event.note}</p>}
+          </li>
+        ))}
+      </ol>
+
+      {actions.includes('shipped') && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`carrier-${order.id}`}>Carrier</Label>
+              <Input
+                id={`carrier-${order.id}`}
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value)}
+                placeholder="e.g. UPS"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`tracking-${order.id}`}>Tracking number</Label>
+              <Input
+                id={`tracking-${order.id}`}
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button
+            className="w-full auction-gradient text-white"
+            onClick={() => advance('shipped')}
+            disabled={submitting || !carrier.trim() || !trackingNumber.trim()}
+          >
+            {FULFILMENT_ACTION_LABELS.shipped}
+          </Button>
+        </div>
+      )}
+
+      {actions
+        .filter((action) => action !== 'shipped' && action !== 'disputed')
+        .map((action) => (
+          <Button
+            key={action}
+            variant={action === 'unpaid' ? "outline" : "default"}
+            className={action === 'unpaid' ? "w-full" : "w-full auction-gradient text-white"}
+            onClick={() => advance(action)}
+            disabled={submitting}
+          >
+            {FULFILMENT_ACTION_LABELS[action]}
+          </Button>
+        ))}
+
+      {canRefund && (
+        <Button variant="outline" className="w-full" onClick={refund} disabled={submitting}>
+          Refund Buyer
+        </Button>
+      )}
+
+      {actions.includes('disputed') && (
+        <>
+          <Separator />
+          <div className="space-y-2">
+            <Textarea
+              value={disputeReason}
+              onChange={(e) => setDisputeReason(e.target.value)}
+              placeholder="What went wrong with this order?"
+              rows={2}
+            />
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => advance('disputed')}
+              disabled={submitting || !disputeReason.trim()}
+            >
+              {FULFILMENT_ACTION_LABELS.disputed}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OrderTimeline;
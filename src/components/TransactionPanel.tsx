@@ -0,0 +1,571 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import InvoiceButton from "@/components/InvoiceButton";
+import OrderTimeline from "@/components/OrderTimeline";
+import { toast } from "@/hooks/use-toast";
+import { describeClearingPrice } from "@/lib/auction-formats";
+import { FULFILMENT_STATUS_LABELS } from "@/lib/fulfilment";
+import { Handshake } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface Offer {
+  id: string;
+  author_id: string;
+  amount: number;
+  message: string | null;
+  expires_at: string;
+  status: string;
+  created_at: string;
+}
+
+interface Transaction {
+  id: string;
+  auction_id: string;
+  seller_id: string;
+  buyer_id: string;
+  final_amount: number;
+  quantity: number;
+  unit_price: number | null;
+  status: string;
+  second_chance: boolean;
+  offer_expires_at: string | null;
+  fulfilment_status: string | null;
+  payment_due_at: string | null;
+  seller_commission: number;
+  buyer_premium: number;
+  counter_offer_amount: number | null;
+  counter_offer_message: string | null;
+  invoice_url: string | null;
+  invoice_number: string | null;
+  transaction_offers?: Offer[];
+  auctions?: {
+    format: string;
+    winning_bid: number | null;
+    second_bid: number | null;
+    clearing_price: number | null;
+    clearing_price_basis: string | null;
+  } | null;
+}
+
+interface TransactionPanelProps {
+  auctionId: string;
+  userId: string;
+}
+
+interface TransactionCardProps {
+  transaction: Transaction;
+  userId: string;
+  onUpdate: () => void;
+}
+
+type TransactionAction = "accept" | "reject" | "counter";
+
+// How long the other party gets to answer a counter-offer
+const OFFER_EXPIRY_HOURS = ["12", "24", "48", "72", "168"];
+
+// Formats whose losing bids can be offered the item, as send_second_chance_offer() allows
+const SECOND_CHANCE_FORMATS = ["english", "sealed_first_price", "sealed_second_price", "reverse", "candle"];
+
+const formatExpiryOption = (hours: string) =>
+  hours === "168" ? "Open for 7 days" : `Open for ${hours} hours`;
+
+const OFFER_STATUS_LABELS: Record<string, string> = {
+  accepted: "Accepted",
+  declined: "Declined",
+  countered: "Countered",
+  expired: "Expired",
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'accepted':
+    case 'paid':
+    case 'shipped':
+    case 'delivered':
+    case 'completed': return 'bg-success';
+    case 'pending':
+    case 'offered':
+    case 'payment_pending':
+    case 'countered': return 'bg-warning';
+    case 'rejected':
+    case 'expired':
+    case 'disputed':
+    case 'unpaid': return 'bg-destructive';
+    default: return 'bg-muted';
+  }
+};
+
+const TransactionCard = ({ transaction, userId, onUpdate }: TransactionCardProps) => {
+  const [counterAmount, setCounterAmount] = useState("");
+  const [counterMessage, setCounterMessage] = useState("");
+  const [expiresInHours, setExpiresInHours] = useState("48");
+  const [submitting, setSubmitting] = useState(false);
+
+  const respond = async (action: TransactionAction) => {
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('respond_to_transaction', {
+        p_transaction_id: transaction.id,
+        p_action: action,
+        p_counter_amount: action === 'counter' ? parseFloat(counterAmount) : undefined,
+        p_counter_message: action === 'counter' ? counterMessage : undefined,
+        p_expires_in_hours: action === 'counter' ? parseInt(expiresInHours) : undefined,
+      });
+
+      if (error) throw error;
+
+      onUpdate();
+      setCounterAmount("");
+      setCounterMessage("");
+      toast({
+        title: "Response sent",
+        description: `The transaction is now ${data.status}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isSeller = userId === transaction.seller_id;
+  const isBuyer = userId === transaction.buyer_id;
+  // On a reverse auction the poster buys from the supplier who won it
+  const isReverse = transaction.auctions?.format === 'reverse';
+  const isOwner = isReverse ? isBuyer : isSeller;
+  const isBidder = isReverse ? isSeller : isBuyer;
+  const agreedAmount = transaction.counter_offer_amount ?? transaction.final_amount;
+  const buyerTotal = agreedAmount + transaction.buyer_premium;
+  const offers = [...(transaction.transaction_offers ?? [])].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const openOffer = offers.find((offer) => offer.status === 'open');
+  const isOfferExpired = transaction.status === 'offered'
+    ? new Date(transaction.offer_expires_at) <= new Date()
+    : openOffer !== undefined && new Date(openOffer.expires_at) <= new Date();
+  // Mirrors respond_to_transaction(): the auction's owner answers the winning
+  // bid, then whoever didn't make the open offer answers it. A second-chance
+  // offer is the runner-up's to answer
+  const isAwaitingUser = !isOfferExpired && (
+    (transaction.status === 'pending' && isOwner)
+    || (transaction.status === 'offered' && isBidder)
+    || (transaction.status === 'countered' && openOffer !== undefined && openOffer.author_id !== userId)
+  );
+  // The owner counters past the offer on the table, the bidder back towards
+  // their winning amount
+  const offerOnTable = openOffer?.amount ?? transaction.final_amount;
+  const [minCounter, maxCounter] = isReverse
+    ? isOwner ? [0.01, offerOnTable - 0.01] : [offerOnTable + 0.01, transaction.final_amount - 0.01]
+    : isOwner ? [offerOnTable + 0.01, undefined] : [transaction.final_amount + 0.01, offerOnTable - 0.01];
+  const canCounter = transaction.status !== 'offered' && (maxCounter === undefined || maxCounter >= minCounter);
+  const otherParty = isSeller ? "buyer" : "seller";
+  const describeAuthor = (authorId: string) =>
+    authorId === userId ? "You" : authorId === transaction.seller_id ? "Seller" : "Buyer";
+  const isPaymentOverdue = transaction.payment_due_at !== null && new Date(transaction.payment_due_at) <= new Date();
+  const isSecondPrice = !transaction.second_chance && transaction.auctions?.format === 'sealed_second_price';
+  const isMultiUnit = transaction.quantity > 1 && transaction.unit_price !== null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Handshake className="h-5 w-5" />
+            <span>{transaction.second_chance ? "Second-chance Sale" : "Sale"}</span>
+          </CardTitle>
+          <Badge className={`${getStatusColor(transaction.fulfilment_status ?? transaction.status)} text-white`}>
+            {transaction.fulfilment_status ? FULFILMENT_STATUS_LABELS[transaction.fulfilment_status] : transaction.status}
+          </Badge>
+        </div>
+        <CardDescription>
+          {transaction.second_chance
+            ? `Offered at ${isBidder ? "your" : "the runner-up's"} bid: $${transaction.final_amount.toFixed(2)}`
+            : isMultiUnit
+            ? `${transaction.quantity} units × $${transaction.unit_price.toFixed(2)}: $${transaction.final_amount.toFixed(2)}`
+            : `${isSecondPrice ? "Clearing price" : isReverse ? "Winning offer" : "Winning bid"}: $${transaction.final_amount.toFixed(2)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isSecondPrice && (
+          <p className="text-sm text-muted-foreground">
+            {describeClearingPrice(transaction.auctions)}
+          </p>
+        )}
+
+        {offers.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Negotiation</p>
+            <div className="rounded-lg bg-muted/50 p-3 text-sm">
+              <p>
+                {isBidder ? "You" : isReverse ? "Seller" : "Buyer"} won at <span className="font-semibold">${transaction.final_amount.toFixed(2)}</span>
+              </p>
+            </div>
+            {offers.map((offer) => (
+              <div
+                key={offer.id}
+                className={`rounded-lg p-3 text-sm ${
+                  offer.status === 'open' ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <p>
+                    {describeAuthor(offer.author_id)} offered{" "}
+                    <span className="font-semibold">${offer.amount.toFixed(2)}</span>
+                  </p>
+                  <span className="text-xs text-muted-foreground">
+                    {offer.status === 'open'
+                      ? new Date(offer.expires_at) > new Date()
+                        ? `Expires ${formatDistanceToNow(new Date(offer.expires_at), { addSuffix: true })}`
+                        : "Expired"
+                      : OFFER_STATUS_LABELS[offer.status]}
+                  </span>
+                </div>
+                {offer.message && (
+                  <p className="text-muted-foreground">{offer.message}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isAwaitingUser && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                onClick={() => respond('accept')}
+                disabled={submitting}
+                className="auction-gradient text-white"
+              >
+                {openOffer ? "Accept Offer" : "Accept"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => respond('reject')}
+                disabled={submitting}
+              >
+                {openOffer ? "Decline" : "Reject"}
+              </Button>
+            </div>
+
+            {canCounter && (
+              <>
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label htmlFor={`counterAmount-${transaction.id}`}>Counter-offer ($)</Label>
+                  <Input
+                    id={`counterAmount-${transaction.id}`}
+                    type="number"
+                    step="0.01"
+                    min={minCounter.toFixed(2)}
+                    max={maxCounter?.toFixed(2)}
+                    value={counterAmount}
+                    onChange={(e) => setCounterAmount(e.target.value)}
+                    placeholder={(maxCounter ?? minCounter).toFixed(2)}
+                  />
+                  <Textarea
+                    value={counterMessage}
+                    onChange={(e) => setCounterMessage(e.target.value)}
+                    placeholder={`Optional message to the ${otherParty}`}
+                    rows={2}
+                  />
+                  <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+                    <SelectTrigger aria-label="Offer expires after">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OFFER_EXPIRY_HOURS.map((hours) => (
+                        <SelectItem key={hours} value={hours}>
+                          {formatExpiryOption(hours)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => respond('counter')}
+                    disabled={submitting || !counterAmount}
+                  >
+                    Send Counter-offer
+                  </Button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        {transaction.status === 'offered' && !isOfferExpired && (
+          <p className="text-sm text-muted-foreground">
+            {isBidder && isReverse
+              ? "The order with the winning supplier fell through, so the buyer is offering it to you at your own offer."
+              : isBidder
+              ? "The sale to the winning bidder fell through, so the seller is offering you the item at your own bid."
+              : "Waiting for the runner-up to answer your second-chance offer."}{" "}
+            The offer expires {formatDistanceToNow(new Date(transaction.offer_expires_at), { addSuffix: true })}.
+          </p>
+        )}
+
+        {transaction.status === 'offered' && isOfferExpired && (
+          <p className="text-sm text-muted-foreground">
+            The second-chance offer has run out. This sale did not go ahead.
+          </p>
+        )}
+
+        {transaction.status === 'pending' && isBidder && (
+          <p className="text-sm text-muted-foreground">
+            {isReverse
+              ? "Waiting for the buyer to confirm your winning offer."
+              : "Waiting for the seller to confirm your winning bid."}
+          </p>
+        )}
+
+        {transaction.status === 'countered' && openOffer?.author_id === userId && !isOfferExpired && (
+          <p className="text-sm text-muted-foreground">
+            Waiting for the {otherParty} to respond to your counter-offer.
+          </p>
+        )}
+
+        {transaction.status === 'countered' && isOfferExpired && (
+          <p className="text-sm text-muted-foreground">
+            The latest offer has run out. This sale did not go ahead.
+          </p>
+        )}
+
+        {(transaction.status === 'accepted' || transaction.status === 'completed') && (
+          <>
+            <p className="text-sm">
+              Sale agreed at <span className="font-semibold">${agreedAmount.toFixed(2)}</span>.
+            </p>
+            {/* Fees were fixed when the sale was created, see apply_transaction_fees() */}
+            <div className="rounded-lg bg-muted/50 p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Price</span>
+                <span>${agreedAmount.toFixed(2)}</span>
+              </div>
+              {isBuyer ? (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Buyer's premium</span>
+                    <span>${transaction.buyer_premium.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>You pay</span>
+                    <span>${buyerTotal.toFixed(2)}</span>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Seller commission</span>
+                    <span>-${transaction.seller_commission.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>You receive</span>
+                    <span>${(agreedAmount - transaction.seller_commission).toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+            {transaction.invoice_url ? (
+              <InvoiceButton invoicePath={transaction.invoice_url} className="w-full" />
+            ) : (
+              <p className="text-sm text-muted-foreground">Preparing invoice...</p>
+            )}
+            {transaction.fulfilment_status === 'payment_pending' && isBuyer && (
+              <Link to={`/checkout/${transaction.id}`} className="block">
+                <Button className="w-full auction-gradient text-white shadow-elegant">
+                  Pay ${buyerTotal.toFixed(2)}
+                </Button>
+              </Link>
+            )}
+            {transaction.fulfilment_status === 'payment_pending' && transaction.payment_due_at && (
+              <p className="text-sm text-muted-foreground">
+                {isPaymentOverdue ? "Payment was due" : "Payment is due"}{" "}
+                {formatDistanceToNow(new Date(transaction.payment_due_at), { addSuffix: true })}.
+                {isSeller && (isPaymentOverdue
+                  ? " You can now cancel the order as unpaid."
+                  : " After that you can cancel the order as unpaid.")}
+              </p>
+            )}
+            {transaction.fulfilment_status && (
+              <>
+                <Separator />
+                <OrderTimeline order={transaction} userId={userId} onUpdate={onUpdate} />
+              </>
+            )}
+          </>
+        )}
+
+        {transaction.status === 'rejected' && (
+          <p className="text-sm text-muted-foreground">This sale did not go ahead.</p>
+        )}
+
+        {transaction.status === 'expired' && (
+          <p className="text-sm text-muted-foreground">
+            The last offer expired without an answer. This sale did not go ahead.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface SecondChanceOfferProps {
+  auctionId: string;
+  onSent: () => void;
+}
+
+const SecondChanceOffer = ({ auctionId, onSent }: SecondChanceOfferProps) => {
+  const [expiresInHours, setExpiresInHours] = useState("48");
+  const [sending, setSending] = useState(false);
+
+  const sendOffer = async () => {
+    setSending(true);
+
+    try {
+      const { data, error } = await supabase.rpc('send_second_chance_offer', {
+        p_auction_id: auctionId,
+        p_expires_in_hours: parseInt(expiresInHours),
+      });
+
+      if (error) throw error;
+
+      onSent();
+      toast({
+        title: "Second-chance offer sent",
+        description: `The runner-up has been offered the item at their bid of $${data.final_amount.toFixed(2)}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Second-chance Offer</CardTitle>
+        <CardDescription>
+          Offer the item to the next-best bidder at their own best bid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+          <SelectTrigger aria-label="Offer expires after">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OFFER_EXPIRY_HOURS.map((hours) => (
+              <SelectItem key={hours} value={hours}>
+                {formatExpiryOption(hours)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={sendOffer}
+          disabled={sending}
+          className="w-full auction-gradient text-white"
+        >
+          {sending ? "Sending..." : "Offer to Runner-up"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Multi-unit auctions produce one sale per winning bidder, so the seller sees
+// every sale while each buyer only sees their own
+const TransactionPanel = ({ auctionId, userId }: TransactionPanelProps) => {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+
+  useEffect(() => {
+    fetchTransactions();
+
+    const channel = supabase
+      .channel(`transaction-${auctionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'transactions',
+          filter: `auction_id=eq.${auctionId}`
+        },
+        () => {
+          fetchTransactions();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [auctionId]);
+
+  const fetchTransactions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select(`
+          *,
+          transaction_offers(id, author_id, amount, message, expires_at, status, created_at),
+          auctions:auction_id(format, winning_bid, second_bid, clearing_price, clearing_price_basis)
+        `)
+        .eq('auction_id', auctionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setTransactions((data as unknown as Transaction[]) || []);
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+    }
+  };
+
+  const visible = transactions.filter((t) => t.seller_id === userId || t.buyer_id === userId);
+  if (visible.length === 0) return null;
+
+  // Once every sale has fallen through the auction's owner can move down the
+  // bids. A reverse auction's owner is the buyer
+  const isReverse = transactions[0].auctions?.format === 'reverse';
+  const canOfferSecondChance =
+    (isReverse ? transactions[0].buyer_id : transactions[0].seller_id) === userId
+    && SECOND_CHANCE_FORMATS.includes(transactions[0].auctions?.format)
+    && transactions.every((t) => t.status === 'rejected' || t.status === 'expired' || t.fulfilment_status === 'unpaid');
+
+  return (
+    <div className="space-y-4">
+      {visible.map((transaction) => (
+        <TransactionCard
+          key={transaction.id}
+          transaction={transaction}
+          userId={userId}
+          onUpdate={fetchTransactions}
+        />
+      ))}
+      {canOfferSecondChance && (
+        <SecondChanceOffer auctionId={auctionId} onSent={fetchTransactions} />
+      )}
+    </div>
+  );
+};
+
+export default TransactionPanel;
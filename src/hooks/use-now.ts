@@ -0,0 +1,12 @@
+import * as React from "react"
+
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = React.useState(() => new Date())
+
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), intervalMs)
+    return () => window.clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
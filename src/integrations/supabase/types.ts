@@ -14,56 +14,265 @@ export type Database = {
   }
   public: {
     Tables: {
+      auction_candle_secrets: {
+        Row: {
+          auction_id: string
+          created_at: string
+          end_time: string
+          seed: string
+        }
+        Insert: {
+          auction_id: string
+          created_at?: string
+          end_time: string
+          seed: string
+        }
+        Update: {
+          auction_id?: string
+          created_at?: string
+          end_time?: string
+          seed?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auction_candle_secrets_auction_id_fkey"
+            columns: ["auction_id"]
+            isOneToOne: true
+            referencedRelation: "auctions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      auction_events: {
+        Row: {
+          created_at: string
+          description: string | null
+          first_lot_end_time: string
+          id: string
+          lot_interval_seconds: number
+          seller_id: string
+          start_time: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          first_lot_end_time: string
+          id?: string
+          lot_interval_seconds?: number
+          seller_id: string
+          start_time: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          first_lot_end_time?: string
+          id?: string
+          lot_interval_seconds?: number
+          seller_id?: string
+          start_time?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auction_events_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      auction_reserves: {
+        Row: {
+          auction_id: string
+          created_at: string
+          reserve_price: number
+          updated_at: string
+        }
+        Insert: {
+          auction_id: string
+          created_at?: string
+          reserve_price: number
+          updated_at?: string
+        }
+        Update: {
+          auction_id?: string
+          created_at?: string
+          reserve_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auction_reserves_auction_id_fkey"
+            columns: ["auction_id"]
+            isOneToOne: true
+            referencedRelation: "auctions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       auctions: {
         Row: {
-          bid_increment: number
+          asking_price: number | null
+          auctioneer_id: string | null
+          bid_increment: number | null
+          bid_increment_tiers: Json | null
+          buy_now_price: number | null
+          buy_now_threshold: number | null
+          call_changed_at: string | null
+          call_state: string | null
+          candle_commitment: string | null
+          candle_end_time: string | null
+          candle_seed: string | null
+          candle_window_start: string | null
+          category: string
+          clearing_price: number | null
+          clearing_price_basis: string | null
           created_at: string
           current_highest_bid: number | null
           description: string | null
+          dutch_floor_price: number | null
+          dutch_price_step: number | null
+          dutch_step_interval_seconds: number | null
           end_time: string
+          event_id: string | null
+          extension_count: number
+          finalized_at: string | null
+          format: string
+          has_reserve: boolean
           highest_bidder_id: string | null
           id: string
           image_url: string | null
+          lot_number: number | null
+          outcome: string | null
+          quantity: number
+          reserve_met: boolean
+          second_bid: number | null
           seller_id: string
+          soft_close_extension_seconds: number | null
+          soft_close_max_extensions: number | null
+          soft_close_window_seconds: number | null
           start_time: string
           starting_price: number
           status: string
           title: string
           updated_at: string
+          winning_bid: number | null
         }
         Insert: {
-          bid_increment?: number
+          asking_price?: number | null
+          auctioneer_id?: string | null
+          bid_increment?: number | null
+          bid_increment_tiers?: Json | null
+          buy_now_price?: number | null
+          buy_now_threshold?: number | null
+          call_changed_at?: string | null
+          call_state?: string | null
+          candle_commitment?: string | null
+          candle_end_time?: string | null
+          candle_seed?: string | null
+          candle_window_start?: string | null
+          category?: string
+          clearing_price?: number | null
+          clearing_price_basis?: string | null
           created_at?: string
           current_highest_bid?: number | null
           description?: string | null
+          dutch_floor_price?: number | null
+          dutch_price_step?: number | null
+          dutch_step_interval_seconds?: number | null
           end_time: string
+          event_id?: string | null
+          extension_count?: number
+          finalized_at?: string | null
+          format?: string
+          has_reserve?: boolean
           highest_bidder_id?: string | null
           id?: string
           image_url?: string | null
+          lot_number?: number | null
+          outcome?: string | null
+          quantity?: number
+          reserve_met?: boolean
+          second_bid?: number | null
           seller_id: string
+          soft_close_extension_seconds?: number | null
+          soft_close_max_extensions?: number | null
+          soft_close_window_seconds?: number | null
           start_time: string
           starting_price: number
           status?: string
           title: string
           updated_at?: string
+          winning_bid?: number | null
         }
         Update: {
-          bid_increment?: number
+          asking_price?: number | null
+          auctioneer_id?: string | null
+          bid_increment?: number | null
+          bid_increment_tiers?: Json | null
+          buy_now_price?: number | null
+          buy_now_threshold?: number | null
+          call_changed_at?: string | null
+          call_state?: string | null
+          candle_commitment?: string | null
+          candle_end_time?: string | null
+          candle_seed?: string | null
+          candle_window_start?: string | null
+          category?: string
+          clearing_price?: number | null
+          clearing_price_basis?: string | null
           created_at?: string
           current_highest_bid?: number | null
           description?: string | null
+          dutch_floor_price?: number | null
+          dutch_price_step?: number | null
+          dutch_step_interval_seconds?: number | null
           end_time?: string
+          event_id?: string | null
+          extension_count?: number
+          finalized_at?: string | null
+          format?: string
+          has_reserve?: boolean
           highest_bidder_id?: string | null
           id?: string
           image_url?: string | null
+          lot_number?: number | null
+          outcome?: string | null
+          quantity?: number
+          reserve_met?: boolean
+          second_bid?: number | null
           seller_id?: string
+          soft_close_extension_seconds?: number | null
+          soft_close_max_extensions?: number | null
+          soft_close_window_seconds?: number | null
           start_time?: string
           starting_price?: number
           status?: string
           title?: string
           updated_at?: string
+          winning_bid?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "auctions_auctioneer_id_fkey"
+            columns: ["auctioneer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "auctions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "auction_events"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "auctions_highest_bidder_id_fkey"
             columns: ["highest_bidder_id"]
@@ -80,27 +289,146 @@ export type Database = {
           },
         ]
       }
+      bid_increment_tiers: {
+        Row: {
+          created_at: string
+          id: string
+          increment: number
+          min_price: number
+          seller_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          increment: number
+          min_price: number
+          seller_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          increment?: number
+          min_price?: number
+          seller_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bid_increment_tiers_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      bid_retractions: {
+        Row: {
+          actor_id: string
+          auction_id: string
+          bid_id: string
+          created_at: string
+          id: string
+          new_highest_bid: number | null
+          new_highest_bidder_id: string | null
+          previous_highest_bid: number | null
+          previous_highest_bidder_id: string | null
+          reason: string
+        }
+        Insert: {
+          actor_id: string
+          auction_id: string
+          bid_id: string
+          created_at?: string
+          id?: string
+          new_highest_bid?: number | null
+          new_highest_bidder_id?: string | null
+          previous_highest_bid?: number | null
+          previous_highest_bidder_id?: string | null
+          reason: string
+        }
+        Update: {
+          actor_id?: string
+          auction_id?: string
+          bid_id?: string
+          created_at?: string
+          id?: string
+          new_highest_bid?: number | null
+          new_highest_bidder_id?: string | null
+          previous_highest_bid?: number | null
+          previous_highest_bidder_id?: string | null
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bid_retractions_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "bid_retractions_auction_id_fkey"
+            columns: ["auction_id"]
+            isOneToOne: false
+            referencedRelation: "auctions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bid_retractions_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: true
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bid_retractions_new_highest_bidder_id_fkey"
+            columns: ["new_highest_bidder_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "bid_retractions_previous_highest_bidder_id_fkey"
+            columns: ["previous_highest_bidder_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       bids: {
         Row: {
+          allocated_quantity: number | null
           amount: number
           auction_id: string
           bidder_id: string
           created_at: string
           id: string
+          is_automatic: boolean
+          quantity: number
+          status: string
         }
         Insert: {
+          allocated_quantity?: number | null
           amount: number
           auction_id: string
           bidder_id: string
           created_at?: string
           id?: string
+          is_automatic?: boolean
+          quantity?: number
+          status?: string
         }
         Update: {
+          allocated_quantity?: number | null
           amount?: number
           auction_id?: string
           bidder_id?: string
           created_at?: string
           id?: string
+          is_automatic?: boolean
+          quantity?: number
+          status?: string
         }
         Relationships: [
           {
@@ -119,6 +447,217 @@ export type Database = {
           },
         ]
       }
+      email_queue: {
+        Row: {
+          attempts: number
+          auction_id: string | null
+          created_at: string
+          data: Json
+          id: string
+          last_error: string | null
+          sent_at: string | null
+          status: string
+          template: string
+          to_email: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          auction_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          last_error?: string | null
+          sent_at?: string | null
+          status?: string
+          template: string
+          to_email: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          auction_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          last_error?: string | null
+          sent_at?: string | null
+          status?: string
+          template?: string
+          to_email?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_queue_auction_id_fkey"
+            columns: ["auction_id"]
+            isOneToOne: false
+            referencedRelation: "auctions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_queue_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      fee_schedules: {
+        Row: {
+          buyer_premium_max: number | null
+          buyer_premium_min: number
+          buyer_premium_rate: number
+          category: string | null
+          created_at: string
+          id: string
+          seller_commission_max: number | null
+          seller_commission_min: number
+          seller_commission_rate: number
+          updated_at: string
+        }
+        Insert: {
+          buyer_premium_max?: number | null
+          buyer_premium_min?: number
+          buyer_premium_rate: number
+          category?: string | null
+          created_at?: string
+          id?: string
+          seller_commission_max?: number | null
+          seller_commission_min?: number
+          seller_commission_rate: number
+          updated_at?: string
+        }
+        Update: {
+          buyer_premium_max?: number | null
+          buyer_premium_min?: number
+          buyer_premium_rate?: number
+          category?: string | null
+          created_at?: string
+          id?: string
+          seller_commission_max?: number | null
+          seller_commission_min?: number
+          seller_commission_rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fulfilment_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          shipping_carrier: string | null
+          to_status: string
+          tracking_number: string | null
+          transaction_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          shipping_carrier?: string | null
+          to_status: string
+          tracking_number?: string | null
+          transaction_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          shipping_carrier?: string | null
+          to_status?: string
+          tracking_number?: string | null
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fulfilment_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "fulfilment_events_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_entries: {
+        Row: {
+          account: string
+          amount: number
+          created_at: string
+          description: string
+          entry_type: string
+          id: string
+          journal_id: string
+          payment_id: string | null
+          transaction_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          account: string
+          amount: number
+          created_at?: string
+          description: string
+          entry_type: string
+          id?: string
+          journal_id: string
+          payment_id?: string | null
+          transaction_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          account?: string
+          amount?: number
+          created_at?: string
+          description?: string
+          entry_type?: string
+          id?: string
+          journal_id?: string
+          payment_id?: string | null
+          transaction_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           auction_id: string | null
@@ -170,6 +709,83 @@ export type Database = {
           },
         ]
       }
+      payment_webhook_events: {
+        Row: {
+          event_id: string
+          payload: Json | null
+          provider: string
+          provider_payment_id: string
+          received_at: string
+          type: string
+        }
+        Insert: {
+          event_id: string
+          payload?: Json | null
+          provider: string
+          provider_payment_id: string
+          received_at?: string
+          type: string
+        }
+        Update: {
+          event_id?: string
+          payload?: Json | null
+          provider?: string
+          provider_payment_id?: string
+          received_at?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          client_secret: string | null
+          created_at: string
+          currency: string
+          failure_message: string | null
+          id: string
+          provider: string
+          provider_payment_id: string
+          status: string
+          transaction_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          client_secret?: string | null
+          created_at?: string
+          currency?: string
+          failure_message?: string | null
+          id?: string
+          provider: string
+          provider_payment_id: string
+          status?: string
+          transaction_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          client_secret?: string | null
+          created_at?: string
+          currency?: string
+          failure_message?: string | null
+          id?: string
+          provider?: string
+          provider_payment_id?: string
+          status?: string
+          transaction_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -200,44 +816,192 @@ export type Database = {
         }
         Relationships: []
       }
+      proxy_bids: {
+        Row: {
+          auction_id: string
+          bidder_id: string
+          created_at: string
+          id: string
+          max_amount: number
+          placed_at: string
+          updated_at: string
+        }
+        Insert: {
+          auction_id: string
+          bidder_id: string
+          created_at?: string
+          id?: string
+          max_amount: number
+          placed_at?: string
+          updated_at?: string
+        }
+        Update: {
+          auction_id?: string
+          bidder_id?: string
+          created_at?: string
+          id?: string
+          max_amount?: number
+          placed_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proxy_bids_auction_id_fkey"
+            columns: ["auction_id"]
+            isOneToOne: false
+            referencedRelation: "auctions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proxy_bids_bidder_id_fkey"
+            columns: ["bidder_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      transaction_offers: {
+        Row: {
+          amount: number
+          auction_id: string
+          author_id: string
+          created_at: string
+          expires_at: string
+          id: string
+          message: string | null
+          responded_at: string | null
+          status: string
+          transaction_id: string
+        }
+        Insert: {
+          amount: number
+          auction_id: string
+          author_id: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          message?: string | null
+          responded_at?: string | null
+          status?: string
+          transaction_id: string
+        }
+        Update: {
+          amount?: number
+          auction_id?: string
+          author_id?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          message?: string | null
+          responded_at?: string | null
+          status?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_offers_auction_id_fkey"
+            columns: ["auction_id"]
+            isOneToOne: false
+            referencedRelation: "auctions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_offers_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "transaction_offers_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           auction_id: string
           buyer_id: string
+          buyer_premium: number
           counter_offer_amount: number | null
           counter_offer_message: string | null
           created_at: string
+          dispute_reason: string | null
+          fee_terms: Json | null
           final_amount: number
+          fulfilment_status: string | null
           id: string
+          invoice_number: string | null
           invoice_url: string | null
+          offer_expires_at: string | null
+          payment_due_at: string | null
+          quantity: number
+          responded_at: string | null
+          second_chance: boolean
+          seller_commission: number
           seller_id: string
+          shipping_carrier: string | null
           status: string
+          tracking_number: string | null
+          unit_price: number | null
           updated_at: string
         }
         Insert: {
           auction_id: string
           buyer_id: string
+          buyer_premium?: number
           counter_offer_amount?: number | null
           counter_offer_message?: string | null
           created_at?: string
+          dispute_reason?: string | null
+          fee_terms?: Json | null
           final_amount: number
+          fulfilment_status?: string | null
           id?: string
+          invoice_number?: string | null
           invoice_url?: string | null
+          offer_expires_at?: string | null
+          payment_due_at?: string | null
+          quantity?: number
+          responded_at?: string | null
+          second_chance?: boolean
+          seller_commission?: number
           seller_id: string
+          shipping_carrier?: string | null
           status?: string
+          tracking_number?: string | null
+          unit_price?: number | null
           updated_at?: string
         }
         Update: {
           auction_id?: string
           buyer_id?: string
+          buyer_premium?: number
           counter_offer_amount?: number | null
           counter_offer_message?: string | null
           created_at?: string
+          dispute_reason?: string | null
+          fee_terms?: Json | null
           final_amount?: number
+          fulfilment_status?: string | null
           id?: string
+          invoice_number?: string | null
           invoice_url?: string | null
+          offer_expires_at?: string | null
+          payment_due_at?: string | null
+          quantity?: number
+          responded_at?: string | null
+          second_chance?: boolean
+          seller_commission?: number
           seller_id?: string
+          shipping_carrier?: string | null
           status?: string
+          tracking_number?: string | null
+          unit_price?: number | null
           updated_at?: string
         }
         Relationships: [
@@ -269,7 +1033,236 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_dutch_price: {
+        Args: { p_auction_id: string }
+        Returns: {
+          accepted: boolean
+          price: number
+          reason: string
+          transaction_id: string
+        }[]
+      }
+      advance_fulfilment: {
+        Args: {
+          p_carrier?: string
+          p_reason?: string
+          p_status: string
+          p_tracking_number?: string
+          p_transaction_id: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      bid_increment_at: {
+        Args: {
+          p_auction: Database["public"]["Tables"]["auctions"]["Row"]
+          p_price: number
+        }
+        Returns: number
+      }
+      bid_rejection_reason: {
+        Args: {
+          p_auction: Database["public"]["Tables"]["auctions"]["Row"]
+          p_bidder_id: string
+        }
+        Returns: string
+      }
+      buy_now: {
+        Args: { p_auction_id: string }
+        Returns: {
+          accepted: boolean
+          reason: string
+          transaction_id: string
+        }[]
+      }
+      call_lot: {
+        Args: { p_asking_price?: number; p_auction_id: string; p_call: string }
+        Returns: {
+          accepted: boolean
+          asking_price: number
+          call_state: string
+          reason: string
+        }[]
+      }
+      candle_commitment: {
+        Args: { p_auction_id: string; p_end_time: string; p_seed: string }
+        Returns: string
+      }
+      claim_email_batch: {
+        Args: { p_limit?: number }
+        Returns: Database["public"]["Tables"]["email_queue"]["Row"][]
+      }
+      create_auction: {
+        Args: { p_auction: Json; p_reserve_price?: number }
+        Returns: Database["public"]["Tables"]["auctions"]["Row"]
+      }
+      dutch_current_price: {
+        Args: {
+          p_auction: Database["public"]["Tables"]["auctions"]["Row"]
+        }
+        Returns: number
+      }
+      end_auction_early: {
+        Args: { p_auction_id: string }
+        Returns: undefined
+      }
+      enqueue_email: {
+        Args: {
+          p_auction_id: string
+          p_data?: Json
+          p_template: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      expire_transaction_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      fee_amount: {
+        Args: { p_amount: number; p_max: number; p_min: number; p_rate: number }
+        Returns: number
+      }
+      finalize_auction: {
+        Args: { p_auction_id: string }
+        Returns: undefined
+      }
+      format_amount: {
+        Args: { p_amount: number }
+        Returns: string
+      }
+      is_buy_now_available: {
+        Args: { p_auction: Database["public"]["Tables"]["auctions"]["Row"] }
+        Returns: boolean
+      }
+      is_reserve_met: {
+        Args: { p_amount: number; p_auction_id: string }
+        Returns: boolean
+      }
+      multi_unit_allocation: {
+        Args: { p_auction_id: string; p_exclude_bidder_id?: string }
+        Returns: {
+          allocated_quantity: number
+          bid_id: string
+          bidder_id: string
+          quantity: number
+          unit_price: number
+        }[]
+      }
+      place_bid: {
+        Args: { p_amount: number; p_auction_id: string; p_quantity?: number }
+        Returns: {
+          accepted: boolean
+          bid_id: string
+          current_highest_bid: number
+          is_leading: boolean
+          minimum_bid: number
+          reason: string
+        }[]
+      }
+      place_multi_unit_bid: {
+        Args: {
+          p_amount: number
+          p_auction: Database["public"]["Tables"]["auctions"]["Row"]
+          p_bidder_id: string
+          p_quantity: number
+        }
+        Returns: {
+          accepted: boolean
+          bid_id: string
+          current_highest_bid: number
+          is_leading: boolean
+          minimum_bid: number
+          reason: string
+        }[]
+      }
+      place_sealed_bid: {
+        Args: {
+          p_amount: number
+          p_auction: Database["public"]["Tables"]["auctions"]["Row"]
+          p_bidder_id: string
+        }
+        Returns: {
+          accepted: boolean
+          bid_id: string
+          current_highest_bid: number
+          is_leading: boolean
+          minimum_bid: number
+          reason: string
+        }[]
+      }
+      post_payment_to_ledger: {
+        Args: { p_payment_id: string; p_reverse: boolean }
+        Returns: undefined
+      }
+      process_auction_lifecycle: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      record_payment_event: {
+        Args: {
+          p_event_id: string
+          p_failure_message?: string
+          p_payload?: Json
+          p_provider: string
+          p_provider_payment_id: string
+          p_type: string
+        }
+        Returns: boolean
+      }
+      request_payout: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      resolve_proxy_bids: {
+        Args: { p_auction_id: string }
+        Returns: undefined
+      }
+      respond_to_transaction: {
+        Args: {
+          p_action: string
+          p_counter_amount?: number
+          p_counter_message?: string
+          p_expires_in_hours?: number
+          p_transaction_id: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      retract_bid: {
+        Args: { p_bid_id: string; p_reason: string }
+        Returns: {
+          accepted: boolean
+          current_highest_bid: number
+          highest_bidder_id: string
+          reason: string
+        }[]
+      }
+      seller_balance: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          available: number
+          paid_out: number
+          pending: number
+        }[]
+      }
+      send_second_chance_offer: {
+        Args: { p_auction_id: string; p_expires_in_hours?: number }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      set_bid_increment_tiers: {
+        Args: { p_tiers: Json }
+        Returns: undefined
+      }
+      set_max_bid: {
+        Args: { p_auction_id: string; p_max_amount: number }
+        Returns: {
+          accepted: boolean
+          current_highest_bid: number
+          is_leading: boolean
+          max_amount: number
+          minimum_bid: number
+          reason: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
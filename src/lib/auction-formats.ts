@@ -0,0 +1,223 @@
+export const AUCTION_FORMAT_LABELS: Record<string, string> = {
+  english: "Open bidding",
+  sealed_first_price: "Sealed bid (first price)",
+  sealed_second_price: "Sealed bid (second price)",
+  dutch: "Descending price (Dutch)",
+  reverse: "Reverse (lowest offer wins)",
+  multi_unit: "Multiple units (uniform price)",
+  candle: "Candle (hidden random close)",
+}
+
+export const AUCTION_FORMAT_DESCRIPTIONS: Record<string, string> = {
+  english: "Bids are public and each new bid must beat the current price.",
+  sealed_first_price:
+    "Each bidder submits one private bid. Bids are revealed when the auction ends and the highest bid wins.",
+  sealed_second_price:
+    "Each bidder submits one private bid. The highest bid wins but pays one increment over the second-highest bid.",
+  dutch: "The price starts high and drops on a schedule. The first bidder to accept the current price wins.",
+  reverse: "Post a request with a maximum price. Suppliers bid the price down and the lowest offer wins.",
+  multi_unit:
+    "Sell several identical units. Bidders choose a quantity and unit price, the highest unit prices win and everyone pays the lowest winning price.",
+  candle:
+    "Open bidding that closes at a secret moment drawn inside a window you set. Bids after that moment don't count, so sniping is pointless.",
+}
+
+// Categories set which fee schedule a sale uses
+export const AUCTION_CATEGORY_LABELS: Record<string, string> = {
+  art: "Art",
+  collectibles: "Collectibles",
+  electronics: "Electronics",
+  fashion: "Fashion",
+  home: "Home & Garden",
+  jewelry: "Jewelry & Watches",
+  vehicles: "Vehicles",
+  other: "Other",
+}
+
+// The auctioneer's call on a hosted lot, as shown to bidders
+export const CALL_STATE_LABELS: Record<string, string> = {
+  waiting: "Waiting for the auctioneer",
+  open: "Lot open",
+  going_once: "Going once…",
+  going_twice: "Going twice…",
+  sold: "Sold!",
+  passed: "Passed",
+}
+
+export function isCallOpen(callState: string | null) {
+  return callState === "open" || callState === "going_once" || callState === "going_twice"
+}
+
+export function isSealedFormat(format: string) {
+  return format === "sealed_first_price" || format === "sealed_second_price"
+}
+
+export interface IncrementTier {
+  min_price: number
+  increment: number
+}
+
+interface Increments {
+  bid_increment: number | null
+  bid_increment_tiers: IncrementTier[] | null
+}
+
+// Mirrors bid_increment_at(): a flat increment, or the one for the band the
+// price falls in. Prices under the first band use its increment
+export function getBidIncrement(auction: Increments, price: number | null) {
+  const tiers = auction.bid_increment_tiers
+  if (!tiers || tiers.length === 0) return auction.bid_increment ?? 0
+
+  const bands = [...tiers].sort((a, b) => b.min_price - a.min_price)
+  return (bands.find((tier) => tier.min_price <= (price ?? 0)) ?? bands[bands.length - 1]).increment
+}
+
+interface BidLimits extends Increments {
+  format: string
+  starting_price: number
+  current_highest_bid: number | null
+}
+
+interface CallLimits {
+  call_state: string | null
+  asking_price: number | null
+}
+
+// Mirrors place_bid(): the lowest amount an open bid may be, or for reverse
+// auctions the highest amount the next offer may be
+export function getRequiredBid(auction: BidLimits & CallLimits) {
+  if (auction.format === "reverse") {
+    if (auction.current_highest_bid === null) return auction.starting_price
+    return auction.current_highest_bid - getBidIncrement(auction, auction.current_highest_bid)
+  }
+
+  const required =
+    auction.current_highest_bid === null
+      ? auction.starting_price
+      : auction.current_highest_bid + getBidIncrement(auction, auction.current_highest_bid)
+  // A lot under the hammer takes bids at the auctioneer's asking price
+  if (isCallOpen(auction.call_state) && auction.asking_price !== null) {
+    return Math.max(required, auction.asking_price)
+  }
+  return required
+}
+
+interface UnitBid {
+  bidder_id: string
+  unit_price: number
+  quantity: number
+}
+
+// Mirrors place_multi_unit_bid(). Bids must be ranked as multi_unit_allocation()
+// returns them: once the other bidders want every unit, a new bid has to beat
+// the lowest of theirs that still wins one
+export function getMultiUnitRequiredBid(auction: BidLimits & { quantity: number }, bids: UnitBid[], bidderId?: string) {
+  let remaining = auction.quantity
+  let lowestWinning: number | null = null
+  for (const bid of bids) {
+    if (bid.bidder_id === bidderId) continue
+    if (remaining > 0) lowestWinning = bid.unit_price
+    remaining -= bid.quantity
+  }
+
+  const ownPrice = bids.find((bid) => bid.bidder_id === bidderId)?.unit_price ?? 0
+  const required =
+    remaining <= 0 && lowestWinning !== null ? lowestWinning + getBidIncrement(auction, lowestWinning) : auction.starting_price
+  return Math.max(required, ownPrice)
+}
+
+interface Retraction {
+  format: string
+  status: string
+  end_time: string
+  candle_window_start: string | null
+  call_state: string | null
+}
+
+const RETRACTION_WINDOW_MS = 60 * 60 * 1000
+
+// Mirrors retract_bid(): a bid can be taken back for an hour after it is
+// placed, but not in the auction's last hour, once a candle window opens or
+// while a hosted lot is going once or twice
+export function canRetractBid(auction: Retraction, bid: { status: string; created_at: string }, now: Date) {
+  if (!["english", "reverse", "candle"].includes(auction.format)) return false
+  if (auction.status === "ended" || auction.status === "cancelled" || bid.status !== "active") return false
+  if (now.getTime() > new Date(bid.created_at).getTime() + RETRACTION_WINDOW_MS) return false
+  if (now.getTime() > new Date(auction.end_time).getTime() - RETRACTION_WINDOW_MS) return false
+  if (auction.candle_window_start && now >= new Date(auction.candle_window_start)) return false
+  return auction.call_state !== "going_once" && auction.call_state !== "going_twice"
+}
+
+interface DutchSchedule {
+  starting_price: number
+  start_time: string
+  dutch_price_step: number | null
+  dutch_step_interval_seconds: number | null
+  dutch_floor_price: number | null
+}
+
+// Mirrors dutch_current_price() in the database, which sets the price actually paid
+export function getDutchPrice(auction: DutchSchedule, now: Date) {
+  const { dutch_price_step: step, dutch_step_interval_seconds: interval, dutch_floor_price: floor } = auction
+  if (step === null || interval === null || floor === null) return auction.starting_price
+
+  const elapsed = Math.max((now.getTime() - new Date(auction.start_time).getTime()) / 1000, 0)
+  return Math.max(floor, auction.starting_price - step * Math.floor(elapsed / interval))
+}
+
+export function getSecondsUntilNextDrop(auction: DutchSchedule, now: Date) {
+  const interval = auction.dutch_step_interval_seconds
+  if (interval === null || getDutchPrice(auction, now) === auction.dutch_floor_price) return null
+
+  const elapsed = Math.max((now.getTime() - new Date(auction.start_time).getTime()) / 1000, 0)
+  return Math.ceil(interval - (elapsed % interval))
+}
+
+interface ClearingPrice {
+  format: string
+  clearing_price: number | null
+  clearing_price_basis: string | null
+  winning_bid: number | null
+  second_bid: number | null
+}
+
+// Mirrors the pricing branches in finalize_auction()
+export function describeClearingPrice(auction: ClearingPrice) {
+  if (auction.clearing_price === null || auction.winning_bid === null) return null
+
+  const price = `$${auction.clearing_price.toFixed(2)}`
+  switch (auction.clearing_price_basis) {
+    case "second_bid":
+      if (auction.second_bid === null) return null
+      return `The winning bid was $${auction.winning_bid.toFixed(2)}. The price is the second-highest bid ($${auction.second_bid.toFixed(
+        2
+      )}) plus one $${(auction.clearing_price - auction.second_bid).toFixed(2)} increment: ${price}.`
+    case "starting_price":
+      return `The winning bid was $${auction.winning_bid.toFixed(2)}. It was the only bid, so the price is the starting price: ${price}.`
+    case "reserve_price":
+      return `The winning bid was $${auction.winning_bid.toFixed(2)}. The second price fell below the reserve, so the price was raised to the reserve: ${price}.`
+    default:
+      return auction.format === "sealed_second_price"
+        ? `The second-highest bid plus one increment reached the winning bid, so the price is capped at the winning bid: ${price}.`
+        : `The highest sealed bid wins and pays what it bid: ${price}.`
+  }
+}
+
+interface CandleReveal {
+  id: string
+  candle_commitment: string | null
+  candle_seed: string | null
+  candle_end_time: string | null
+}
+
+// Mirrors candle_commitment() in the database: the hash published when the
+// auction was created must match the close and seed revealed at the end
+export async function verifyCandleCommitment(auction: CandleReveal) {
+  if (!auction.candle_commitment || !auction.candle_seed || !auction.candle_end_time) return false
+
+  const closeTime = new Date(auction.candle_end_time).toISOString().replace(/\.\d{3}Z$/, "Z")
+  const message = `${auction.id}|${closeTime}|${auction.candle_seed}`
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(message))
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+  return hash === auction.candle_commitment
+}
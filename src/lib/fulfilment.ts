@@ -0,0 +1,42 @@
+export const FULFILMENT_STATUS_LABELS: Record<string, string> = {
+  payment_pending: "Awaiting payment",
+  paid: "Paid",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  completed: "Completed",
+  disputed: "Disputed",
+  unpaid: "Cancelled, unpaid",
+  refunded: "Refunded",
+}
+
+// What each move is called on the button that makes it
+export const FULFILMENT_ACTION_LABELS: Record<string, string> = {
+  paid: "Confirm Payment Received",
+  shipped: "Mark as Shipped",
+  delivered: "Confirm Delivery",
+  completed: "Release and Complete",
+  disputed: "Open a Dispute",
+  unpaid: "Cancel as Unpaid",
+}
+
+// Mirrors advance_fulfilment(): the seller confirms payment and ships, the
+// buyer confirms delivery and completes, and either side can dispute a paid
+// order until it is complete. Past the payment due date the seller can cancel
+// an unpaid order instead
+export function getFulfilmentActions(
+  status: string | null,
+  role: "buyer" | "seller",
+  paymentDueAt: string | null = null,
+  now = new Date()
+) {
+  const actions: string[] = []
+  if (role === "seller" && status === "payment_pending") actions.push("paid")
+  if (role === "seller" && status === "payment_pending" && paymentDueAt && new Date(paymentDueAt) <= now) {
+    actions.push("unpaid")
+  }
+  if (role === "seller" && status === "paid") actions.push("shipped")
+  if (role === "buyer" && status === "shipped") actions.push("delivered")
+  if (role === "buyer" && (status === "delivered" || status === "disputed")) actions.push("completed")
+  if (status === "paid" || status === "shipped" || status === "delivered") actions.push("disputed")
+  return actions
+}
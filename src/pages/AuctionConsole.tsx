@@ -0,0 +1,426 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/hooks/use-toast";
+import { CALL_STATE_LABELS, getRequiredBid, isCallOpen, type IncrementTier } from "@/lib/auction-formats";
+import { ArrowLeft, Gavel, Megaphone } from "lucide-react";
+import { format } from "date-fns";
+
+interface HostedLot {
+  id: string;
+  title: string;
+  format: string;
+  status: string;
+  starting_price: number;
+  current_highest_bid: number | null;
+  highest_bidder_id: string | null;
+  bid_increment: number | null;
+  bid_increment_tiers: IncrementTier[] | null;
+  start_time: string;
+  end_time: string;
+  auctioneer_id: string | null;
+  call_state: string | null;
+  asking_price: number | null;
+  call_changed_at: string | null;
+}
+
+interface Bid {
+  id: string;
+  amount: number;
+  bidder_id: string;
+  created_at: string;
+  profiles?: {
+    full_name: string | null;
+  } | null;
+}
+
+const getCallRejectionMessage = (reason: string) => {
+  switch (reason) {
+    case 'not_auctioneer': return "Only the auctioneer can call this lot";
+    case 'auction_not_active': return "This lot has already closed";
+    case 'auction_not_started': return "This lot has not started yet";
+    case 'invalid_call': return "That call doesn't follow from the current one";
+    case 'invalid_asking_price': return "Enter an asking price above zero";
+    case 'no_bids': return "There are no bids to sell to. Pass the lot instead";
+    case 'lot_has_bids': return "The lot has bids, so it can only be sold";
+    case 'auction_not_found': return "This lot no longer exists";
+    case 'not_authenticated': return "Please sign in to run the sale";
+    default: return "The call could not be made";
+  }
+};
+
+const AuctionConsole = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [lot, setLot] = useState<HostedLot | null>(null);
+  const [bids, setBids] = useState<Bid[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [askingPrice, setAskingPrice] = useState("");
+  const [calling, setCalling] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    fetchLot();
+
+    // The call state and the high bid both live on the auction row
+    const lotChannel = supabase
+      .channel(`console-auction-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'auctions',
+          filter: `id=eq.${id}`
+        },
+        () => {
+          fetchLot();
+        }
+      )
+      .subscribe();
+
+    const bidsChannel = supabase
+      .channel(`console-bids-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'bids',
+          filter: `auction_id=eq.${id}`
+        },
+        () => {
+          fetchBids();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(lotChannel);
+      supabase.removeChannel(bidsChannel);
+    };
+  }, [id]);
+
+  const fetchLot = async () => {
+    if (!id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('auctions')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setLot(data as unknown as HostedLot);
+
+      await fetchBids();
+    } catch (error) {
+      console.error('Error fetching lot:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load the lot",
+      });
+      navigate("/");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBids = async () => {
+    if (!id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('bids')
+        .select(`
+          id,
+          amount,
+          bidder_id,
+          created_at,
+          profiles:bidder_id(full_name)
+        `)
+        .eq('auction_id', id)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      setBids(data || []);
+    } catch (error) {
+      console.error('Error fetching bids:', error);
+    }
+  };
+
+  const makeCall = async (call: string) => {
+    if (!lot) return;
+
+    const price = call === 'asking' ? parseFloat(askingPrice) : null;
+    if (call === 'sold' && !window.confirm(`Sell "${lot.title}" for $${lot.current_highest_bid?.toFixed(2)}?`)) {
+      return;
+    }
+
+    setCalling(true);
+
+    try {
+      // The server checks the call against the current state under the same lock as bids
+      const { data, error } = await supabase
+        .rpc('call_lot', {
+          p_auction_id: lot.id,
+          p_call: call,
+          p_asking_price: price,
+        })
+        .single();
+
+      if (error) throw error;
+
+      if (!data.accepted) {
+        toast({
+          variant: "destructive",
+          title: "Call rejected",
+          description: getCallRejectionMessage(data.reason),
+        });
+        return;
+      }
+
+      if (call === 'asking') setAskingPrice("");
+      if (call === 'sold' || call === 'passed') {
+        toast({
+          title: call === 'sold' ? "Sold!" : "Lot passed",
+          description: call === 'sold'
+            ? `Hammered down at $${lot.current_highest_bid?.toFixed(2)}.`
+            : "The lot closed without a sale.",
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setCalling(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Megaphone className="h-12 w-12 mx-auto mb-4 text-primary animate-bounce" />
+          <p>Loading console...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!lot) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">Lot not found</h2>
+          <Button onClick={() => navigate("/")}>
+            Return to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isAuctioneer = lot.call_state !== null && user?.id === lot.auctioneer_id;
+  const isClosed = lot.status === 'ended' || lot.call_state === 'sold' || lot.call_state === 'passed';
+  const hasBids = lot.highest_bidder_id !== null;
+  const highBid = bids.find((bid) => bid.bidder_id === lot.highest_bidder_id && bid.amount === lot.current_highest_bid);
+  const isStarted = new Date(lot.start_time) <= new Date();
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="container mx-auto max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/auction/${lot.id}`)}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <div className="auction-gradient p-2 rounded-lg">
+              <Megaphone className="h-6 w-6 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold">Auctioneer Console</h1>
+          </div>
+        </div>
+
+        {!isAuctioneer ? (
+          <Card className="shadow-card">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Only the auctioneer hosting this lot can use the console.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle>{lot.title}</CardTitle>
+                <CardDescription>
+                  {lot.call_changed_at
+                    ? `Last call ${format(new Date(lot.call_changed_at), "h:mm:ss a")}`
+                    : `Backstop close ${format(new Date(lot.end_time), "MMM d 'at' h:mm a")}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="text-center">
+                  <p className="text-3xl font-bold text-primary">{CALL_STATE_LABELS[lot.call_state]}</p>
+                  <p className="mt-2 text-2xl font-semibold">
+                    ${(lot.current_highest_bid ?? lot.starting_price).toFixed(2)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {hasBids
+                      ? `High bid from ${highBid?.profiles?.full_name || "a bidder"}`
+                      : "Opening price, no bids yet"}
+                  </p>
+                  {isCallOpen(lot.call_state) && lot.asking_price !== null && (
+                    <p className="text-sm text-muted-foreground">
+                      Asking ${lot.asking_price.toFixed(2)}
+                    </p>
+                  )}
+                </div>
+
+                <Separator />
+
+                {isClosed ? (
+                  <p className="text-center text-sm text-muted-foreground">
+                    This lot is closed.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {lot.call_state === 'waiting' && (
+                      <Button
+                        onClick={() => makeCall('open')}
+                        disabled={calling || !isStarted}
+                        className="w-full auction-gradient text-white shadow-elegant"
+                      >
+                        {isStarted ? "Open the Lot" : "Lot has not started yet"}
+                      </Button>
+                    )}
+
+                    {isCallOpen(lot.call_state) && (
+                      <>
+                        <div className="space-y-2">
+                          <Label htmlFor="askingPrice">Asking price ($)</Label>
+                          <div className="flex space-x-2">
+                            <Input
+                              id="askingPrice"
+                              type="number"
+                              step="0.01"
+                              min="0.01"
+                              value={askingPrice}
+                              onChange={(e) => setAskingPrice(e.target.value)}
+                              placeholder={getRequiredBid(lot).toFixed(2)}
+                            />
+                            <Button
+                              variant="outline"
+                              onClick={() => makeCall('asking')}
+                              disabled={calling || !askingPrice}
+                            >
+                              Call
+                            </Button>
+                          </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button
+                            variant="outline"
+                            onClick={() => makeCall('going_once')}
+                            disabled={calling || lot.call_state !== 'open'}
+                          >
+                            Going Once
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => makeCall('going_twice')}
+                            disabled={calling || lot.call_state !== 'going_once'}
+                          >
+                            Going Twice
+                          </Button>
+                        </div>
+
+                        <Button
+                          onClick={() => makeCall('sold')}
+                          disabled={calling || lot.call_state !== 'going_twice' || !hasBids}
+                          className="w-full auction-gradient text-white shadow-elegant"
+                        >
+                          <Gavel className="h-4 w-4 mr-2" />
+                          Sold!
+                        </Button>
+                      </>
+                    )}
+
+                    {!hasBids && (
+                      <Button
+                        variant="outline"
+                        onClick={() => makeCall('passed')}
+                        disabled={calling}
+                        className="w-full"
+                      >
+                        Pass the Lot
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle>Bids in the Room</CardTitle>
+                <CardDescription>
+                  A new bid while going once or twice re-opens the lot.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {bids.length === 0 ? (
+                  <p className="text-muted-foreground">No bids yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {bids.map((bid) => (
+                      <div
+                        key={bid.id}
+                        className={`flex items-center justify-between p-3 rounded-lg ${
+                          bid.id === highBid?.id ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'
+                        }`}
+                      >
+                        <div>
+                          <p className="font-medium">{bid.profiles?.full_name || "Anonymous"}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {format(new Date(bid.created_at), "h:mm:ss a")}
+                          </p>
+                        </div>
+                        <p className={`font-bold ${bid.id === highBid?.id ? 'text-primary' : ''}`}>
+                          ${bid.amount.toFixed(2)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuctionConsole;
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useNow } from "@/hooks/use-now";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,9 +9,26 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import TransactionPanel from "@/components/TransactionPanel";
 import { toast } from "@/hooks/use-toast";
-import { ArrowLeft, Gavel, Clock, DollarSign, User, TrendingUp } from "lucide-react";
-import { formatDistanceToNow, format } from "date-fns";
+import {
+  AUCTION_CATEGORY_LABELS,
+  AUCTION_FORMAT_LABELS,
+  CALL_STATE_LABELS,
+  canRetractBid,
+  describeClearingPrice,
+  getBidIncrement,
+  getDutchPrice,
+  getMultiUnitRequiredBid,
+  getRequiredBid,
+  getSecondsUntilNextDrop,
+  isCallOpen,
+  isSealedFormat,
+  verifyCandleCommitment,
+  type IncrementTier,
+} from "@/lib/auction-formats";
+import { ArrowLeft, Gavel, Clock, DollarSign, Megaphone, User, TrendingUp, Zap } from "lucide-react";
+import { differenceInSeconds, formatDistanceToNow, format } from "date-fns";
 
 interface Auction {
   id: string;
@@ -19,35 +37,124 @@ interface Auction {
   starting_price: number;
   current_highest_bid: number | null;
   highest_bidder_id: string | null;
-  bid_increment: number;
+  bid_increment: number | null;
+  bid_increment_tiers: IncrementTier[] | null;
   start_time: string;
   end_time: string;
   status: string;
   image_url: string | null;
   seller_id: string;
+  soft_close_window_seconds: number | null;
+  soft_close_extension_seconds: number | null;
+  soft_close_max_extensions: number | null;
+  extension_count: number;
+  has_reserve: boolean;
+  reserve_met: boolean;
+  outcome: string | null;
+  buy_now_price: number | null;
+  buy_now_threshold: number | null;
+  format: string;
+  category: string;
+  winning_bid: number | null;
+  second_bid: number | null;
+  clearing_price: number | null;
+  clearing_price_basis: string | null;
+  dutch_price_step: number | null;
+  dutch_step_interval_seconds: number | null;
+  dutch_floor_price: number | null;
+  quantity: number;
+  candle_window_start: string | null;
+  candle_commitment: string | null;
+  candle_seed: string | null;
+  candle_end_time: string | null;
+  event_id: string | null;
+  lot_number: number | null;
+  auctioneer_id: string | null;
+  call_state: string | null;
+  asking_price: number | null;
   profiles?: {
     full_name: string;
   } | null;
+  auction_events?: {
+    title: string;
+  } | null;
 }
 
 interface Bid {
   id: string;
   amount: number;
+  bidder_id: string;
   created_at: string;
+  is_automatic: boolean;
+  quantity: number;
+  status: string;
   profiles?: {
     full_name: string;
   } | null;
 }
 
+interface Allocation {
+  bid_id: string;
+  bidder_id: string;
+  unit_price: number;
+  quantity: number;
+  allocated_quantity: number;
+  full_name: string | null;
+}
+
+const getBidRejectionMessage = (reason: string, minimumBid: number | null) => {
+  switch (reason) {
+    case 'bid_too_low':
+      return minimumBid !== null
+        ? `Minimum bid is now $${minimumBid.toFixed(2)}`
+        : "Your bid is below the minimum bid";
+    case 'bid_too_high':
+      return minimumBid !== null
+        ? `Maximum bid allowed is now $${minimumBid.toFixed(2)}`
+        : "Your offer must undercut the lowest offer";
+    case 'own_auction': return "You cannot bid on your own auction";
+    case 'auction_not_started': return "This auction has not started yet";
+    case 'auction_ended': return "This auction has already ended";
+    case 'auction_not_active': return "This auction is not currently accepting bids";
+    case 'auction_not_found': return "This auction no longer exists";
+    case 'buy_now_unavailable': return "Buy It Now is no longer available on this auction";
+    case 'invalid_quantity': return "Choose between 1 and the number of units on offer";
+    case 'already_bid': return "You have already submitted a sealed bid on this auction";
+    case 'max_bid_not_supported': return "Maximum bids are not available on this auction format";
+    case 'dutch_accept_only': return "This is a Dutch auction: accept the current price instead of bidding";
+    case 'not_dutch_auction': return "This auction does not have a descending price";
+    case 'lot_not_open': return "The auctioneer is not taking bids on this lot right now";
+    case 'bid_not_found': return "That bid no longer exists";
+    case 'not_your_bid': return "You can only retract your own bids";
+    case 'already_retracted': return "That bid has already been retracted";
+    case 'retraction_not_supported': return "Bids on this auction format cannot be retracted";
+    case 'retraction_window_passed': return "Bids can only be retracted within an hour of placing them";
+    case 'final_stretch': return "Bids cannot be retracted this close to the end of the auction";
+    case 'reason_required': return "Please give a reason for retracting the bid";
+    case 'not_authenticated': return "Please sign in to place a bid";
+    default: return "Your bid could not be placed";
+  }
+};
+
 const AuctionDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const now = useNow();
   const [auction, setAuction] = useState<Auction | null>(null);
   const [bids, setBids] = useState<Bid[]>([]);
   const [loading, setLoading] = useState(true);
   const [bidAmount, setBidAmount] = useState("");
+  const [bidQuantity, setBidQuantity] = useState("1");
+  const [allocation, setAllocation] = useState<Allocation[]>([]);
   const [submittingBid, setSubmittingBid] = useState(false);
+  const [maxBid, setMaxBid] = useState<number | null>(null);
+  const [maxBidAmount, setMaxBidAmount] = useState("");
+  const [submittingMaxBid, setSubmittingMaxBid] = useState(false);
+  const [buyingNow, setBuyingNow] = useState(false);
+  const [acceptingPrice, setAcceptingPrice] = useState(false);
+  const [candleVerified, setCandleVerified] = useState<boolean | null>(null);
+  const [retractingBidId, setRetractingBidId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!id) return;
@@ -71,19 +178,20 @@ const AuctionDetail = () => {
       )
       .subscribe();
 
-    // Subscribe to real-time updates for bids
+    // Subscribe to real-time updates for bids, including retractions
     const bidsChannel = supabase
       .channel(`bids-${id}`)
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          event: '*',
           schema: 'public',
           table: 'bids',
           filter: `auction_id=eq.${id}`
         },
         () => {
           fetchBids();
+          fetchAllocation();
         }
       )
       .subscribe();
@@ -102,21 +210,23 @@ const AuctionDetail = () => {
         .from('auctions')
         .select(`
           *,
-          profiles:seller_id(full_name)
+          profiles:seller_id(full_name),
+          auction_events:event_id(title)
         `)
         .eq('id', id)
         .single();
 
       if (error) throw error;
-      setAuction(data as any);
+      const loaded = data as unknown as Auction;
+      setAuction(loaded);
       
+      const [, , unitBids] = await Promise.all([fetchBids(), fetchMaxBid(), fetchAllocation()]);
+
       // Set suggested bid amount
-      const minBid = data.current_highest_bid 
-        ? data.current_highest_bid + data.bid_increment 
-        : data.starting_price;
-      setBidAmount(minBid.toFixed(2));
-      
-      await fetchBids();
+      const suggestedBid = loaded.format === 'multi_unit'
+        ? getMultiUnitRequiredBid(loaded, unitBids, user?.id)
+        : getRequiredBid(loaded);
+      setBidAmount(suggestedBid.toFixed(2));
     } catch (error) {
       console.error('Error fetching auction:', error);
       toast({
@@ -151,19 +261,78 @@ const AuctionDetail = () => {
     }
   };
 
+  // Each bidder's latest bid, ranked the way finalize_auction() will fill it
+  const fetchAllocation = async (): Promise<Allocation[]> => {
+    if (!id) return [];
+
+    try {
+      const { data, error } = await supabase.rpc('multi_unit_allocation', { p_auction_id: id });
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        setAllocation([]);
+        return [];
+      }
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', data.map((row) => row.bidder_id));
+
+      if (profilesError) throw profilesError;
+      const names = new Map((profiles || []).map((profile) => [profile.user_id, profile.full_name]));
+      const rows = data.map((row) => ({ ...row, full_name: names.get(row.bidder_id) ?? null }));
+      setAllocation(rows);
+      return rows;
+    } catch (error) {
+      console.error('Error fetching allocation:', error);
+      return [];
+    }
+  };
+
+  const fetchMaxBid = async () => {
+    if (!id || !user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('proxy_bids')
+        .select('max_amount')
+        .eq('auction_id', id)
+        .eq('bidder_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setMaxBid(data?.max_amount ?? null);
+    } catch (error) {
+      console.error('Error fetching max bid:', error);
+    }
+  };
+
   const placeBid = async () => {
     if (!user || !auction || !bidAmount) return;
 
     const amount = parseFloat(bidAmount);
-    const minBid = auction.current_highest_bid 
-      ? auction.current_highest_bid + auction.bid_increment 
-      : auction.starting_price;
+    const isMultiUnit = auction.format === 'multi_unit';
+    const quantity = isMultiUnit ? parseInt(bidQuantity, 10) : 1;
+    const requiredBid = isMultiUnit
+      ? getMultiUnitRequiredBid(auction, allocation, user.id)
+      : getRequiredBid(auction);
+
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > auction.quantity) {
+      toast({
+        variant: "destructive",
+        title: "Invalid quantity",
+        description: getBidRejectionMessage('invalid_quantity', null),
+      });
+      return;
+    }
 
-    if (amount < minBid) {
+    if (auction.format === 'reverse' ? amount > requiredBid || amount <= 0 : amount < requiredBid) {
       toast({
         variant: "destructive",
         title: "Invalid bid",
-        description: `Minimum bid is $${minBid.toFixed(2)}`,
+        description: auction.format === 'reverse'
+          ? `Maximum bid allowed is $${requiredBid.toFixed(2)}`
+          : `Minimum bid is $${requiredBid.toFixed(2)}`,
       });
       return;
     }
@@ -189,37 +358,62 @@ const AuctionDetail = () => {
     setSubmittingBid(true);
 
     try {
-      // Place the bid
-      const { error: bidError } = await supabase
-        .from('bids')
-        .insert([
-          {
-            auction_id: auction.id,
-            bidder_id: user.id,
-            amount,
-          },
-        ]);
-
-      if (bidError) throw bidError;
-
-      // Update auction with new highest bid
-      const { error: updateError } = await supabase
-        .from('auctions')
-        .update({
-          current_highest_bid: amount,
-          highest_bidder_id: user.id,
+      // The server locks the auction, validates and records the bid in one transaction
+      const { data, error } = await supabase
+        .rpc('place_bid', {
+          p_auction_id: auction.id,
+          p_amount: amount,
+          p_quantity: quantity,
         })
-        .eq('id', auction.id);
+        .single();
 
-      if (updateError) throw updateError;
+      if (error) throw error;
 
-      toast({
-        title: "Bid placed!",
-        description: `Your bid of $${amount.toFixed(2)} has been placed successfully.`,
-      });
+      if (!data.accepted) {
+        toast({
+          variant: "destructive",
+          title: "Bid rejected",
+          description: getBidRejectionMessage(data.reason, data.minimum_bid),
+        });
+        if (data.minimum_bid !== null) {
+          setBidAmount(data.minimum_bid.toFixed(2));
+        }
+        return;
+      }
+
+      if (isSealedFormat(auction.format)) {
+        toast({
+          title: "Sealed bid submitted",
+          description: `Your bid of $${amount.toFixed(2)} will be revealed when the auction ends.`,
+        });
+        return;
+      }
+
+      if (isMultiUnit) {
+        toast({
+          title: data.is_leading ? "Bid placed!" : "Not currently winning",
+          description: data.is_leading
+            ? `Your bid for ${quantity} × $${amount.toFixed(2)} is currently winning units.`
+            : `Higher bids currently take every unit. The price is $${data.current_highest_bid.toFixed(2)} per unit.`,
+        });
+        return;
+      }
+
+      if (data.is_leading) {
+        toast({
+          title: "Bid placed!",
+          description: `Your bid of $${amount.toFixed(2)} has been placed successfully.`,
+        });
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Outbid",
+          description: `Another bidder's maximum bid raised the price to $${data.current_highest_bid.toFixed(2)}.`,
+        });
+      }
 
       // Update suggested next bid amount
-      setBidAmount((amount + auction.bid_increment).toFixed(2));
+      setBidAmount(data.minimum_bid.toFixed(2));
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -231,6 +425,179 @@ const AuctionDetail = () => {
     }
   };
 
+  const submitMaxBid = async () => {
+    if (!user || !auction || !maxBidAmount) return;
+
+    const amount = parseFloat(maxBidAmount);
+    setSubmittingMaxBid(true);
+
+    try {
+      const { data, error } = await supabase
+        .rpc('set_max_bid', {
+          p_auction_id: auction.id,
+          p_max_amount: amount,
+        })
+        .single();
+
+      if (error) throw error;
+
+      if (!data.accepted) {
+        toast({
+          variant: "destructive",
+          title: "Maximum bid rejected",
+          description: getBidRejectionMessage(data.reason, data.minimum_bid),
+        });
+        return;
+      }
+
+      setMaxBid(data.max_amount);
+      setMaxBidAmount("");
+      setBidAmount(data.minimum_bid.toFixed(2));
+      toast({
+        title: data.is_leading ? "Maximum bid set" : "Outbid",
+        description: data.is_leading
+          ? `We'll bid for you up to $${data.max_amount.toFixed(2)}.`
+          : `Another bidder's maximum is higher. Current price is $${data.current_highest_bid.toFixed(2)}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSubmittingMaxBid(false);
+    }
+  };
+
+  const buyNow = async () => {
+    if (!user || !auction || auction.buy_now_price === null) return;
+
+    if (!window.confirm(`Buy "${auction.title}" now for $${auction.buy_now_price.toFixed(2)}? This ends the auction immediately.`)) {
+      return;
+    }
+
+    setBuyingNow(true);
+
+    try {
+      const { data, error } = await supabase
+        .rpc('buy_now', { p_auction_id: auction.id })
+        .single();
+
+      if (error) throw error;
+
+      if (!data.accepted) {
+        toast({
+          variant: "destructive",
+          title: "Buy It Now unavailable",
+          description: getBidRejectionMessage(data.reason, null),
+        });
+        return;
+      }
+
+      toast({
+        title: "Purchased!",
+        description: `You bought this item for $${auction.buy_now_price.toFixed(2)}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setBuyingNow(false);
+    }
+  };
+
+  const acceptDutchPrice = async () => {
+    if (!user || !auction) return;
+
+    const shownPrice = getDutchPrice(auction, new Date());
+    if (!window.confirm(`Buy "${auction.title}" at the current price of $${shownPrice.toFixed(2)}? This ends the auction immediately.`)) {
+      return;
+    }
+
+    setAcceptingPrice(true);
+
+    try {
+      // The server prices the acceptance from the schedule, never from the client
+      const { data, error } = await supabase
+        .rpc('accept_dutch_price', { p_auction_id: auction.id })
+        .single();
+
+      if (error) throw error;
+
+      if (!data.accepted) {
+        toast({
+          variant: "destructive",
+          title: "Price not accepted",
+          description: getBidRejectionMessage(data.reason, null),
+        });
+        return;
+      }
+
+      toast({
+        title: "Purchased!",
+        description: `You bought this item for $${data.price.toFixed(2)}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setAcceptingPrice(false);
+    }
+  };
+
+  const retractBid = async (bid: Bid) => {
+    const reason = window.prompt(
+      `Retract your bid of $${bid.amount.toFixed(2)}? The lead goes back to the best remaining bid. Please give a reason:`
+    );
+    if (reason === null) return;
+
+    setRetractingBidId(bid.id);
+
+    try {
+      const { data, error } = await supabase
+        .rpc('retract_bid', { p_bid_id: bid.id, p_reason: reason })
+        .single();
+
+      if (error) throw error;
+
+      if (!data.accepted) {
+        toast({
+          variant: "destructive",
+          title: "Bid not retracted",
+          description: getBidRejectionMessage(data.reason, null),
+        });
+        return;
+      }
+
+      toast({
+        title: "Bid retracted",
+        description: data.current_highest_bid !== null
+          ? `The price is now $${data.current_highest_bid.toFixed(2)}.`
+          : "There are no bids left on this auction.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setRetractingBidId(null);
+    }
+  };
+
+  const verifyCandle = async () => {
+    if (!auction) return;
+    setCandleVerified(await verifyCandleCommitment(auction));
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return 'bg-success';
@@ -241,12 +608,19 @@ const AuctionDetail = () => {
   };
 
   const getTimeRemaining = (endTime: string) => {
-    const now = new Date();
     const end = new Date(endTime);
-    if (end < now) return "Ended";
+    if (end <= now) return "Ended";
+    // Count down to the second in the last hour, where soft-close extensions happen
+    const seconds = differenceInSeconds(end, now);
+    if (seconds < 3600) {
+      return `Ends in ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+    }
     return `Ends ${formatDistanceToNow(end, { addSuffix: true })}`;
   };
 
+  const formatDuration = (seconds: number) =>
+    seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} sec`;
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -271,11 +645,41 @@ const AuctionDetail = () => {
     );
   }
 
-  const isAuctionEnded = new Date(auction.end_time) < new Date();
+  const isAuctionEnded = new Date(auction.end_time) <= now;
   const isOwnAuction = user?.id === auction.seller_id;
-  const minBid = auction.current_highest_bid 
-    ? auction.current_highest_bid + auction.bid_increment 
-    : auction.starting_price;
+  // Until the close, row-level security only returns the viewer's own sealed bid
+  const isSealed = isSealedFormat(auction.format);
+  const isSealedOpen = isSealed && !isAuctionEnded;
+  const ownSealedBid = isSealed ? bids.find((bid) => bid.bidder_id === user?.id) : undefined;
+  const isDutch = auction.format === 'dutch';
+  const isDutchOpen = isDutch && !isAuctionEnded && auction.status !== 'ended';
+  const dutchPrice = getDutchPrice(auction, now);
+  const secondsUntilNextDrop = getSecondsUntilNextDrop(auction, now);
+  const nextDutchPrice = Math.max(dutchPrice - (auction.dutch_price_step ?? 0), auction.dutch_floor_price ?? 0);
+  const displayedBids = isSealed
+    ? [...bids].sort((a, b) => b.amount - a.amount || a.created_at.localeCompare(b.created_at))
+    : bids;
+  const isReverse = auction.format === 'reverse';
+  const isMultiUnit = auction.format === 'multi_unit';
+  const requiredBid = isMultiUnit
+    ? getMultiUnitRequiredBid(auction, allocation, user?.id)
+    : getRequiredBid(auction);
+  const currentIncrement = getBidIncrement(auction, auction.current_highest_bid ?? auction.starting_price);
+  const unitsAllocated = allocation.reduce((total, row) => total + row.allocated_quantity, 0);
+  const isCandle = auction.format === 'candle';
+  const candleWindowStart = auction.candle_window_start ? new Date(auction.candle_window_start) : null;
+  // Only set once finalize_auction() reveals the hidden close
+  const candleEnd = auction.candle_end_time ? new Date(auction.candle_end_time) : null;
+  const isLateBid = (bid: Bid) => candleEnd !== null && new Date(bid.created_at) >= candleEnd;
+  const isRetracted = (bid: Bid) => bid.status === 'retracted';
+  const leadingBidId = displayedBids.find((bid) => !isLateBid(bid) && !isRetracted(bid))?.id;
+  // Mirrors is_buy_now_available() in the database, which has the final say
+  const isHosted = auction.call_state !== null;
+  const isAuctioneer = isHosted && user?.id === auction.auctioneer_id;
+  const isBuyNowAvailable = auction.format === 'english' && auction.buy_now_price !== null && (
+    auction.current_highest_bid === null ||
+    (auction.buy_now_threshold !== null && auction.current_highest_bid <= auction.buy_now_threshold)
+  );
 
   return (
     <div className="min-h-screen bg-background p-4">
@@ -312,6 +716,11 @@ const AuctionDetail = () => {
                     <span>by {auction.profiles?.full_name || "Unknown"}</span>
                   </div>
                 </div>
+                {auction.event_id && (
+                  <Link to={`/events/${auction.event_id}`} className="text-sm text-primary hover:underline">
+                    Lot {auction.lot_number} · {auction.auction_events?.title || "Catalog event"}
+                  </Link>
+                )}
                 <CardTitle className="text-3xl">{auction.title}</CardTitle>
                 {auction.description && (
                   <CardDescription className="text-base">
@@ -340,36 +749,108 @@ const AuctionDetail = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {bids.length === 0 ? (
-                  <p className="text-muted-foreground">No bids yet. Be the first to bid!</p>
+                {isSealedOpen && (
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Bids are sealed until the auction ends. Only your own bid is shown here.
+                  </p>
+                )}
+                {isMultiUnit ? (
+                  allocation.length === 0 ? (
+                    <p className="text-muted-foreground">No bids yet. Be the first to bid!</p>
+                  ) : (
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground">
+                        {unitsAllocated} of {auction.quantity} units allocated. Each bidder's latest bid counts and
+                        every winner pays the lowest winning unit price.
+                      </p>
+                      {allocation.map((row, index) => (
+                        <div
+                          key={row.bid_id}
+                          className={`flex items-center justify-between p-3 rounded-lg ${
+                            row.allocated_quantity > 0 ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'
+                          }`}
+                        >
+                          <div className="flex items-center space-x-3">
+                            <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+                              row.allocated_quantity > 0 ? 'bg-primary text-primary-foreground' : 'bg-muted-foreground text-background'
+                            }`}>
+                              {index + 1}
+                            </div>
+                            <div>
+                              <p className="font-medium">{row.full_name || "Anonymous"}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {row.quantity} × ${row.unit_price.toFixed(2)}
+                              </p>
+                            </div>
+                          </div>
+                          <p className={`text-sm ${row.allocated_quantity > 0 ? 'text-primary font-medium' : 'text-muted-foreground'}`}>
+                            {row.allocated_quantity === 0
+                              ? "Not winning"
+                              : row.allocated_quantity < row.quantity
+                                ? `Partially filled: ${row.allocated_quantity} of ${row.quantity}`
+                                : `Winning ${row.allocated_quantity}`}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )
+                ) : displayedBids.length === 0 ? (
+                  <p className="text-muted-foreground">
+                    {isSealedOpen ? "You haven't submitted a bid yet." : "No bids yet. Be the first to bid!"}
+                  </p>
                 ) : (
                   <div className="space-y-3">
-                    {bids.map((bid, index) => (
+                    {displayedBids.map((bid, index) => (
                       <div
                         key={bid.id}
                         className={`flex items-center justify-between p-3 rounded-lg ${
-                          index === 0 ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'
+                          bid.id === leadingBidId ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'
                         }`}
                       >
                         <div className="flex items-center space-x-3">
                           <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold ${
-                            index === 0 ? 'bg-primary text-primary-foreground' : 'bg-muted-foreground text-background'
+                            bid.id === leadingBidId ? 'bg-primary text-primary-foreground' : 'bg-muted-foreground text-background'
                           }`}>
                             {index + 1}
                           </div>
                           <div>
-                            <p className="font-medium">{bid.profiles?.full_name || "Anonymous"}</p>
+                            <p className="font-medium flex items-center gap-2">
+                              {bid.profiles?.full_name || "Anonymous"}
+                              {bid.is_automatic && (
+                                <Badge variant="outline" className="text-xs font-normal">
+                                  <Zap className="h-3 w-3 mr-1" />
+                                  Auto
+                                </Badge>
+                              )}
+                            </p>
                             <p className="text-sm text-muted-foreground">
                               {format(new Date(bid.created_at), "MMM d, yyyy 'at' h:mm a")}
                             </p>
                           </div>
                         </div>
                         <div className="text-right">
-                          <p className={`font-bold ${index === 0 ? 'text-primary' : ''}`}>
+                          <p className={`font-bold ${bid.id === leadingBidId ? 'text-primary' : ''} ${isLateBid(bid) || isRetracted(bid) ? 'line-through text-muted-foreground' : ''}`}>
                             ${bid.amount.toFixed(2)}
                           </p>
-                          {index === 0 && (
-                            <p className="text-xs text-primary">Highest Bid</p>
+                          {isRetracted(bid) && (
+                            <p className="text-xs text-muted-foreground">Retracted</p>
+                          )}
+                          {isLateBid(bid) && (
+                            <p className="text-xs text-muted-foreground">After the candle went out</p>
+                          )}
+                          {bid.bidder_id === user?.id && canRetractBid(auction, bid, now) && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0 text-xs text-muted-foreground"
+                              onClick={() => retractBid(bid)}
+                              disabled={retractingBidId === bid.id}
+                            >
+                              {retractingBidId === bid.id ? "Retracting..." : "Retract"}
+                            </Button>
+                          )}
+                          {bid.id === leadingBidId && (
+                            <p className="text-xs text-primary">{isSealedOpen ? "Your Bid" : isReverse ? "Lowest Offer" : "Highest Bid"}</p>
                           )}
                         </div>
                       </div>
@@ -386,17 +867,83 @@ const AuctionDetail = () => {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <DollarSign className="h-5 w-5" />
-                  <span>Current Price</span>
+                  <span>{isReverse ? "Lowest offer" : isMultiUnit ? "Price per Unit" : "Current Price"}</span>
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                {isHosted && (
+                  <div className={`rounded-lg p-3 text-center ${
+                    isCallOpen(auction.call_state) ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'
+                  }`}>
+                    <p className="flex items-center justify-center gap-2 text-lg font-semibold">
+                      <Megaphone className="h-5 w-5" />
+                      {CALL_STATE_LABELS[auction.call_state]}
+                    </p>
+                    {isCallOpen(auction.call_state) && auction.asking_price !== null && (
+                      <p className="text-sm text-muted-foreground">
+                        The auctioneer is asking ${auction.asking_price.toFixed(2)}
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div className="text-center">
-                  <p className="text-3xl font-bold text-primary">
-                    ${auction.current_highest_bid?.toFixed(2) || auction.starting_price.toFixed(2)}
-                  </p>
+                  {isSealedOpen ? (
+                    <>
+                      <p className="text-3xl font-bold text-primary">Sealed</p>
+                      <p className="text-sm text-muted-foreground">
+                        Bids are revealed when the auction ends
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-3xl font-bold text-primary">
+                      ${isDutchOpen
+                        ? dutchPrice.toFixed(2)
+                        : auction.current_highest_bid?.toFixed(2) || auction.starting_price.toFixed(2)}
+                    </p>
+                  )}
+                  {isDutchOpen && (
+                    <p className="text-sm text-muted-foreground">
+                      {secondsUntilNextDrop !== null
+                        ? `Drops to $${nextDutchPrice.toFixed(2)} in ${Math.floor(secondsUntilNextDrop / 60)}:${String(secondsUntilNextDrop % 60).padStart(2, "0")}`
+                        : "Lowest price reached"}
+                    </p>
+                  )}
                   {auction.current_highest_bid && (
                     <p className="text-sm text-muted-foreground">
-                      Starting price: ${auction.starting_price.toFixed(2)}
+                      {isReverse ? "Maximum price" : "Starting price"}: ${auction.starting_price.toFixed(2)}
+                    </p>
+                  )}
+                  {isMultiUnit && (
+                    <p className="text-sm text-muted-foreground">
+                      {auction.quantity} units on offer
+                    </p>
+                  )}
+                  {auction.has_reserve && (
+                    <Badge
+                      variant="outline"
+                      className={`mt-2 ${!isSealedOpen && auction.reserve_met ? "border-green-600 text-green-600" : "text-muted-foreground"}`}
+                    >
+                      {isSealedOpen ? "Reserve price" : auction.reserve_met ? "Reserve met" : "Reserve not met"}
+                    </Badge>
+                  )}
+                  {auction.format === 'sealed_second_price' && describeClearingPrice(auction) && (
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      {describeClearingPrice(auction)}
+                    </p>
+                  )}
+                  {auction.outcome === 'price_accepted' && (
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      Sold when a buyer accepted the descending price.
+                    </p>
+                  )}
+                  {auction.outcome === 'bought_now' && (
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      Sold with Buy It Now.
+                    </p>
+                  )}
+                  {auction.outcome === 'reserve_not_met' && (
+                    <p className="mt-2 text-sm text-red-600">
+                      Ended without a sale: the reserve price was not met.
                     </p>
                   )}
                 </div>
@@ -406,47 +953,199 @@ const AuctionDetail = () => {
                 <div className="flex items-center space-x-1 text-sm">
                   <Clock className="h-4 w-4 text-muted-foreground" />
                   <span className={isAuctionEnded ? "text-red-600" : "text-muted-foreground"}>
-                    {getTimeRemaining(auction.end_time)}
+                    {isHosted && !isAuctionEnded
+                      ? "Closes when the auctioneer brings the hammer down"
+                      : isCandle && !isAuctionEnded && candleWindowStart
+                        ? candleWindowStart > now
+                          ? `Candle is lit ${formatDistanceToNow(candleWindowStart, { addSuffix: true })}`
+                          : "The candle could go out at any moment"
+                        : getTimeRemaining(auction.end_time)}
                   </span>
+                  {auction.extension_count > 0 && (
+                    <Badge variant="outline" className="ml-2 text-xs">
+                      Extended {auction.extension_count}×
+                    </Badge>
+                  )}
                 </div>
 
-                <div className="text-sm text-muted-foreground">
-                  <p>Bid increment: ${auction.bid_increment.toFixed(2)}</p>
-                  <p>Minimum bid: ${minBid.toFixed(2)}</p>
-                </div>
+                {isDutch ? (
+                  <div className="text-sm text-muted-foreground">
+                    <p>Opening price: ${auction.starting_price.toFixed(2)}</p>
+                    <p>
+                      Drops ${auction.dutch_price_step?.toFixed(2)} every{" "}
+                      {formatDuration(auction.dutch_step_interval_seconds ?? 0)}
+                    </p>
+                    <p>Lowest price: ${auction.dutch_floor_price?.toFixed(2)}</p>
+                  </div>
+                ) : (
+                  <div className="text-sm text-muted-foreground">
+                    {!isSealed && (
+                      <p>
+                        {isReverse ? "Bid decrement" : "Bid increment"}: ${currentIncrement.toFixed(2)}
+                        {auction.bid_increment_tiers && " at this price"}
+                      </p>
+                    )}
+                    <p>
+                      {isReverse ? "Maximum bid allowed" : isMultiUnit ? "Minimum unit price" : "Minimum bid"}:{" "}
+                      ${requiredBid.toFixed(2)}
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
-            {/* Place Bid */}
-            {!isAuctionEnded && !isOwnAuction && auction.status === 'active' && (
-              <Card className="shadow-card">
+            {/* Post-auction sale decision */}
+            {user && (isAuctionEnded || auction.status === 'ended') && (
+              <TransactionPanel auctionId={auction.id} userId={user.id} />
+            )}
+
+            {/* Buy It Now */}
+            {!isAuctionEnded && !isOwnAuction && auction.status === 'active' && isBuyNowAvailable && (
+              <Card className="shadow-card border-primary/40">
                 <CardHeader>
-                  <CardTitle>Place a Bid</CardTitle>
+                  <CardTitle>Buy It Now</CardTitle>
+                  <CardDescription>
+                    Skip the bidding and end the auction right away.
+                  </CardDescription>
                 </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="bidAmount">Your Bid ($)</Label>
-                    <Input
-                      id="bidAmount"
-                      type="number"
-                      step="0.01"
-                      min={minBid}
-                      value={bidAmount}
-                      onChange={(e) => setBidAmount(e.target.value)}
-                      placeholder={minBid.toFixed(2)}
-                    />
-                  </div>
+                <CardContent>
                   <Button
-                    onClick={placeBid}
-                    disabled={submittingBid || !bidAmount}
+                    onClick={buyNow}
+                    disabled={buyingNow}
                     className="w-full auction-gradient text-white shadow-elegant"
                   >
-                    {submittingBid ? "Placing Bid..." : "Place Bid"}
+                    {buyingNow ? "Buying..." : `Buy Now for $${auction.buy_now_price.toFixed(2)}`}
                   </Button>
                 </CardContent>
               </Card>
             )}
 
+            {/* Accept Dutch price */}
+            {isDutchOpen && !isOwnAuction && auction.status === 'active' && (
+              <Card className="shadow-card border-primary/40">
+                <CardHeader>
+                  <CardTitle>Descending Price</CardTitle>
+                  <CardDescription>
+                    The first bidder to accept wins. Waiting may lower the price, or someone else may take it first.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button
+                    onClick={acceptDutchPrice}
+                    disabled={acceptingPrice}
+                    className="w-full auction-gradient text-white shadow-elegant"
+                  >
+                    {acceptingPrice ? "Accepting..." : `Accept at this price ($${dutchPrice.toFixed(2)})`}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Auctioneer console */}
+            {isAuctioneer && !isAuctionEnded && auction.status !== 'ended' && (
+              <Link to={`/auction/${auction.id}/console`} className="block">
+                <Button className="w-full auction-gradient text-white shadow-elegant">
+                  <Megaphone className="h-4 w-4 mr-2" />
+                  Open Auctioneer Console
+                </Button>
+              </Link>
+            )}
+
+            {/* Place Bid */}
+            {!isDutch && !isAuctionEnded && !isOwnAuction && !isAuctioneer && auction.status === 'active' &&
+              (!isHosted || isCallOpen(auction.call_state)) && (
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>{isSealed ? "Submit a Sealed Bid" : "Place a Bid"}</CardTitle>
+                  {isSealed && (
+                    <CardDescription>
+                      {auction.format === 'sealed_second_price'
+                        ? "You get one bid. The highest sealed bid wins and pays one increment over the runner-up."
+                        : "You get one bid. The highest sealed bid wins and pays what it bid."}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {ownSealedBid ? (
+                    <p className="text-sm">
+                      Your sealed bid of <span className="font-semibold">${ownSealedBid.amount.toFixed(2)}</span>{" "}
+                      is in. Results are announced when the auction ends.
+                    </p>
+                  ) : (
+                    <div className="space-y-4">
+                      {isMultiUnit && (
+                        <div className="space-y-2">
+                          <Label htmlFor="bidQuantity">Units</Label>
+                          <Input
+                            id="bidQuantity"
+                            type="number"
+                            step="1"
+                            min="1"
+                            max={auction.quantity}
+                            value={bidQuantity}
+                            onChange={(e) => setBidQuantity(e.target.value)}
+                          />
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <Label htmlFor="bidAmount">{isMultiUnit ? "Price per Unit ($)" : "Your Bid ($)"}</Label>
+                        <Input
+                          id="bidAmount"
+                          type="number"
+                          step="0.01"
+                          min={isReverse ? "0.01" : requiredBid}
+                          max={isReverse ? requiredBid : undefined}
+                          value={bidAmount}
+                          onChange={(e) => setBidAmount(e.target.value)}
+                          placeholder={requiredBid.toFixed(2)}
+                        />
+                      </div>
+                      <Button
+                        onClick={placeBid}
+                        disabled={submittingBid || !bidAmount}
+                        className="w-full auction-gradient text-white shadow-elegant"
+                      >
+                        {submittingBid ? "Placing Bid..." : isSealed ? "Submit Sealed Bid" : "Place Bid"}
+                      </Button>
+                    </div>
+                  )}
+
+                  {auction.format === 'english' && (
+                    <>
+                      <Separator />
+
+                      <div className="space-y-2">
+                        <Label htmlFor="maxBidAmount">Your max bid ($)</Label>
+                        <p className="text-sm text-muted-foreground">
+                          {maxBid !== null
+                            ? `We'll bid for you up to $${maxBid.toFixed(2)}. Other bidders can't see this amount.`
+                            : "Set a hidden maximum and we'll outbid others for you one increment at a time."}
+                        </p>
+                        <div className="flex space-x-2">
+                          <Input
+                            id="maxBidAmount"
+                            type="number"
+                            step="0.01"
+                            min={Math.max(requiredBid, maxBid ?? 0)}
+                            value={maxBidAmount}
+                            onChange={(e) => setMaxBidAmount(e.target.value)}
+                            placeholder={Math.max(requiredBid, maxBid ?? 0).toFixed(2)}
+                          />
+                          <Button
+                            variant="outline"
+                            onClick={submitMaxBid}
+                            disabled={submittingMaxBid || !maxBidAmount}
+                          >
+                            {submittingMaxBid ? "Saving..." : maxBid !== null ? "Raise" : "Set"}
+                          </Button>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Auction Info */}
             <Card className="shadow-card">
               <CardHeader>
@@ -458,13 +1157,90 @@ const AuctionDetail = () => {
                   <span>{format(new Date(auction.start_time), "MMM d, yyyy 'at' h:mm a")}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Ends:</span>
+                  <span className="text-muted-foreground">{isCandle || isHosted ? "Latest end:" : "Ends:"}</span>
                   <span>{format(new Date(auction.end_time), "MMM d, yyyy 'at' h:mm a")}</span>
                 </div>
+                {auction.soft_close_window_seconds && auction.soft_close_extension_seconds && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Soft close:</span>
+                    <span className="text-right">
+                      Bids in the last {formatDuration(auction.soft_close_window_seconds)} extend by{" "}
+                      {formatDuration(auction.soft_close_extension_seconds)}
+                      {auction.soft_close_max_extensions !== null &&
+                        ` (${auction.extension_count}/${auction.soft_close_max_extensions} used)`}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Format:</span>
+                  <span>{AUCTION_FORMAT_LABELS[auction.format]}</span>
+                </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Total Bids:</span>
-                  <span>{bids.length}</span>
+                  <span className="text-muted-foreground">Category:</span>
+                  <span>{AUCTION_CATEGORY_LABELS[auction.category]}</span>
                 </div>
+                {auction.bid_increment_tiers && !isSealed && !isDutch && (
+                  <div className="space-y-1">
+                    <span className="text-muted-foreground">{isReverse ? "Bid decrements:" : "Bid increments:"}</span>
+                    {auction.bid_increment_tiers.map((tier, index, tiers) => (
+                      <div key={tier.min_price} className="flex justify-between">
+                        <span>
+                          {index < tiers.length - 1
+                            ? `$${tier.min_price.toFixed(2)} – $${tiers[index + 1].min_price.toFixed(2)}`
+                            : `$${tier.min_price.toFixed(2)} and up`}
+                        </span>
+                        <span>${tier.increment.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {isCandle && candleWindowStart && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Candle window:</span>
+                      <span className="text-right">
+                        {format(candleWindowStart, "MMM d 'at' h:mm a")} – {format(new Date(auction.end_time), "MMM d 'at' h:mm a")}
+                      </span>
+                    </div>
+                    {candleEnd && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Candle went out:</span>
+                        <span>{format(candleEnd, "MMM d, yyyy 'at' h:mm:ss a")}</span>
+                      </div>
+                    )}
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">Commitment (SHA-256):</span>
+                      <p className="font-mono text-xs break-all">{auction.candle_commitment}</p>
+                    </div>
+                    {auction.candle_seed ? (
+                      <div className="space-y-2">
+                        <span className="text-muted-foreground">Revealed seed:</span>
+                        <p className="font-mono text-xs break-all">{auction.candle_seed}</p>
+                        <Button variant="outline" size="sm" className="w-full" onClick={verifyCandle}>
+                          Verify the close was fixed in advance
+                        </Button>
+                        {candleVerified !== null && (
+                          <p className={`text-xs ${candleVerified ? "text-green-600" : "text-red-600"}`}>
+                            {candleVerified
+                              ? "The revealed close and seed match the commitment published at creation."
+                              : "The revealed close and seed do not match the commitment."}
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        The seed and the exact close are revealed when the window ends, so anyone can check them
+                        against this hash.
+                      </p>
+                    )}
+                  </>
+                )}
+                {!isSealedOpen && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Total Bids:</span>
+                    <span>{bids.length}</span>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
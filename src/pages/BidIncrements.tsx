@@ -0,0 +1,231 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import { ArrowLeft, Layers, Plus, Trash2 } from "lucide-react";
+
+interface TierRow {
+  min_price: string;
+  increment: string;
+}
+
+const toRows = (tiers: { min_price: number; increment: number }[]) =>
+  tiers.map((tier) => ({ min_price: tier.min_price.toFixed(2), increment: tier.increment.toFixed(2) }));
+
+const BidIncrements = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [rows, setRows] = useState<TierRow[]>([]);
+  const [platformRows, setPlatformRows] = useState<TierRow[]>([]);
+  const [hasOwnTable, setHasOwnTable] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchTiers();
+  }, [user]);
+
+  const fetchTiers = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('bid_increment_tiers')
+        .select('seller_id, min_price, increment')
+        .or(`seller_id.eq.${user.id},seller_id.is.null`)
+        .order('min_price', { ascending: true });
+
+      if (error) throw error;
+      const own = (data || []).filter((tier) => tier.seller_id === user.id);
+      const platform = toRows((data || []).filter((tier) => tier.seller_id === null));
+
+      setPlatformRows(platform);
+      setHasOwnTable(own.length > 0);
+      setRows(own.length > 0 ? toRows(own) : platform);
+    } catch (error) {
+      console.error('Error fetching bid increments:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load bid increments",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveTiers = async (tiers: TierRow[]) => {
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.rpc('set_bid_increment_tiers', {
+        p_tiers: tiers.map((row) => ({
+          min_price: parseFloat(row.min_price),
+          increment: parseFloat(row.increment),
+        })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: tiers.length > 0 ? "Increment table saved" : "Using the platform default",
+        description: "New auctions will step bids by these bands. Running auctions keep their own.",
+      });
+      await fetchTiers();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRow = (index: number, field: keyof TierRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    setRows((prev) => [
+      ...prev,
+      { min_price: last ? (parseFloat(last.min_price) * 10 || 100).toFixed(2) : "0.00", increment: "" },
+    ]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTiers([...rows].sort((a, b) => parseFloat(a.min_price) - parseFloat(b.min_price)));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Layers className="h-12 w-12 mx-auto mb-4 text-primary animate-bounce" />
+          <p>Loading bid increments...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="container mx-auto max-w-2xl">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate(-1)}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <div className="auction-gradient p-2 rounded-lg">
+              <Layers className="h-6 w-6 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold">Bid Increments</h1>
+          </div>
+        </div>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>{hasOwnTable ? "Your Increment Table" : "Platform Default"}</CardTitle>
+            <CardDescription>
+              Each band applies from its starting price up to the next band. Auctions without a flat
+              increment use this table, fixed at the moment they are created.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm text-muted-foreground">
+                <Label>From ($)</Label>
+                <Label>Increment ($)</Label>
+                <span className="w-10" />
+              </div>
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={row.min_price}
+                    onChange={(e) => updateRow(index, "min_price", e.target.value)}
+                    aria-label="Band starts at"
+                    required
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={row.increment}
+                    onChange={(e) => updateRow(index, "increment", e.target.value)}
+                    aria-label="Increment"
+                    required
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => removeRow(index)}
+                    disabled={rows.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button type="button" variant="outline" onClick={addRow}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Band
+              </Button>
+
+              <div className="flex justify-end space-x-4 pt-4">
+                {hasOwnTable && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => saveTiers([])}
+                    disabled={saving}
+                  >
+                    Reset to Platform Default
+                  </Button>
+                )}
+                <Button
+                  type="submit"
+                  disabled={saving}
+                  className="auction-gradient text-white shadow-elegant"
+                >
+                  {saving ? "Saving..." : "Save Table"}
+                </Button>
+              </div>
+            </form>
+
+            {hasOwnTable && platformRows.length > 0 && (
+              <p className="mt-6 text-sm text-muted-foreground">
+                Platform default:{" "}
+                {platformRows.map((row) => `from $${row.min_price} step $${row.increment}`).join(", ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default BidIncrements;
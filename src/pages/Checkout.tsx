@@ -0,0 +1,282 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/hooks/use-toast";
+import { FULFILMENT_STATUS_LABELS } from "@/lib/fulfilment";
+import { ArrowLeft, CheckCircle, CreditCard } from "lucide-react";
+
+interface Order {
+  id: string;
+  auction_id: string;
+  buyer_id: string;
+  final_amount: number;
+  counter_offer_amount: number | null;
+  buyer_premium: number;
+  fulfilment_status: string | null;
+  auctions?: {
+    title: string;
+  } | null;
+}
+
+interface Payment {
+  id: string;
+  provider: string;
+  amount: number;
+  status: string;
+  failure_message: string | null;
+}
+
+const Checkout = () => {
+  const { transactionId } = useParams<{ transactionId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [cardNumber, setCardNumber] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState(false);
+
+  useEffect(() => {
+    if (!transactionId || !user) return;
+
+    fetchOrder();
+
+    // The provider's webhook marks the order paid, so wait for it here
+    const channel = supabase
+      .channel(`checkout-${transactionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'transactions',
+          filter: `id=eq.${transactionId}`
+        },
+        () => {
+          fetchOrder();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [transactionId, user]);
+
+  const fetchOrder = async () => {
+    if (!transactionId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select(`
+          id,
+          auction_id,
+          buyer_id,
+          final_amount,
+          counter_offer_amount,
+          buyer_premium,
+          fulfilment_status,
+          auctions:auction_id(title)
+        `)
+        .eq('id', transactionId)
+        .single();
+
+      if (error) throw error;
+      setOrder(data);
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load the order",
+      });
+      navigate("/purchases");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    setPaying(true);
+
+    try {
+      // Start a payment, or pick up the one already waiting for confirmation
+      let current = payment;
+      if (!current || current.status !== 'requires_confirmation') {
+        const { data, error } = await supabase.functions.invoke('create-payment-intent', {
+          body: { transaction_id: order.id },
+        });
+        if (error) throw error;
+        current = data.payment;
+        setPayment(current);
+      }
+
+      const { data, error } = await supabase.functions.invoke('confirm-payment', {
+        body: { payment_id: current.id, payment_method: { card_number: cardNumber } },
+      });
+      if (error) throw error;
+
+      if (data.status === 'succeeded') {
+        setCardNumber("");
+        toast({
+          title: "Payment received",
+          description: "The seller has been told to ship your order.",
+        });
+        await fetchOrder();
+      } else {
+        setPayment({ ...current, status: data.status, failure_message: data.failure_message });
+        toast({
+          variant: "destructive",
+          title: "Payment failed",
+          description: data.failure_message || "The payment was not completed",
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <CreditCard className="h-12 w-12 mx-auto mb-4 text-primary animate-bounce" />
+          <p>Loading checkout...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order || order.buyer_id !== user?.id) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">Order not found</h2>
+          <Button onClick={() => navigate("/purchases")}>
+            Return to Purchases
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const price = order.counter_offer_amount ?? order.final_amount;
+  const amount = price + order.buyer_premium;
+  const isAwaitingPayment = order.fulfilment_status === 'payment_pending';
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="container mx-auto max-w-lg">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/auction/${order.auction_id}`)}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <div className="auction-gradient p-2 rounded-lg">
+              <CreditCard className="h-6 w-6 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold">Checkout</h1>
+          </div>
+        </div>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>{order.auctions?.title || "Your purchase"}</CardTitle>
+            <CardDescription>
+              {isAwaitingPayment
+                ? "Pay for your order so the seller can ship it."
+                : `Order status: ${FULFILMENT_STATUS_LABELS[order.fulfilment_status] ?? "Not yet agreed"}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Price</span>
+                <span>${price.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Buyer's premium</span>
+                <span>${order.buyer_premium.toFixed(2)}</span>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Total</span>
+              <span className="text-2xl font-bold text-primary">${amount.toFixed(2)}</span>
+            </div>
+
+            <Separator />
+
+            {isAwaitingPayment ? (
+              <form onSubmit={pay} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="cardNumber">Card number</Label>
+                  <Input
+                    id="cardNumber"
+                    inputMode="numeric"
+                    autoComplete="cc-number"
+                    value={cardNumber}
+                    onChange={(e) => setCardNumber(e.target.value)}
+                    placeholder="4242 4242 4242 4242"
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Test mode: 4242 4242 4242 4242 is approved, 4000 0000 0000 0002 is declined.
+                  </p>
+                </div>
+
+                {payment?.status === 'failed' && payment.failure_message && (
+                  <p className="text-sm text-destructive">{payment.failure_message}</p>
+                )}
+
+                <Button
+                  type="submit"
+                  disabled={paying}
+                  className="w-full auction-gradient text-white shadow-elegant"
+                >
+                  {paying ? "Processing..." : `Pay $${amount.toFixed(2)}`}
+                </Button>
+              </form>
+            ) : (
+              <div className="text-center space-y-4">
+                {order.fulfilment_status && order.fulfilment_status !== 'payment_pending' && (
+                  <p className="flex items-center justify-center space-x-2 text-success">
+                    <CheckCircle className="h-5 w-5" />
+                    <span>Payment received</span>
+                  </p>
+                )}
+                <Button variant="outline" onClick={() => navigate(`/auction/${order.auction_id}`)}>
+                  View Order
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Checkout;
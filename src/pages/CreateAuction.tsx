@@ -1,28 +1,96 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "@/hooks/use-toast";
+import { AUCTION_CATEGORY_LABELS, AUCTION_FORMAT_DESCRIPTIONS, AUCTION_FORMAT_LABELS } from "@/lib/auction-formats";
 import { ArrowLeft, Gavel } from "lucide-react";
+import { format } from "date-fns";
+
+interface SellerEvent {
+  id: string;
+  title: string;
+  start_time: string;
+  first_lot_end_time: string;
+  lot_interval_seconds: number;
+  auctions: { count: number }[];
+}
+
+// Mirrors assign_event_lot(), which sets the lot's times when it is inserted
+const getNextLotEnd = (event: SellerEvent) => {
+  const lotCount = event.auctions[0]?.count ?? 0;
+  return new Date(new Date(event.first_lot_end_time).getTime() + lotCount * event.lot_interval_seconds * 1000);
+};
 
 const CreateAuction = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(false);
+  const [events, setEvents] = useState<SellerEvent[]>([]);
   const [formData, setFormData] = useState({
     title: "",
     description: "",
+    format: "english",
+    category: "other",
     starting_price: "",
-    bid_increment: "1.00",
+    bid_increment: "",
+    reserve_price: "",
+    buy_now_price: "",
+    buy_now_threshold: "",
     start_time: "",
     end_time: "",
     image_url: "",
+    soft_close_window: "2",
+    soft_close_extension: "2",
+    soft_close_max_extensions: "",
+    dutch_price_step: "",
+    dutch_step_interval: "1",
+    dutch_floor_price: "",
+    quantity: "2",
+    candle_window_start: "",
+    event_id: searchParams.get("event") ?? "none",
   });
+  const [softCloseEnabled, setSoftCloseEnabled] = useState(false);
+  const [hostedEnabled, setHostedEnabled] = useState(false);
+  const isDutch = formData.format === 'dutch';
+  const isReverse = formData.format === 'reverse';
+  const isMultiUnit = formData.format === 'multi_unit';
+  const isCandle = formData.format === 'candle';
+  const selectedEvent = events.find((event) => event.id === formData.event_id);
+  const isHosted = formData.format === 'english' && hostedEnabled;
+  // Soft close needs bids that answer each other in public; Buy It Now only suits rising prices.
+  // Neither applies to a hosted lot, which closes when the auctioneer brings the hammer down.
+  const hasOpenBidding = (formData.format === 'english' && !isHosted) || isReverse || isMultiUnit;
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Lots can only be added before an event opens
+    const fetchEvents = async () => {
+      const { data, error } = await supabase
+        .from('auction_events')
+        .select('id, title, start_time, first_lot_end_time, lot_interval_seconds, auctions(count)')
+        .eq('seller_id', user.id)
+        .gt('start_time', new Date().toISOString())
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching events:', error);
+        return;
+      }
+      setEvents(data || []);
+    };
+
+    fetchEvents();
+  }, [user]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,8 +99,8 @@ const CreateAuction = () => {
     setLoading(true);
 
     try {
-      const startTime = new Date(formData.start_time);
-      const endTime = new Date(formData.end_time);
+      const startTime = selectedEvent ? new Date(selectedEvent.start_time) : new Date(formData.start_time);
+      const endTime = selectedEvent ? getNextLotEnd(selectedEvent) : new Date(formData.end_time);
       const now = new Date();
 
       // Validation
@@ -43,22 +111,81 @@ const CreateAuction = () => {
         throw new Error("End time must be after start time");
       }
 
-      const { data, error } = await supabase
-        .from('auctions')
-        .insert([
-          {
-            seller_id: user.id,
-            title: formData.title,
-            description: formData.description,
-            starting_price: parseFloat(formData.starting_price),
-            bid_increment: parseFloat(formData.bid_increment),
-            start_time: startTime.toISOString(),
-            end_time: endTime.toISOString(),
-            image_url: formData.image_url || null,
-          },
-        ])
-        .select()
-        .single();
+      // The server draws the hidden close inside this window when the auction is inserted
+      const candleWindowStart = isCandle ? new Date(formData.candle_window_start) : null;
+      if (candleWindowStart && !(candleWindowStart >= startTime && candleWindowStart < endTime)) {
+        throw new Error("The candle window must open between the start and end times");
+      }
+
+      const reservePrice = !isDutch && !isReverse && !isMultiUnit && formData.reserve_price ? parseFloat(formData.reserve_price) : null;
+      if (reservePrice !== null && reservePrice < parseFloat(formData.starting_price)) {
+        throw new Error("Reserve price cannot be below the starting price");
+      }
+
+      const offersBuyNow = formData.format === 'english' && !isHosted;
+      const buyNowPrice = offersBuyNow && formData.buy_now_price ? parseFloat(formData.buy_now_price) : null;
+      const buyNowThreshold = offersBuyNow && formData.buy_now_threshold ? parseFloat(formData.buy_now_threshold) : null;
+      if (buyNowPrice !== null && buyNowPrice <= parseFloat(formData.starting_price)) {
+        throw new Error("Buy It Now price must be above the starting price");
+      }
+      if (buyNowThreshold !== null && (buyNowPrice === null || buyNowThreshold >= buyNowPrice)) {
+        throw new Error("Buy It Now threshold must be below the Buy It Now price");
+      }
+
+      const useSoftClose = hasOpenBidding && softCloseEnabled;
+      const softCloseWindow = parseFloat(formData.soft_close_window);
+      const softCloseExtension = parseFloat(formData.soft_close_extension);
+      if (useSoftClose && !(softCloseWindow > 0 && softCloseExtension > 0)) {
+        throw new Error("Soft close window and extension must be greater than zero");
+      }
+
+      const dutchStep = parseFloat(formData.dutch_price_step);
+      const dutchInterval = parseFloat(formData.dutch_step_interval);
+      const dutchFloor = parseFloat(formData.dutch_floor_price);
+      if (isDutch && !(dutchStep > 0 && dutchInterval > 0)) {
+        throw new Error("Price drop and interval must be greater than zero");
+      }
+      if (isDutch && !(dutchFloor > 0 && dutchFloor <= parseFloat(formData.starting_price))) {
+        throw new Error("Lowest price must be above zero and not above the opening price");
+      }
+
+      const quantity = isMultiUnit ? parseInt(formData.quantity, 10) : 1;
+      if (!(quantity >= 1)) {
+        throw new Error("Number of units must be at least 1");
+      }
+
+      // The auction and its reserve are created together. The reserve is kept
+      // in a seller-only table so bidders never see the amount
+      const { data, error } = await supabase.rpc('create_auction', {
+        p_auction: {
+          title: formData.title,
+          description: formData.description,
+          format: formData.format,
+          category: formData.category,
+          starting_price: parseFloat(formData.starting_price),
+          // Left blank, the server snapshots the seller's increment table
+          bid_increment: formData.bid_increment ? parseFloat(formData.bid_increment) : null,
+          start_time: startTime.toISOString(),
+          end_time: endTime.toISOString(),
+          image_url: formData.image_url || null,
+          buy_now_price: buyNowPrice,
+          buy_now_threshold: buyNowThreshold,
+          soft_close_window_seconds: useSoftClose ? Math.round(softCloseWindow * 60) : null,
+          soft_close_extension_seconds: useSoftClose ? Math.round(softCloseExtension * 60) : null,
+          soft_close_max_extensions:
+            useSoftClose && formData.soft_close_max_extensions
+              ? parseInt(formData.soft_close_max_extensions, 10)
+              : null,
+          dutch_price_step: isDutch ? dutchStep : null,
+          dutch_step_interval_seconds: isDutch ? Math.round(dutchInterval * 60) : null,
+          dutch_floor_price: isDutch ? dutchFloor : null,
+          quantity,
+          candle_window_start: candleWindowStart?.toISOString() ?? null,
+          event_id: selectedEvent?.id ?? null,
+          auctioneer_id: isHosted ? user.id : null,
+        },
+        p_reserve_price: reservePrice ?? undefined,
+      });
 
       if (error) throw error;
 
@@ -67,7 +194,7 @@ const CreateAuction = () => {
         description: "Your auction has been created successfully.",
       });
 
-      navigate(`/auction/${data.id}`);
+      navigate(selectedEvent ? `/events/${selectedEvent.id}` : `/auction/${data.id}`);
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -83,6 +210,15 @@ const CreateAuction = () => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  // A random candle close would break the event's staggered order
+  const handleEventChange = (value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      event_id: value,
+      format: value !== "none" && prev.format === "candle" ? "english" : prev.format,
+    }));
+  };
+
   return (
     <div className="min-h-screen bg-background p-4">
       <div className="container mx-auto max-w-2xl">
@@ -147,9 +283,83 @@ const CreateAuction = () => {
                 />
               </div>
 
+              {events.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="event_id">Catalog Event</Label>
+                  <Select value={formData.event_id} onValueChange={handleEventChange}>
+                    <SelectTrigger id="event_id">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None (standalone auction)</SelectItem>
+                      {events.map((event) => (
+                        <SelectItem key={event.id} value={event.id}>{event.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedEvent && (
+                    <p className="text-sm text-muted-foreground">
+                      This will be lot {(selectedEvent.auctions[0]?.count ?? 0) + 1}. It opens with the event on{" "}
+                      {format(new Date(selectedEvent.start_time), "MMM d 'at' h:mm a")} and closes{" "}
+                      {format(getNextLotEnd(selectedEvent), "MMM d 'at' h:mm a")}.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="category">Category *</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value) => handleInputChange("category", value)}
+                >
+                  <SelectTrigger id="category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(AUCTION_CATEGORY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  The category decides the commission and buyer's premium on the sale.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="format">Auction Format *</Label>
+                <Select
+                  value={formData.format}
+                  onValueChange={(value) => handleInputChange("format", value)}
+                >
+                  <SelectTrigger id="format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(AUCTION_FORMAT_LABELS)
+                      .filter(([value]) => !selectedEvent || value !== "candle")
+                      .map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {AUCTION_FORMAT_DESCRIPTIONS[formData.format]}
+                </p>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="starting_price">Starting Price ($) *</Label>
+                  <Label htmlFor="starting_price">
+                    {isDutch
+                      ? "Opening Price ($) *"
+                      : isReverse
+                        ? "Maximum Price ($) *"
+                        : isMultiUnit
+                          ? "Starting Price per Unit ($) *"
+                          : "Starting Price ($) *"}
+                  </Label>
                   <Input
                     id="starting_price"
                     type="number"
@@ -162,45 +372,264 @@ const CreateAuction = () => {
                   />
                 </div>
 
+                {isDutch ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="dutch_floor_price">Lowest Price ($) *</Label>
+                    <Input
+                      id="dutch_floor_price"
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      max={formData.starting_price || undefined}
+                      value={formData.dutch_floor_price}
+                      onChange={(e) => handleInputChange("dutch_floor_price", e.target.value)}
+                      placeholder="0.00"
+                      required
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="bid_increment">{isReverse ? "Bid Decrement ($)" : "Bid Increment ($)"}</Label>
+                    <Input
+                      id="bid_increment"
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={formData.bid_increment}
+                      onChange={(e) => handleInputChange("bid_increment", e.target.value)}
+                      placeholder="Tiered"
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Leave blank to step by price band using your{" "}
+                      <Link to="/bid-increments" className="text-primary hover:underline">
+                        increment table
+                      </Link>
+                      .
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {isDutch ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dutch_price_step">Price Drop ($) *</Label>
+                    <Input
+                      id="dutch_price_step"
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={formData.dutch_price_step}
+                      onChange={(e) => handleInputChange("dutch_price_step", e.target.value)}
+                      placeholder="0.00"
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="dutch_step_interval">Every (minutes) *</Label>
+                    <Input
+                      id="dutch_step_interval"
+                      type="number"
+                      step="0.5"
+                      min="0.5"
+                      value={formData.dutch_step_interval}
+                      onChange={(e) => handleInputChange("dutch_step_interval", e.target.value)}
+                      required
+                    />
+                  </div>
+                </div>
+              ) : isMultiUnit ? (
                 <div className="space-y-2">
-                  <Label htmlFor="bid_increment">Bid Increment ($) *</Label>
+                  <Label htmlFor="quantity">Number of Units *</Label>
                   <Input
-                    id="bid_increment"
+                    id="quantity"
                     type="number"
-                    step="0.01"
-                    min="0.01"
-                    value={formData.bid_increment}
-                    onChange={(e) => handleInputChange("bid_increment", e.target.value)}
+                    step="1"
+                    min="1"
+                    value={formData.quantity}
+                    onChange={(e) => handleInputChange("quantity", e.target.value)}
                     required
                   />
+                  <p className="text-sm text-muted-foreground">
+                    Identical units sold together. Every winning bidder pays the lowest winning unit price.
+                  </p>
                 </div>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              ) : !isReverse && (
                 <div className="space-y-2">
-                  <Label htmlFor="start_time">Start Date & Time *</Label>
+                  <Label htmlFor="reserve_price">Reserve Price ($, optional)</Label>
                   <Input
-                    id="start_time"
-                    type="datetime-local"
-                    value={formData.start_time}
-                    onChange={(e) => handleInputChange("start_time", e.target.value)}
-                    min={new Date().toISOString().slice(0, 16)}
-                    required
+                    id="reserve_price"
+                    type="number"
+                    step="0.01"
+                    min={formData.starting_price || "0.01"}
+                    value={formData.reserve_price}
+                    onChange={(e) => handleInputChange("reserve_price", e.target.value)}
+                    placeholder="No reserve"
                   />
+                  <p className="text-sm text-muted-foreground">
+                    The item won't sell below this price. Bidders only see whether it has been met.
+                  </p>
+                </div>
+              )}
+
+              {!selectedEvent && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="start_time">Start Date & Time *</Label>
+                    <Input
+                      id="start_time"
+                      type="datetime-local"
+                      value={formData.start_time}
+                      onChange={(e) => handleInputChange("start_time", e.target.value)}
+                      min={new Date().toISOString().slice(0, 16)}
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="end_time">{isCandle || isHosted ? "Latest Possible End *" : "End Date & Time *"}</Label>
+                    <Input
+                      id="end_time"
+                      type="datetime-local"
+                      value={formData.end_time}
+                      onChange={(e) => handleInputChange("end_time", e.target.value)}
+                      min={formData.start_time || new Date().toISOString().slice(0, 16)}
+                      required
+                    />
+                  </div>
                 </div>
+              )}
 
+              {isCandle && (
                 <div className="space-y-2">
-                  <Label htmlFor="end_time">End Date & Time *</Label>
+                  <Label htmlFor="candle_window_start">Candle Window Opens *</Label>
                   <Input
-                    id="end_time"
+                    id="candle_window_start"
                     type="datetime-local"
-                    value={formData.end_time}
-                    onChange={(e) => handleInputChange("end_time", e.target.value)}
+                    value={formData.candle_window_start}
+                    onChange={(e) => handleInputChange("candle_window_start", e.target.value)}
                     min={formData.start_time || new Date().toISOString().slice(0, 16)}
+                    max={formData.end_time || undefined}
                     required
                   />
+                  <p className="text-sm text-muted-foreground">
+                    The auction closes at a random moment between this time and the latest possible end. Nobody,
+                    including you, learns the moment until the window is over.
+                  </p>
                 </div>
-              </div>
+              )}
+
+              {formData.format === 'english' && (
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="hosted">Hosted live sale</Label>
+                    <p className="text-sm text-muted-foreground">
+                      You run the lot from the auctioneer console: open it, call prices and bring the hammer down.
+                      Bids are only taken while the lot is open.
+                    </p>
+                  </div>
+                  <Switch
+                    id="hosted"
+                    checked={hostedEnabled}
+                    onCheckedChange={setHostedEnabled}
+                  />
+                </div>
+              )}
+
+              {hasOpenBidding && (
+                <div className="space-y-6">
+                  {formData.format === 'english' && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="buy_now_price">Buy It Now Price ($, optional)</Label>
+                        <Input
+                          id="buy_now_price"
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          value={formData.buy_now_price}
+                          onChange={(e) => handleInputChange("buy_now_price", e.target.value)}
+                          placeholder="Not offered"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="buy_now_threshold">Offer Buy It Now until bids exceed ($)</Label>
+                        <Input
+                          id="buy_now_threshold"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={formData.buy_now_threshold}
+                          onChange={(e) => handleInputChange("buy_now_threshold", e.target.value)}
+                          placeholder="First bid"
+                          disabled={!formData.buy_now_price}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-4 rounded-lg border p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <Label htmlFor="soft_close">Soft close</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Extend the auction when a bid arrives in its final minutes, so last-second bids can be answered.
+                        </p>
+                      </div>
+                      <Switch
+                        id="soft_close"
+                        checked={softCloseEnabled}
+                        onCheckedChange={setSoftCloseEnabled}
+                      />
+                    </div>
+
+                    {softCloseEnabled && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="soft_close_window">Window (minutes) *</Label>
+                          <Input
+                            id="soft_close_window"
+                            type="number"
+                            step="0.5"
+                            min="0.5"
+                            value={formData.soft_close_window}
+                            onChange={(e) => handleInputChange("soft_close_window", e.target.value)}
+                            required
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="soft_close_extension">Extend by (minutes) *</Label>
+                          <Input
+                            id="soft_close_extension"
+                            type="number"
+                            step="0.5"
+                            min="0.5"
+                            value={formData.soft_close_extension}
+                            onChange={(e) => handleInputChange("soft_close_extension", e.target.value)}
+                            required
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="soft_close_max_extensions">Max extensions</Label>
+                          <Input
+                            id="soft_close_max_extensions"
+                            type="number"
+                            step="1"
+                            min="1"
+                            value={formData.soft_close_max_extensions}
+                            onChange={(e) => handleInputChange("soft_close_max_extensions", e.target.value)}
+                            placeholder="Unlimited"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
 
               <div className="flex justify-end space-x-4 pt-4">
                 <Button
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import { ArrowLeft, CalendarDays } from "lucide-react";
+
+const CreateEvent = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    title: "",
+    description: "",
+    start_time: "",
+    first_lot_end_time: "",
+    lot_interval: "1",
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setLoading(true);
+
+    try {
+      const startTime = new Date(formData.start_time);
+      const firstLotEndTime = new Date(formData.first_lot_end_time);
+      const lotInterval = parseFloat(formData.lot_interval);
+
+      // Validation
+      if (startTime < new Date()) {
+        throw new Error("Start time must be in the future");
+      }
+      if (firstLotEndTime <= startTime) {
+        throw new Error("The first lot must close after the event starts");
+      }
+      if (!(lotInterval >= 0)) {
+        throw new Error("Time between lots cannot be negative");
+      }
+
+      const { data, error } = await supabase
+        .from('auction_events')
+        .insert([
+          {
+            seller_id: user.id,
+            title: formData.title,
+            description: formData.description || null,
+            start_time: startTime.toISOString(),
+            first_lot_end_time: firstLotEndTime.toISOString(),
+            lot_interval_seconds: Math.round(lotInterval * 60),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Event created",
+        description: "Now add lots to your catalog.",
+      });
+
+      navigate(`/events/${data.id}`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="container mx-auto max-w-2xl">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/")}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <div className="auction-gradient p-2 rounded-lg">
+              <CalendarDays className="h-6 w-6 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold">Create Catalog Event</h1>
+          </div>
+        </div>
+
+        {/* Form */}
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Event Details</CardTitle>
+            <CardDescription>
+              Every lot opens when the event starts. Lots then close one after another, in catalog order.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="title">Event Title *</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => handleInputChange("title", e.target.value)}
+                  placeholder="e.g., Hillside Estate Sale"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => handleInputChange("description", e.target.value)}
+                  placeholder="What's in the sale, viewing and collection details..."
+                  rows={4}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="start_time">Start Date & Time *</Label>
+                  <Input
+                    id="start_time"
+                    type="datetime-local"
+                    value={formData.start_time}
+                    onChange={(e) => handleInputChange("start_time", e.target.value)}
+                    min={new Date().toISOString().slice(0, 16)}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="first_lot_end_time">Lot 1 Closes *</Label>
+                  <Input
+                    id="first_lot_end_time"
+                    type="datetime-local"
+                    value={formData.first_lot_end_time}
+                    onChange={(e) => handleInputChange("first_lot_end_time", e.target.value)}
+                    min={formData.start_time || new Date().toISOString().slice(0, 16)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="lot_interval">Minutes Between Lot Closes *</Label>
+                <Input
+                  id="lot_interval"
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={formData.lot_interval}
+                  onChange={(e) => handleInputChange("lot_interval", e.target.value)}
+                  required
+                />
+                <p className="text-sm text-muted-foreground">
+                  Lot 2 closes this long after lot 1, lot 3 after lot 2, and so on.
+                </p>
+              </div>
+
+              <div className="flex justify-end space-x-4 pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => navigate("/")}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={loading}
+                  className="auction-gradient text-white shadow-elegant"
+                >
+                  {loading ? "Creating..." : "Create Event"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CreateEvent;
@@ -1,3 +1,4 @@
+import NotificationBell from "@/components/NotificationBell";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -8,10 +9,27 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useNow } from "@/hooks/use-now";
 import { supabase } from "@/integrations/supabase/client";
-import { formatDistanceToNow } from "date-fns";
-import { Clock, DollarSign, Gavel, Plus, Search, User } from "lucide-react";
+import {
+  CALL_STATE_LABELS,
+  getDutchPrice,
+  isSealedFormat,
+} from "@/lib/auction-formats";
+import { differenceInSeconds, format, formatDistanceToNow } from "date-fns";
+import {
+  CalendarDays,
+  Clock,
+  DollarSign,
+  Gavel,
+  Plus,
+  Search,
+  ShoppingBag,
+  User,
+  Wallet,
+} from "lucide-react";
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 
@@ -26,15 +44,37 @@ interface Auction {
   status: string;
   image_url: string | null;
   seller_id: string;
+  extension_count: number;
+  buy_now_price: number | null;
+  buy_now_threshold: number | null;
+  format: string;
+  dutch_price_step: number | null;
+  dutch_step_interval_seconds: number | null;
+  dutch_floor_price: number | null;
+  quantity: number;
+  lot_number: number | null;
+  call_state: string | null;
   profiles?: {
     full_name: string;
   } | null;
+  auction_events?: {
+    title: string;
+  } | null;
   deleted?: boolean;
 }
 
+interface AuctionEvent {
+  id: string;
+  title: string;
+  start_time: string;
+  auctions: { count: number }[];
+}
+
 const Dashboard = () => {
   const { user, signOut } = useAuth();
+  const now = useNow();
   const [auctions, setAuctions] = useState<Auction[]>([]);
+  const [events, setEvents] = useState<AuctionEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filter, setFilter] = useState<"all" | "active" | "pending" | "ended">(
@@ -43,6 +83,7 @@ const Dashboard = () => {
 
   useEffect(() => {
     fetchAuctions();
+    fetchEvents();
 
     // Subscribe to real-time updates
     const channel = supabase
@@ -72,7 +113,8 @@ const Dashboard = () => {
         .select(
           `
           *,
-          profiles:seller_id(full_name)
+          profiles:seller_id(full_name),
+          auction_events:event_id(title)
         `
         )
         .order("created_at", { ascending: false });
@@ -91,22 +133,27 @@ const Dashboard = () => {
     }
   };
 
-  const filteredAuctions = auctions.filter((auction) => {
-    const now = new Date();
-    const start = new Date(auction.start_time);
-    const end = new Date(auction.end_time);
+  const fetchEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("auction_events")
+        .select("id, title, start_time, auctions(count)")
+        .order("start_time", { ascending: false })
+        .limit(6);
 
-    // Force status to 'ended' if end_time has passed
-    let status = auction.status;
-    if (end < now) status = "ended";
-    else if (start <= now && end > now && auction.status !== "ended")
-      status = "active";
-    else if (start > now && auction.status !== "ended") status = "pending";
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      console.error("Error fetching events:", error);
+    }
+  };
 
+  // Status transitions are driven by the lifecycle scheduler, so the stored status is authoritative
+  const filteredAuctions = auctions.filter((auction) => {
     const matchesSearch =
       auction.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
       auction.description?.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesFilter = filter === "all" || status === filter;
+    const matchesFilter = filter === "all" || auction.status === filter;
     return matchesSearch && matchesFilter;
   });
 
@@ -124,9 +171,13 @@ const Dashboard = () => {
   };
 
   const getTimeRemaining = (endTime: string) => {
-    const now = new Date();
     const end = new Date(endTime);
-    if (end < now) return "Ended";
+    if (end <= now) return "Ended";
+    // Count down to the second in the last hour, where soft-close extensions happen
+    const seconds = differenceInSeconds(end, now);
+    if (seconds < 3600) {
+      return `Ends in ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+    }
     return `Ends ${formatDistanceToNow(end, { addSuffix: true })}`;
   };
 
@@ -154,6 +205,25 @@ const Dashboard = () => {
           </div>
 
           <div className="flex items-center space-x-4">
+            {user && <NotificationBell userId={user.id} />}
+            <Link to="/purchases">
+              <Button variant="outline">
+                <ShoppingBag className="h-4 w-4 mr-2" />
+                My Purchases
+              </Button>
+            </Link>
+            <Link to="/payouts">
+              <Button variant="outline">
+                <Wallet className="h-4 w-4 mr-2" />
+                Payouts
+              </Button>
+            </Link>
+            <Link to="/create-event">
+              <Button variant="outline">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Create Event
+              </Button>
+            </Link>
             <Link to="/create-auction">
               <Button className="auction-gradient text-white shadow-elegant">
                 <Plus className="h-4 w-4 mr-2" />
@@ -196,6 +266,31 @@ const Dashboard = () => {
           </div>
         </div>
 
+        {/* Catalog Events */}
+        {events.length > 0 && (
+          <div className="mb-8 space-y-3">
+            <h2 className="text-lg font-semibold">Catalog Events</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {events.map((event) => (
+                <Link key={event.id} to={`/events/${event.id}`}>
+                  <Card className="shadow-card hover:shadow-glow transition-smooth cursor-pointer h-full">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base flex items-center space-x-2">
+                        <CalendarDays className="h-4 w-4 text-primary" />
+                        <span className="line-clamp-1">{event.title}</span>
+                      </CardTitle>
+                      <CardDescription>
+                        {event.auctions[0]?.count ?? 0} lots · opens{" "}
+                        {format(new Date(event.start_time), "MMM d 'at' h:mm a")}
+                      </CardDescription>
+                    </CardHeader>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Auctions Grid */}
         {filteredAuctions.length === 0 ? (
           <div className="text-center py-12">
@@ -231,6 +326,13 @@ const Dashboard = () => {
                         by {auction.profiles?.full_name || "Unknown"}
                       </span>
                     </div>
+                    {auction.lot_number !== null && (
+                      <span className="text-xs text-muted-foreground">
+                        Lot {auction.lot_number}
+                        {auction.auction_events &&
+                          ` · ${auction.auction_events.title}`}
+                      </span>
+                    )}
                     <CardTitle className="line-clamp-2">
                       {auction.title}
                     </CardTitle>
@@ -245,25 +347,82 @@ const Dashboard = () => {
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-1">
                         <DollarSign className="h-4 w-4 text-primary" />
+                        {auction.format === "reverse" &&
+                          auction.current_highest_bid && (
+                            <span className="text-sm text-muted-foreground">
+                              Lowest offer
+                            </span>
+                          )}
                         <span className="font-semibold">
                           $
-                          {auction.current_highest_bid ||
-                            auction.starting_price}
+                          {auction.format === "dutch" &&
+                          auction.status !== "ended"
+                            ? getDutchPrice(auction, now).toFixed(2)
+                            : auction.current_highest_bid ||
+                              auction.starting_price}
                         </span>
                       </div>
                       {auction.current_highest_bid && (
                         <span className="text-sm text-muted-foreground">
-                          Starting: ${auction.starting_price}
+                          {auction.format === "reverse" ? "Max" : "Starting"}: $
+                          {auction.starting_price}
                         </span>
                       )}
                     </div>
+                    {auction.format === "dutch" &&
+                      auction.status !== "ended" && (
+                        <Badge variant="outline">
+                          Dutch · price drops until someone buys
+                        </Badge>
+                      )}
+                    {auction.format === "multi_unit" && (
+                      <Badge variant="outline">
+                        {auction.quantity} units · uniform price
+                      </Badge>
+                    )}
+                    {auction.format === "candle" &&
+                      auction.status !== "ended" && (
+                        <Badge variant="outline">
+                          Candle · closes at a hidden moment
+                        </Badge>
+                      )}
+                    {auction.call_state !== null &&
+                      auction.status !== "ended" && (
+                        <Badge variant="outline">
+                          Live · {CALL_STATE_LABELS[auction.call_state]}
+                        </Badge>
+                      )}
+                    {isSealedFormat(auction.format) &&
+                      auction.status !== "ended" && (
+                        <Badge variant="outline">
+                          Sealed bids · revealed at close
+                        </Badge>
+                      )}
+                    {auction.status !== "ended" &&
+                      auction.buy_now_price !== null &&
+                      (auction.current_highest_bid === null ||
+                        (auction.buy_now_threshold !== null &&
+                          auction.current_highest_bid <=
+                            auction.buy_now_threshold)) && (
+                        <Badge variant="outline" className="text-primary">
+                          Buy It Now ${auction.buy_now_price.toFixed(2)}
+                        </Badge>
+                      )}
                     <div className="flex items-center space-x-1 text-sm text-muted-foreground">
                       <Clock className="h-4 w-4" />
                       <span>{getTimeRemaining(auction.end_time)}</span>
+                      {auction.extension_count > 0 && (
+                        <span className="text-xs">
+                          (extended {auction.extension_count}×)
+                        </span>
+                      )}
                     </div>
 
                     <div className="flex gap-3">
-                      {user?.id === auction.seller_id && (
+                      {/* Candle auctions and hosted lots can't be ended early, see end_auction_early() */}
+                      {user?.id === auction.seller_id
+                        && auction.call_state === null
+                        && !(auction.format === "candle" && new Date(auction.start_time) <= now) && (
                         <Button
                           className="w-full bg-destructive text-white mt-2"
                           onClick={async (e) => {
@@ -273,14 +432,16 @@ const Dashboard = () => {
                                 "Are you sure you want to remove this bid? It will be marked as ended."
                               )
                             ) {
-                              const { error } = await supabase
-                                .from("auctions")
-                                .update({
-                                  status: "ended",
-                                  end_time: new Date().toISOString(),
-                                })
-                                .eq("id", auction.id);
-                              if (!error) {
+                              const { error } = await supabase.rpc("end_auction_early", {
+                                p_auction_id: auction.id,
+                              });
+                              if (error) {
+                                toast({
+                                  variant: "destructive",
+                                  title: "Error",
+                                  description: error.message,
+                                });
+                              } else {
                                 setAuctions((prev) =>
                                   prev.map((a) =>
                                     a.id === auction.id
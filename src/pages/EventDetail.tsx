@@ -0,0 +1,292 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useNow } from "@/hooks/use-now";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { AUCTION_FORMAT_LABELS, getDutchPrice, isSealedFormat } from "@/lib/auction-formats";
+import { ArrowLeft, CalendarDays, Clock, Plus, User } from "lucide-react";
+import { differenceInSeconds, formatDistanceToNow, format } from "date-fns";
+
+interface AuctionEvent {
+  id: string;
+  seller_id: string;
+  title: string;
+  description: string | null;
+  start_time: string;
+  first_lot_end_time: string;
+  lot_interval_seconds: number;
+  profiles?: {
+    full_name: string | null;
+  } | null;
+}
+
+interface Lot {
+  id: string;
+  lot_number: number | null;
+  title: string;
+  image_url: string | null;
+  format: string;
+  status: string;
+  starting_price: number;
+  current_highest_bid: number | null;
+  start_time: string;
+  end_time: string;
+  dutch_price_step: number | null;
+  dutch_step_interval_seconds: number | null;
+  dutch_floor_price: number | null;
+}
+
+const EventDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const now = useNow();
+  const [event, setEvent] = useState<AuctionEvent | null>(null);
+  const [lots, setLots] = useState<Lot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    fetchEvent();
+
+    // Prices and closes move lot by lot, so follow every auction in the event
+    const lotsChannel = supabase
+      .channel(`event-lots-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'auctions',
+          filter: `event_id=eq.${id}`
+        },
+        () => {
+          fetchLots();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(lotsChannel);
+    };
+  }, [id]);
+
+  const fetchEvent = async () => {
+    if (!id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('auction_events')
+        .select(`
+          *,
+          profiles:seller_id(full_name)
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setEvent(data);
+
+      await fetchLots();
+    } catch (error) {
+      console.error('Error fetching event:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load event details",
+      });
+      navigate("/");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLots = async () => {
+    if (!id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('auctions')
+        .select('*')
+        .eq('event_id', id)
+        .order('lot_number', { ascending: true });
+
+      if (error) throw error;
+      setLots(data || []);
+    } catch (error) {
+      console.error('Error fetching lots:', error);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active': return 'bg-success';
+      case 'pending': return 'bg-warning';
+      case 'ended': return 'bg-muted';
+      default: return 'bg-muted';
+    }
+  };
+
+  const getTimeRemaining = (endTime: string) => {
+    const end = new Date(endTime);
+    if (end <= now) return "Closed";
+    const seconds = differenceInSeconds(end, now);
+    if (seconds < 3600) {
+      return `Closes in ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+    }
+    return `Closes ${formatDistanceToNow(end, { addSuffix: true })}`;
+  };
+
+  const getLotPrice = (lot: Lot) => {
+    const isOpen = new Date(lot.end_time) > now && lot.status !== 'ended';
+    if (isOpen && isSealedFormat(lot.format)) return "Sealed";
+    if (isOpen && lot.format === 'dutch') return `$${getDutchPrice(lot, now).toFixed(2)}`;
+    return `$${(lot.current_highest_bid ?? lot.starting_price).toFixed(2)}`;
+  };
+
+  const formatInterval = (seconds: number) =>
+    seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} sec`;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <CalendarDays className="h-12 w-12 mx-auto mb-4 text-primary animate-bounce" />
+          <p>Loading event...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!event) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">Event not found</h2>
+          <Button onClick={() => navigate("/")}>
+            Return to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwnEvent = user?.id === event.seller_id;
+  const hasStarted = new Date(event.start_time) <= now;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="container mx-auto max-w-6xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/")}
+              className="flex items-center space-x-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back</span>
+            </Button>
+            <div className="flex items-center space-x-3">
+              <div className="auction-gradient p-2 rounded-lg">
+                <CalendarDays className="h-6 w-6 text-white" />
+              </div>
+              <h1 className="text-2xl font-bold">Catalog Event</h1>
+            </div>
+          </div>
+          {isOwnEvent && !hasStarted && (
+            <Link to={`/create-auction?event=${event.id}`}>
+              <Button className="auction-gradient text-white shadow-elegant">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Lot
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        <Card className="shadow-card mb-8">
+          <CardHeader>
+            <div className="flex items-center justify-between mb-4">
+              <Badge variant="outline">
+                {hasStarted ? "Open" : `Opens ${formatDistanceToNow(new Date(event.start_time), { addSuffix: true })}`}
+              </Badge>
+              <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+                <User className="h-4 w-4" />
+                <span>by {event.profiles?.full_name || "Unknown"}</span>
+              </div>
+            </div>
+            <CardTitle className="text-3xl">{event.title}</CardTitle>
+            {event.description && (
+              <CardDescription className="text-base">
+                {event.description}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground space-y-1">
+            <p>All lots open {format(new Date(event.start_time), "MMM d, yyyy 'at' h:mm a")}.</p>
+            <p>
+              Lot 1 closes {format(new Date(event.first_lot_end_time), "MMM d, yyyy 'at' h:mm a")}
+              {event.lot_interval_seconds > 0 &&
+                `, then one lot every ${formatInterval(event.lot_interval_seconds)}`}
+              .
+            </p>
+          </CardContent>
+        </Card>
+
+        {lots.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarDays className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No lots yet</h3>
+            <p className="text-muted-foreground">
+              {isOwnEvent ? "Add lots to build the catalog." : "The catalog for this event is still being prepared."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {lots.map((lot) => (
+              <Link key={lot.id} to={`/auction/${lot.id}`} className="block">
+                <Card className="shadow-card hover:shadow-glow transition-smooth">
+                  <CardContent className="flex items-center gap-4 p-4">
+                    <div className="w-12 text-center">
+                      <p className="text-xs text-muted-foreground">Lot</p>
+                      <p className="text-xl font-bold">{lot.lot_number}</p>
+                    </div>
+                    {lot.image_url && (
+                      <img
+                        src={lot.image_url}
+                        alt={lot.title}
+                        className="h-16 w-16 object-cover rounded-lg"
+                      />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold truncate">{lot.title}</p>
+                      <p className="text-sm text-muted-foreground">{AUCTION_FORMAT_LABELS[lot.format]}</p>
+                    </div>
+                    <div className="text-right space-y-1">
+                      <p className="text-lg font-bold text-primary">{getLotPrice(lot)}</p>
+                      <div className="flex items-center justify-end space-x-1 text-sm text-muted-foreground">
+                        <Clock className="h-4 w-4" />
+                        <span>{getTimeRemaining(lot.end_time)}</span>
+                      </div>
+                    </div>
+                    <Badge className={`${getStatusColor(lot.status)} text-white`}>
+                      {lot.status}
+                    </Badge>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventDetail;
@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ArrowLeft, Wallet } from "lucide-react";
+
+interface Balance {
+  available: number;
+  pending: number;
+  paid_out: number;
+}
+
+interface LedgerEntry {
+  id: string;
+  entry_type: string;
+  amount: number;
+  description: string;
+  created_at: string;
+}
+
+const Payouts = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [balance, setBalance] = useState<Balance | null>(null);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [withdrawing, setWithdrawing] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchLedger();
+  }, [user]);
+
+  const fetchLedger = async () => {
+    try {
+      const [balanceResult, entriesResult] = await Promise.all([
+        supabase.rpc('seller_balance').single(),
+        supabase
+          .from('ledger_entries')
+          .select('id, entry_type, amount, description, created_at')
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (balanceResult.error) throw balanceResult.error;
+      if (entriesResult.error) throw entriesResult.error;
+      setBalance(balanceResult.data);
+      setEntries(entriesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching payouts:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load your balance",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const withdraw = async () => {
+    setWithdrawing(true);
+
+    try {
+      const { data, error } = await supabase.rpc('request_payout');
+
+      if (error) throw error;
+
+      toast({
+        title: "Payout requested",
+        description: `$${Number(data).toFixed(2)} is on its way to you.`,
+      });
+      await fetchLedger();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Wallet className="h-12 w-12 mx-auto mb-4 text-primary animate-bounce" />
+          <p>Loading payouts...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const available = balance?.available ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="container mx-auto max-w-2xl">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate(-1)}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <div className="auction-gradient p-2 rounded-lg">
+              <Wallet className="h-6 w-6 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold">Payouts</h1>
+          </div>
+        </div>
+
+        <Card className="shadow-card mb-6">
+          <CardHeader>
+            <CardTitle>Your Balance</CardTitle>
+            <CardDescription>
+              Sales become available once the buyer confirms the order is complete.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-sm text-muted-foreground">Available</p>
+                <p className="text-2xl font-bold text-primary">${available.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Pending</p>
+                <p className="text-2xl font-bold">${(balance?.pending ?? 0).toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Paid out</p>
+                <p className="text-2xl font-bold">${(balance?.paid_out ?? 0).toFixed(2)}</p>
+              </div>
+            </div>
+            <Button
+              onClick={withdraw}
+              disabled={withdrawing || available <= 0}
+              className="w-full auction-gradient text-white shadow-elegant"
+            >
+              {withdrawing ? "Requesting..." : `Withdraw $${available.toFixed(2)}`}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No sales or payouts yet.</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {entries.map((entry) => (
+                  // Ledger amounts are debits, so money owed to the seller is negative
+                  <li key={entry.id} className="flex items-center justify-between py-3 text-sm">
+                    <div>
+                      <p className="font-medium">{entry.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(entry.created_at), "MMM d, yyyy 'at' h:mm a")}
+                      </p>
+                    </div>
+                    <span className={entry.amount > 0 ? "text-destructive" : "text-success"}>
+                      {entry.amount > 0 ? "-" : "+"}${Math.abs(entry.amount).toFixed(2)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Payouts;
@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import InvoiceButton from "@/components/InvoiceButton";
+import { FULFILMENT_STATUS_LABELS } from "@/lib/fulfilment";
+import { ArrowLeft, Gavel, ShoppingBag } from "lucide-react";
+import { format } from "date-fns";
+
+interface Purchase {
+  id: string;
+  auction_id: string;
+  final_amount: number;
+  quantity: number;
+  counter_offer_amount: number | null;
+  status: string;
+  fulfilment_status: string | null;
+  invoice_url: string | null;
+  invoice_number: string | null;
+  created_at: string;
+  auctions?: {
+    title: string;
+  } | null;
+}
+
+const Purchases = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchPurchases();
+  }, [user]);
+
+  const fetchPurchases = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select(`
+          *,
+          auctions:auction_id(title)
+        `)
+        .eq('buyer_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPurchases(data || []);
+    } catch (error) {
+      console.error('Error fetching purchases:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'accepted':
+      case 'paid':
+      case 'shipped':
+      case 'delivered':
+      case 'completed': return 'bg-success';
+      case 'pending':
+      case 'offered':
+      case 'payment_pending':
+      case 'countered': return 'bg-warning';
+      case 'rejected':
+      case 'expired':
+      case 'disputed':
+      case 'unpaid': return 'bg-destructive';
+      default: return 'bg-muted';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Gavel className="h-12 w-12 mx-auto mb-4 text-primary animate-bounce" />
+          <p>Loading purchases...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="container mx-auto max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/")}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+          <div className="flex items-center space-x-3">
+            <div className="auction-gradient p-2 rounded-lg">
+              <ShoppingBag className="h-6 w-6 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold">My Purchases</h1>
+          </div>
+        </div>
+
+        {purchases.length === 0 ? (
+          <div className="text-center py-12">
+            <ShoppingBag className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No purchases yet</h3>
+            <p className="text-muted-foreground">Auctions you win will appear here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {purchases.map((purchase) => (
+              <Card key={purchase.id} className="shadow-card">
+                <CardHeader className="pb-4">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg">
+                      <Link to={`/auction/${purchase.auction_id}`} className="hover:underline">
+                        {purchase.auctions?.title || "Auction"}
+                      </Link>
+                    </CardTitle>
+                    <Badge className={`${getStatusColor(purchase.fulfilment_status ?? purchase.status)} text-white`}>
+                      {purchase.fulfilment_status ? FULFILMENT_STATUS_LABELS[purchase.fulfilment_status] : purchase.status}
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    Won on {format(new Date(purchase.created_at), "MMM d, yyyy")}
+                    {purchase.quantity > 1 && ` · ${purchase.quantity} units`}
+                    {purchase.invoice_number && ` · Invoice ${purchase.invoice_number}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex items-center justify-between">
+                  <span className="text-xl font-bold text-primary">
+                    ${(purchase.status === 'accepted' || purchase.status === 'completed'
+                      ? purchase.counter_offer_amount ?? purchase.final_amount
+                      : purchase.final_amount
+                    ).toFixed(2)}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    {purchase.fulfilment_status === 'payment_pending' && (
+                      <Link to={`/checkout/${purchase.id}`}>
+                        <Button className="auction-gradient text-white">Pay Now</Button>
+                      </Link>
+                    )}
+                    {purchase.invoice_url && (
+                      <InvoiceButton invoicePath={purchase.invoice_url} />
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Purchases;
@@ -0,0 +1,17 @@
+export const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// For functions only the database calls (through pg_net or the cron jobs),
+// which send the service role key. Any signed-in user or anyone holding the
+// public anon key also passes the gateway's JWT check, so that isn't enough.
+export const isServiceRoleRequest = (req: Request) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  return serviceRoleKey !== "" && timingSafeEqual(token, serviceRoleKey);
+};
@@ -0,0 +1,76 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+interface SmtpOptions {
+  hostname: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+// Plain SMTP. Point it at MailHog (localhost:1025, no TLS, no auth) to test offline.
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => ({
+  send: async (message) => {
+    const client = new SMTPClient({
+      connection: {
+        hostname: options.hostname,
+        port: options.port,
+        tls: options.tls,
+        auth: options.username
+          ? { username: options.username, password: options.password ?? "" }
+          : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: options.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+  },
+});
+
+// Writes messages to the function log instead of delivering them
+export const createConsoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+  },
+});
+
+export const createTransportFromEnv = (): MailTransport => {
+  const transport = Deno.env.get("MAIL_TRANSPORT") ?? "smtp";
+
+  if (transport === "console") {
+    return createConsoleTransport();
+  }
+  if (transport !== "smtp") {
+    throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+
+  return createSmtpTransport({
+    hostname: Deno.env.get("SMTP_HOST") ?? "localhost",
+    port: Number(Deno.env.get("SMTP_PORT") ?? "1025"),
+    tls: Deno.env.get("SMTP_TLS") === "true",
+    username: Deno.env.get("SMTP_USER"),
+    password: Deno.env.get("SMTP_PASSWORD"),
+    from: Deno.env.get("MAIL_FROM") ?? "Chrono-Bid <no-reply@chrono-bid.local>",
+  });
+};
@@ -0,0 +1,155 @@
+import { timingSafeEqual } from "./auth.ts";
+
+export type PaymentStatus = "requires_confirmation" | "succeeded" | "failed" | "refunded";
+
+export interface PaymentIntent {
+  id: string;
+  clientSecret: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+}
+
+export interface PaymentResult {
+  status: PaymentStatus;
+  failureMessage?: string;
+}
+
+// A provider webhook reduced to what record_payment_event() needs
+export interface PaymentEvent {
+  id: string;
+  type: "payment.succeeded" | "payment.failed" | "payment.refunded";
+  paymentId: string;
+  failureMessage?: string;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createIntent: (params: { amount: number; currency: string; transactionId: string }) => Promise<PaymentIntent>;
+  confirm: (params: {
+    paymentId: string;
+    amount: number;
+    currency: string;
+    paymentMethod: Record<string, string>;
+  }) => Promise<PaymentResult>;
+  refund: (params: { paymentId: string; amount: number; currency: string }) => Promise<PaymentResult>;
+  // Throws unless the request really came from the provider
+  verifyWebhook: (body: string, headers: Headers) => Promise<PaymentEvent>;
+}
+
+const encoder = new TextEncoder();
+
+const sign = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+interface MockOptions {
+  webhookUrl: string;
+  webhookSecret: string;
+  // Signed webhooks older than this are refused, so a captured one can't be replayed later
+  toleranceSeconds?: number;
+}
+
+// Test cards, following the usual gateway conventions
+export const MOCK_CARDS = {
+  success: "4242424242424242",
+  declined: "4000000000000002",
+};
+
+// A gateway that runs inside the function. Confirming or refunding decides the
+// outcome from the test card and then delivers a signed webhook to the
+// payment-webhook function, just as a hosted provider would.
+export const createMockProvider = (options: MockOptions): PaymentProvider => {
+  const tolerance = options.toleranceSeconds ?? 300;
+
+  const deliver = async (type: PaymentEvent["type"], paymentId: string, failureMessage?: string) => {
+    const body = JSON.stringify({
+      id: `evt_mock_${crypto.randomUUID()}`,
+      type,
+      payment_id: paymentId,
+      failure_message: failureMessage ?? null,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await sign(options.webhookSecret, `${timestamp}.${body}`);
+
+    const response = await fetch(options.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Mock-Signature": `t=${timestamp},v1=${signature}` },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook delivery failed with ${response.status}`);
+    }
+  };
+
+  return {
+    name: "mock",
+    createIntent: async ({ amount, currency }) => {
+      const id = `pi_mock_${crypto.randomUUID().replace(/-/g, "")}`;
+      return { id, clientSecret: `${id}_secret`, amount, currency, status: "requires_confirmation" };
+    },
+    confirm: async ({ paymentId, paymentMethod }) => {
+      const card = (paymentMethod.card_number ?? "").replace(/\s/g, "");
+      const result: PaymentResult =
+        card === MOCK_CARDS.success
+          ? { status: "succeeded" }
+          : card === MOCK_CARDS.declined
+          ? { status: "failed", failureMessage: "Your card was declined" }
+          : { status: "failed", failureMessage: "Use one of the test card numbers" };
+
+      await deliver(result.status === "succeeded" ? "payment.succeeded" : "payment.failed", paymentId, result.failureMessage);
+      return result;
+    },
+    refund: async ({ paymentId }) => {
+      await deliver("payment.refunded", paymentId);
+      return { status: "refunded" };
+    },
+    verifyWebhook: async (body, headers) => {
+      const header = headers.get("Mock-Signature") ?? "";
+      const parts = Object.fromEntries(header.split(",").map((part) => part.split("=", 2)));
+      const timestamp = Number(parts.t);
+
+      if (!parts.v1 || !Number.isFinite(timestamp)) {
+        throw new Error("Missing webhook signature");
+      }
+      if (Math.abs(Date.now() / 1000 - timestamp) > tolerance) {
+        throw new Error("Webhook signature has expired");
+      }
+      if (!timingSafeEqual(parts.v1, await sign(options.webhookSecret, `${timestamp}.${body}`))) {
+        throw new Error("Invalid webhook signature");
+      }
+
+      const event = JSON.parse(body);
+      return {
+        id: event.id,
+        type: event.type,
+        paymentId: event.payment_id,
+        failureMessage: event.failure_message ?? undefined,
+        payload: event,
+      };
+    },
+  };
+};
+
+export const createPaymentProviderFromEnv = (): PaymentProvider => {
+  const provider = Deno.env.get("PAYMENT_PROVIDER") ?? "mock";
+
+  if (provider !== "mock") {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${provider}"`);
+  }
+
+  const webhookSecret = Deno.env.get("PAYMENT_WEBHOOK_SECRET");
+  if (!webhookSecret) {
+    throw new Error("PAYMENT_WEBHOOK_SECRET is not set");
+  }
+
+  return createMockProvider({
+    webhookUrl: `${Deno.env.get("SUPABASE_URL")}/functions/v1/payment-webhook`,
+    webhookSecret,
+  });
+};
@@ -0,0 +1,81 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createPaymentProviderFromEnv } from "../_shared/payments.ts";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Submits the buyer's payment method to the provider. The outcome reaches the
+// database only through the provider's webhook, so this just reports it back.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return jsonResponse({ error: "Please sign in to pay" }, 401);
+  }
+
+  const { payment_id, payment_method } = await req.json();
+  if (!payment_id || !payment_method) {
+    return jsonResponse({ error: "payment_id and payment_method are required" }, 400);
+  }
+
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .select("*, transactions:transaction_id(buyer_id, fulfilment_status)")
+    .eq("id", payment_id)
+    .single();
+
+  if (error || payment.transactions?.buyer_id !== user.id) {
+    return jsonResponse({ error: "Payment not found" }, 404);
+  }
+  if (payment.status !== "requires_confirmation") {
+    return jsonResponse({ error: "This payment has already been processed" }, 409);
+  }
+  // The order may have been paid another way or cancelled since the intent was made
+  if (payment.transactions.fulfilment_status !== "payment_pending") {
+    return jsonResponse({ error: "This order is not awaiting payment" }, 409);
+  }
+
+  const provider = createPaymentProviderFromEnv();
+  if (provider.name !== payment.provider) {
+    return jsonResponse({ error: "This payment was started with another provider" }, 409);
+  }
+
+  try {
+    const result = await provider.confirm({
+      paymentId: payment.provider_payment_id,
+      amount: payment.amount,
+      currency: payment.currency,
+      paymentMethod: payment_method,
+    });
+
+    // The order may have stopped waiting while the payment went through, in
+    // which case the webhook sends the money back
+    if (result.status === "succeeded") {
+      const { data: recorded } = await supabase.from("payments").select("status").eq("id", payment.id).single();
+      if (recorded?.status === "refund_pending" || recorded?.status === "refunded") {
+        return jsonResponse({
+          status: "failed",
+          failure_message: "This order is no longer awaiting payment, so the payment will be refunded",
+        });
+      }
+    }
+
+    return jsonResponse({ status: result.status, failure_message: result.failureMessage ?? null });
+  } catch (confirmError) {
+    console.error(`Error confirming payment ${payment.id}:`, confirmError);
+    return jsonResponse({ error: "The payment could not be processed" }, 502);
+  }
+});
@@ -0,0 +1,103 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createPaymentProviderFromEnv } from "../_shared/payments.ts";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Starts (or resumes) payment for an agreed sale. Called by the buyer from the
+// checkout page; the amount always comes from the transaction, never the client.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return jsonResponse({ error: "Please sign in to pay" }, 401);
+  }
+
+  const { transaction_id } = await req.json();
+  if (!transaction_id) {
+    return jsonResponse({ error: "transaction_id is required" }, 400);
+  }
+
+  const { data: transaction, error } = await supabase
+    .from("transactions")
+    .select("id, buyer_id, final_amount, counter_offer_amount, buyer_premium, fulfilment_status")
+    .eq("id", transaction_id)
+    .single();
+
+  if (error || transaction.buyer_id !== user.id) {
+    return jsonResponse({ error: "Transaction not found" }, 404);
+  }
+  if (transaction.fulfilment_status !== "payment_pending") {
+    return jsonResponse({ error: "This order is not awaiting payment" }, 409);
+  }
+
+  const provider = createPaymentProviderFromEnv();
+  const amount = Number(
+    ((transaction.counter_offer_amount ?? transaction.final_amount) + transaction.buyer_premium).toFixed(2)
+  );
+
+  // Reloading the checkout page picks up the intent already started. Only one
+  // payment per order can await confirmation, so a stale one is voided first
+  const findOpenPayment = () =>
+    supabase
+      .from("payments")
+      .select("*")
+      .eq("transaction_id", transaction.id)
+      .eq("status", "requires_confirmation")
+      .maybeSingle();
+
+  const { data: existing } = await findOpenPayment();
+
+  if (existing && existing.provider === provider.name && existing.amount === amount) {
+    return jsonResponse({ payment: existing });
+  }
+  if (existing) {
+    await supabase
+      .from("payments")
+      .update({ status: "failed", failure_message: "Replaced by a newer payment" })
+      .eq("id", existing.id)
+      .eq("status", "requires_confirmation");
+  }
+
+  const intent = await provider.createIntent({ amount, currency: "usd", transactionId: transaction.id });
+
+  const { data: payment, error: insertError } = await supabase
+    .from("payments")
+    .insert({
+      transaction_id: transaction.id,
+      provider: provider.name,
+      provider_payment_id: intent.id,
+      client_secret: intent.clientSecret,
+      amount: intent.amount,
+      currency: intent.currency,
+    })
+    .select()
+    .single();
+
+  // Another request for the same order got there first, so use its payment
+  if (insertError?.code === "23505") {
+    const { data: winner } = await findOpenPayment();
+    if (winner) {
+      return jsonResponse({ payment: winner });
+    }
+  }
+  if (insertError) {
+    console.error("Error saving payment:", insertError);
+    return jsonResponse({ error: insertError.message }, 500);
+  }
+
+  return jsonResponse({ payment });
+});
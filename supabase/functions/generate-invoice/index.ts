@@ -0,0 +1,85 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { renderInvoice } from "./invoice.ts";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Renders the invoice for an accepted transaction into the invoices bucket.
+// Invoked by the request_invoice trigger once an invoice number is assigned.
+Deno.serve(async (req) => {
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const { transaction_id } = await req.json();
+  if (!transaction_id) {
+    return jsonResponse({ error: "transaction_id is required" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: transaction, error } = await supabase
+    .from("transactions")
+    .select(`
+      *,
+      auctions:auction_id(title),
+      seller:seller_id(full_name, email),
+      buyer:buyer_id(full_name, email)
+    `)
+    .eq("id", transaction_id)
+    .single();
+
+  if (error) {
+    console.error("Error fetching transaction:", error);
+    return jsonResponse({ error: error.message }, 404);
+  }
+  if (!transaction.invoice_number) {
+    return jsonResponse({ error: "Transaction has no invoice number" }, 409);
+  }
+
+  const html = renderInvoice({
+    invoice_number: transaction.invoice_number,
+    issued_at: new Date(),
+    auction_title: transaction.auctions.title,
+    seller: transaction.seller,
+    buyer: transaction.buyer,
+    hammer_price: transaction.final_amount,
+    quantity: transaction.quantity,
+    unit_price: transaction.unit_price,
+    counter_offer_amount: transaction.counter_offer_amount,
+    // The seller's commission is settled in the payout ledger, not billed here
+    fees: transaction.buyer_premium > 0 ? [{ label: "Buyer's premium", amount: transaction.buyer_premium }] : [],
+  });
+
+  const path = `${transaction.id}/${transaction.invoice_number}.html`;
+  const { error: uploadError } = await supabase.storage
+    .from("invoices")
+    .upload(path, new Blob([html], { type: "text/html" }), {
+      contentType: "text/html",
+      upsert: true,
+    });
+
+  if (uploadError) {
+    console.error("Error uploading invoice:", uploadError);
+    return jsonResponse({ error: uploadError.message }, 500);
+  }
+
+  const { error: updateError } = await supabase
+    .from("transactions")
+    .update({ invoice_url: path })
+    .eq("id", transaction.id);
+
+  if (updateError) {
+    console.error("Error saving invoice path:", updateError);
+    return jsonResponse({ error: updateError.message }, 500);
+  }
+
+  return jsonResponse({ invoice_url: path });
+});
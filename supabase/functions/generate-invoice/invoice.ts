@@ -0,0 +1,96 @@
+export interface InvoiceParty {
+  full_name: string | null;
+  email: string;
+}
+
+export interface InvoiceLineItem {
+  label: string;
+  amount: number;
+}
+
+export interface InvoiceData {
+  invoice_number: string;
+  issued_at: Date;
+  auction_title: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  hammer_price: number;
+  quantity: number;
+  unit_price: number | null;
+  counter_offer_amount: number | null;
+  fees: InvoiceLineItem[];
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatAmount = (amount: number) => `$${Number(amount).toFixed(2)}`;
+
+const renderParty = (heading: string, party: InvoiceParty) => `
+      <div>
+        <h3>${heading}</h3>
+        <p>${escapeHtml(party.full_name || party.email)}<br />${escapeHtml(party.email)}</p>
+      </div>`;
+
+export const getLineItems = (data: InvoiceData): InvoiceLineItem[] => [
+  {
+    label:
+      data.quantity > 1 && data.unit_price !== null
+        ? `Hammer price (${data.quantity} × ${formatAmount(data.unit_price)})`
+        : "Hammer price",
+    amount: data.hammer_price,
+  },
+  ...(data.counter_offer_amount !== null
+    ? [{ label: "Counter-offer adjustment", amount: data.counter_offer_amount - data.hammer_price }]
+    : []),
+  ...data.fees,
+];
+
+export const renderInvoice = (data: InvoiceData) => {
+  const lineItems = getLineItems(data);
+  const total = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Invoice ${escapeHtml(data.invoice_number)}</title>
+    <style>
+      body { font-family: Arial, sans-serif; color: #1f2937; max-width: 720px; margin: 40px auto; }
+      .parties { display: flex; justify-content: space-between; margin: 32px 0; }
+      table { width: 100%; border-collapse: collapse; }
+      th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+      td.amount, th.amount { text-align: right; }
+      tfoot td { font-weight: bold; border-bottom: none; }
+      @media print { body { margin: 0; } }
+    </style>
+  </head>
+  <body>
+    <h1>Invoice</h1>
+    <p>
+      Invoice number: <strong>${escapeHtml(data.invoice_number)}</strong><br />
+      Issued: ${data.issued_at.toISOString().slice(0, 10)}
+    </p>
+    <div class="parties">${renderParty("Seller", data.seller)}${renderParty("Buyer", data.buyer)}
+    </div>
+    <table>
+      <thead>
+        <tr><th>${escapeHtml(data.auction_title)}</th><th class="amount">Amount</th></tr>
+      </thead>
+      <tbody>
+        ${lineItems
+          .map((item) => `<tr><td>${escapeHtml(item.label)}</td><td class="amount">${formatAmount(item.amount)}</td></tr>`)
+          .join("\n        ")}
+      </tbody>
+      <tfoot>
+        <tr><td>Total due</td><td class="amount">${formatAmount(total)}</td></tr>
+      </tfoot>
+    </table>
+  </body>
+</html>`;
+};
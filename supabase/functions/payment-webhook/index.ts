@@ -0,0 +1,45 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createPaymentProviderFromEnv } from "../_shared/payments.ts";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Receives the payment provider's webhooks. Providers retry deliveries, so
+// record_payment_event() ignores any event id it has already seen.
+Deno.serve(async (req) => {
+  const provider = createPaymentProviderFromEnv();
+  const body = await req.text();
+
+  let event;
+  try {
+    event = await provider.verifyWebhook(body, req.headers);
+  } catch (verifyError) {
+    console.error("Rejected webhook:", verifyError);
+    return jsonResponse({ error: "Invalid signature" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: processed, error } = await supabase.rpc("record_payment_event", {
+    p_provider: provider.name,
+    p_event_id: event.id,
+    p_type: event.type,
+    p_provider_payment_id: event.paymentId,
+    p_failure_message: event.failureMessage ?? null,
+    p_payload: event.payload,
+  });
+
+  if (error) {
+    // A 5xx makes the provider deliver the event again later
+    console.error(`Error recording webhook ${event.id}:`, error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+
+  return jsonResponse({ received: true, duplicate: !processed });
+});
@@ -0,0 +1,109 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createPaymentProviderFromEnv } from "../_shared/payments.ts";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+interface RefundablePayment {
+  id: string;
+  provider: string;
+  provider_payment_id: string;
+  amount: number;
+  currency: string;
+}
+
+const refund = async (payment: RefundablePayment) => {
+  const provider = createPaymentProviderFromEnv();
+  if (provider.name !== payment.provider) {
+    return jsonResponse({ error: "This payment was made with another provider" }, 409);
+  }
+
+  try {
+    const result = await provider.refund({
+      paymentId: payment.provider_payment_id,
+      amount: payment.amount,
+      currency: payment.currency,
+    });
+    return jsonResponse({ status: result.status, failure_message: result.failureMessage ?? null });
+  } catch (refundError) {
+    console.error(`Error refunding payment ${payment.id}:`, refundError);
+    return jsonResponse({ error: "The refund could not be processed" }, 502);
+  }
+};
+
+// Refunds the buyer of a disputed order when the seller asks, or a payment
+// the order could not take when the request_payment_refund trigger asks. Like
+// a payment, the refund is recorded only when the webhook arrives.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  if (isServiceRoleRequest(req)) {
+    const { payment_id } = await req.json();
+    if (!payment_id) {
+      return jsonResponse({ error: "payment_id is required" }, 400);
+    }
+
+    const { data: payment, error } = await supabase
+      .from("payments")
+      .select("*")
+      .eq("id", payment_id)
+      .single();
+
+    if (error) {
+      return jsonResponse({ error: "Payment not found" }, 404);
+    }
+    if (payment.status !== "refund_pending") {
+      return jsonResponse({ error: "This payment is not waiting for a refund" }, 409);
+    }
+    return refund(payment);
+  }
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return jsonResponse({ error: "Please sign in to refund" }, 401);
+  }
+
+  const { transaction_id } = await req.json();
+  if (!transaction_id) {
+    return jsonResponse({ error: "transaction_id is required" }, 400);
+  }
+
+  const { data: transaction, error } = await supabase
+    .from("transactions")
+    .select("id, seller_id, fulfilment_status")
+    .eq("id", transaction_id)
+    .single();
+
+  if (error || transaction.seller_id !== user.id) {
+    return jsonResponse({ error: "Transaction not found" }, 404);
+  }
+  if (transaction.fulfilment_status !== "disputed") {
+    return jsonResponse({ error: "Only a disputed order can be refunded" }, 409);
+  }
+
+  // An order takes only one successful payment
+  const { data: payment } = await supabase
+    .from("payments")
+    .select("*")
+    .eq("transaction_id", transaction.id)
+    .eq("status", "succeeded")
+    .maybeSingle();
+
+  if (!payment) {
+    return jsonResponse({ error: "There is no payment to refund" }, 409);
+  }
+  return refund(payment);
+});
@@ -0,0 +1,59 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { createTransportFromEnv } from "../_shared/mailer.ts";
+import { renderEmail, type EmailData, type EmailTemplate } from "./templates.ts";
+
+// Drains the email_queue table. Invoked by the send-queued-emails cron job.
+Deno.serve(async (req) => {
+  if (!isServiceRoleRequest(req)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  const transport = createTransportFromEnv();
+  const siteUrl = Deno.env.get("SITE_URL") ?? "http://localhost:8080";
+
+  const { data: emails, error } = await supabase.rpc("claim_email_batch", { p_limit: 20 });
+
+  if (error) {
+    console.error("Error claiming emails:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const email of emails ?? []) {
+    try {
+      const message = renderEmail(email.template as EmailTemplate, email.data as EmailData, siteUrl);
+      await transport.send({ to: email.to_email, ...message });
+
+      await supabase
+        .from("email_queue")
+        .update({ status: "sent", sent_at: new Date().toISOString(), last_error: null })
+        .eq("id", email.id);
+      sent++;
+    } catch (sendError) {
+      console.error(`Error sending email ${email.id}:`, sendError);
+
+      await supabase
+        .from("email_queue")
+        .update({ status: "failed", last_error: String(sendError) })
+        .eq("id", email.id);
+      failed++;
+    }
+  }
+
+  return new Response(JSON.stringify({ sent, failed }), {
+    headers: { "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,188 @@
+export type EmailTemplate = "won" | "outbid" | "accepted" | "countered" | "rejected" | "second_chance";
+
+export interface EmailData {
+  recipient_name?: string | null;
+  auction_id?: string;
+  auction_title?: string;
+  amount?: number | null;
+  counter_amount?: number | null;
+  winning_bid?: number | null;
+  format?: string;
+  quantity?: number | null;
+  unit_price?: number | null;
+  message?: string | null;
+  role?: "buyer" | "seller";
+  counter?: boolean;
+  expires_at?: string | null;
+}
+
+interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatAmount = (amount?: number | null) =>
+  amount === null || amount === undefined ? "" : `$${Number(amount).toFixed(2)}`;
+
+const formatDeadline = (expiresAt?: string | null) =>
+  expiresAt ? new Date(expiresAt).toUTCString() : "";
+
+const describeWin = (data: EmailData, title: string) => {
+  if (data.winning_bid !== null && data.winning_bid !== undefined && data.winning_bid !== data.amount) {
+    return `Your sealed bid of ${formatAmount(data.winning_bid)} is the highest on "${title}". Under second-price rules you pay ${formatAmount(data.amount)}.`;
+  }
+  if (data.format === "multi_unit") {
+    return `You won ${data.quantity} of the units on "${title}" at ${formatAmount(data.unit_price)} each, ${formatAmount(data.amount)} in total.`;
+  }
+  if (data.format === "reverse") {
+    return `Your offer of ${formatAmount(data.amount)} is the lowest on "${title}".`;
+  }
+  return `Your bid of ${formatAmount(data.amount)} is the highest on "${title}".`;
+};
+
+const getContent = (template: EmailTemplate, data: EmailData): EmailContent => {
+  const title = data.auction_title ?? "your auction";
+  // On a reverse auction the poster is the buyer and the winning supplier the seller
+  const isReverse = data.format === "reverse";
+
+  switch (template) {
+    case "won":
+      return {
+        subject: `You won "${title}"`,
+        heading: "Congratulations, you placed the winning bid",
+        paragraphs: [
+          describeWin(data, title),
+          isReverse
+            ? "The buyer will now accept the offer, decline it or send you a counter-offer."
+            : "The seller will now accept the bid, decline it or send you a counter-offer.",
+        ],
+        action: "View auction",
+      };
+    case "outbid":
+      return {
+        subject: `You've been outbid on "${title}"`,
+        heading: "Someone placed a higher bid",
+        paragraphs: [`The price on "${title}" is now ${formatAmount(data.amount)}.`],
+        action: "Bid again",
+      };
+    case "accepted":
+      return data.role === "seller"
+        ? {
+            subject: `Sale confirmed: "${title}"`,
+            heading: "Your sale is confirmed",
+            paragraphs: [
+              isReverse
+                ? `Your offer to supply "${title}" for ${formatAmount(data.amount)} has been accepted.`
+                : `"${title}" has sold for ${formatAmount(data.amount)}.`,
+            ],
+            action: "View sale",
+          }
+        : {
+            subject: `Purchase confirmed: "${title}"`,
+            heading: "Your purchase is confirmed",
+            paragraphs: [
+              isReverse
+                ? `Your order for "${title}" at ${formatAmount(data.amount)} is confirmed.`
+                : `The seller confirmed your purchase of "${title}" for ${formatAmount(data.amount)}.`,
+            ],
+            action: "View purchase",
+          };
+    case "countered": {
+      // role is whoever made the counter-offer
+      const author = data.role === "buyer" ? "buyer" : "seller";
+      return {
+        subject: `Counter-offer on "${title}"`,
+        heading: `The ${author} sent you a counter-offer`,
+        paragraphs: [
+          author === "buyer"
+            ? `${isReverse ? "Your winning offer" : "The winning bid"} was ${formatAmount(data.amount)}. The buyer is offering ${formatAmount(data.counter_amount)}.`
+            : `${isReverse ? "The winning offer" : "Your winning bid"} was ${formatAmount(data.amount)}. The seller is asking ${formatAmount(data.counter_amount)}.`,
+          ...(data.message ? [`Message from the ${author}: "${data.message}"`] : []),
+          ...(data.expires_at ? [`The offer expires ${formatDeadline(data.expires_at)}.`] : []),
+        ],
+        action: "Respond to offer",
+      };
+    }
+    case "rejected": {
+      // role is the recipient's side of the sale
+      const other = data.role === "seller" ? "buyer" : "seller";
+      return data.counter
+        ? {
+            subject: `Counter-offer declined: "${title}"`,
+            heading: `The ${other} declined your counter-offer`,
+            paragraphs: [`The ${other} declined your counter-offer of ${formatAmount(data.amount)} on "${title}".`],
+            action: "View auction",
+          }
+        : isReverse
+        ? {
+            subject: `Offer declined: "${title}"`,
+            heading: "The buyer declined your winning offer",
+            paragraphs: [`The buyer decided not to go ahead with your offer of ${formatAmount(data.amount)} on "${title}".`],
+            action: "Browse auctions",
+          }
+        : {
+            subject: `Bid declined: "${title}"`,
+            heading: "The seller declined your winning bid",
+            paragraphs: [`The seller decided not to sell "${title}" for ${formatAmount(data.amount)}.`],
+            action: "Browse auctions",
+          };
+    }
+    case "second_chance":
+      return {
+        subject: `Second chance: "${title}"`,
+        heading: isReverse ? "The order is available to you" : "The item is available to you",
+        paragraphs: [
+          isReverse
+            ? `The order for "${title}" with the winning supplier fell through. The buyer is offering it to you at your offer of ${formatAmount(data.amount)}.`
+            : `The sale of "${title}" to the winning bidder fell through. The seller is offering it to you at your bid of ${formatAmount(data.amount)}.`,
+          ...(data.expires_at ? [`The offer expires ${formatDeadline(data.expires_at)}.`] : []),
+        ],
+        action: "Respond to offer",
+      };
+  }
+};
+
+export const renderEmail = (
+  template: EmailTemplate,
+  data: EmailData,
+  siteUrl: string
+): RenderedEmail => {
+  const content = getContent(template, data);
+  const greeting = `Hi ${data.recipient_name || "there"},`;
+  const link = data.auction_id ? `${siteUrl}/auction/${data.auction_id}` : siteUrl;
+
+  const text = [greeting, "", ...content.paragraphs, "", `${content.action}: ${link}`, "", "— Chrono-Bid"].join("\n");
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <h2>${escapeHtml(content.heading)}</h2>
+    <p>${escapeHtml(greeting)}</p>
+    ${content.paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join("\n    ")}
+    <p>
+      <a href="${escapeHtml(link)}" style="display: inline-block; padding: 10px 16px; background: #4f46e5; color: #ffffff; border-radius: 6px; text-decoration: none;">
+        ${escapeHtml(content.action)}
+      </a>
+    </p>
+    <p style="color: #6b7280; font-size: 12px;">Chrono-Bid</p>
+  </body>
+</html>`;
+
+  return { subject: content.subject, html, text };
+};
@@ -0,0 +1,82 @@
+-- Place bids atomically on the server instead of inserting the bid and
+-- updating the auction as two separate requests from the browser
+
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_minimum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL;
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price);
+
+  IF v_auction.status IN ('ended', 'cancelled') THEN
+    RETURN QUERY SELECT false, 'auction_not_active'::TEXT, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid;
+    RETURN;
+  END IF;
+
+  IF now() < v_auction.start_time THEN
+    RETURN QUERY SELECT false, 'auction_not_started'::TEXT, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid;
+    RETURN;
+  END IF;
+
+  IF now() >= v_auction.end_time THEN
+    RETURN QUERY SELECT false, 'auction_ended'::TEXT, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid;
+    RETURN;
+  END IF;
+
+  IF v_auction.seller_id = v_bidder_id THEN
+    RETURN QUERY SELECT false, 'own_auction'::TEXT, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid;
+    RETURN;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < v_minimum_bid THEN
+    RETURN QUERY SELECT false, 'bid_too_low'::TEXT, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, p_amount, p_amount + v_auction.bid_increment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_bid(UUID, DECIMAL) TO authenticated;
+
+-- Bids may only be created through place_bid
+DROP POLICY IF EXISTS "Authenticated users can place bids" ON public.bids;
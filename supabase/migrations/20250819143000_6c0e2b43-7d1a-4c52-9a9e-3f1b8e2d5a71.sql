@@ -0,0 +1,292 @@
+-- Proxy (maximum) bidding: a bidder registers a hidden ceiling and the bid
+-- engine raises their visible bid by bid_increment whenever they are outbid
+
+ALTER TABLE public.bids ADD COLUMN is_automatic BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.proxy_bids (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  bidder_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  max_amount DECIMAL(10,2) NOT NULL,
+  placed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (auction_id, bidder_id)
+);
+
+ALTER TABLE public.proxy_bids ENABLE ROW LEVEL SECURITY;
+
+-- Maximum bids stay hidden from everyone but their owner; writes go through set_max_bid
+CREATE POLICY "Bidders can view their own proxy bids" ON public.proxy_bids
+  FOR SELECT USING (auth.uid() = bidder_id);
+
+CREATE TRIGGER update_proxy_bids_updated_at
+  BEFORE UPDATE ON public.proxy_bids
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.proxy_bids REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.proxy_bids;
+
+-- Shared eligibility checks for anything that bids on an auction
+CREATE OR REPLACE FUNCTION public.bid_rejection_reason(p_auction public.auctions, p_bidder_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_auction.status IN ('ended', 'cancelled') THEN
+    RETURN 'auction_not_active';
+  ELSIF now() < p_auction.start_time THEN
+    RETURN 'auction_not_started';
+  ELSIF now() >= p_auction.end_time THEN
+    RETURN 'auction_ended';
+  ELSIF p_auction.seller_id = p_bidder_id THEN
+    RETURN 'own_auction';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Settle competing proxies against the standing high bid. The caller must
+-- hold the auction row lock. The highest ceiling wins, earliest placement
+-- breaks ties, and the winner pays one increment over the runner-up.
+CREATE OR REPLACE FUNCTION public.resolve_proxy_bids(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_leader_ceiling DECIMAL;
+  v_leader_placed_at TIMESTAMP WITH TIME ZONE;
+  v_candidate RECORD;
+  v_winner_id UUID;
+  v_winner_ceiling DECIMAL;
+  v_runner_up_ceiling DECIMAL;
+  v_price DECIMAL;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.highest_bidder_id IS NOT NULL THEN
+    SELECT GREATEST(v_auction.current_highest_bid, pb.max_amount),
+           CASE WHEN pb.max_amount >= v_auction.current_highest_bid THEN pb.placed_at END
+    INTO v_leader_ceiling, v_leader_placed_at
+    FROM public.proxy_bids pb
+    WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_auction.highest_bidder_id;
+
+    v_leader_ceiling := COALESCE(v_leader_ceiling, v_auction.current_highest_bid);
+
+    IF v_leader_placed_at IS NULL THEN
+      SELECT max(b.created_at) INTO v_leader_placed_at
+      FROM public.bids b
+      WHERE b.auction_id = p_auction_id AND b.bidder_id = v_auction.highest_bidder_id;
+    END IF;
+  END IF;
+
+  FOR v_candidate IN
+    SELECT c.bidder_id, c.ceiling
+    FROM (
+      SELECT pb.bidder_id, pb.max_amount AS ceiling, pb.placed_at
+      FROM public.proxy_bids pb
+      WHERE pb.auction_id = p_auction_id
+        AND pb.bidder_id IS DISTINCT FROM v_auction.highest_bidder_id
+        AND pb.max_amount >= COALESCE(v_auction.current_highest_bid, v_auction.starting_price)
+      UNION ALL
+      SELECT v_auction.highest_bidder_id, v_leader_ceiling, v_leader_placed_at
+      WHERE v_auction.highest_bidder_id IS NOT NULL
+    ) c
+    ORDER BY c.ceiling DESC, c.placed_at ASC
+    LIMIT 2
+  LOOP
+    IF v_winner_id IS NULL THEN
+      v_winner_id := v_candidate.bidder_id;
+      v_winner_ceiling := v_candidate.ceiling;
+    ELSE
+      v_runner_up_ceiling := v_candidate.ceiling;
+    END IF;
+  END LOOP;
+
+  IF v_winner_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_runner_up_ceiling IS NULL THEN
+    -- Nobody to compete with: an unopposed proxy opens at the starting price
+    IF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id THEN
+      RETURN;
+    END IF;
+    v_price := v_auction.starting_price;
+  ELSE
+    v_price := LEAST(v_winner_ceiling, v_runner_up_ceiling + v_auction.bid_increment);
+  END IF;
+
+  IF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id
+     AND v_price <= v_auction.current_highest_bid THEN
+    RETURN;
+  END IF;
+
+  -- clock_timestamp keeps automatic bids ordered after the bid that triggered them
+  INSERT INTO public.bids (auction_id, bidder_id, amount, is_automatic, created_at)
+  VALUES (p_auction_id, v_winner_id, v_price, true, clock_timestamp());
+
+  UPDATE public.auctions
+  SET current_highest_bid = v_price,
+      highest_bidder_id = v_winner_id
+  WHERE id = p_auction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_proxy_bids(UUID) FROM PUBLIC, anon, authenticated;
+
+-- place_bid now reports whether the bidder is still leading after proxies respond
+DROP FUNCTION public.place_bid(UUID, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_minimum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price);
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + v_auction.bid_increment,
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_bid(UUID, DECIMAL) TO authenticated;
+
+-- Register or raise a hidden maximum bid
+CREATE OR REPLACE FUNCTION public.set_max_bid(p_auction_id UUID, p_max_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  max_amount DECIMAL,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_existing_max DECIMAL;
+  v_minimum_max DECIMAL;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  SELECT pb.max_amount INTO v_existing_max
+  FROM public.proxy_bids pb
+  WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_bidder_id;
+
+  -- A maximum can be raised but never lowered
+  v_minimum_max := GREATEST(
+    COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price),
+    COALESCE(v_existing_max, 0)
+  );
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  IF v_reason IS NULL AND (p_max_amount IS NULL OR p_max_amount < v_minimum_max) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, v_existing_max, v_auction.current_highest_bid, v_minimum_max,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.proxy_bids (auction_id, bidder_id, max_amount)
+  VALUES (p_auction_id, v_bidder_id, p_max_amount)
+  ON CONFLICT (auction_id, bidder_id)
+  DO UPDATE SET max_amount = EXCLUDED.max_amount, placed_at = now();
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, p_max_amount, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + v_auction.bid_increment,
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_max_bid(UUID, DECIMAL) TO authenticated;
@@ -0,0 +1,46 @@
+-- Anti-sniping soft close: a bid landing in the closing window pushes end_time out
+
+ALTER TABLE public.auctions
+  ADD COLUMN soft_close_window_seconds INTEGER CHECK (soft_close_window_seconds > 0),
+  ADD COLUMN soft_close_extension_seconds INTEGER CHECK (soft_close_extension_seconds > 0),
+  ADD COLUMN soft_close_max_extensions INTEGER CHECK (soft_close_max_extensions >= 0),
+  ADD COLUMN extension_count INTEGER NOT NULL DEFAULT 0,
+  ADD CONSTRAINT auctions_soft_close_check CHECK (
+    (soft_close_window_seconds IS NULL) = (soft_close_extension_seconds IS NULL)
+  );
+
+-- Runs whenever the leading price moves, so every bid path (manual bids and
+-- automatic proxy bids alike) is covered by the same rule
+CREATE OR REPLACE FUNCTION public.apply_soft_close()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_extended_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.soft_close_window_seconds IS NULL
+     OR NEW.end_time <= now()
+     OR NEW.end_time - now() > make_interval(secs => NEW.soft_close_window_seconds)
+     OR (NEW.soft_close_max_extensions IS NOT NULL AND NEW.extension_count >= NEW.soft_close_max_extensions) THEN
+    RETURN NEW;
+  END IF;
+
+  v_extended_end := now() + make_interval(secs => NEW.soft_close_extension_seconds);
+
+  IF v_extended_end > NEW.end_time THEN
+    NEW.end_time = v_extended_end;
+    NEW.extension_count = NEW.extension_count + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to sort before update_auction_status_trigger so the status check sees the new end
+CREATE TRIGGER apply_soft_close_trigger
+  BEFORE UPDATE ON public.auctions
+  FOR EACH ROW
+  WHEN (NEW.current_highest_bid IS DISTINCT FROM OLD.current_highest_bid)
+  EXECUTE FUNCTION public.apply_soft_close();
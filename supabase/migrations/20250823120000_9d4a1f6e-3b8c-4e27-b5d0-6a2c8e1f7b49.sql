@@ -0,0 +1,100 @@
+-- Drive auction lifecycle transitions from a scheduler instead of relying on
+-- a row update to fire update_auction_status()
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+-- Set once the end-of-auction workflow has run, so it never runs twice
+ALTER TABLE public.auctions ADD COLUMN finalized_at TIMESTAMP WITH TIME ZONE;
+
+-- Only one transaction per auction may come out of finalization
+CREATE UNIQUE INDEX transactions_auction_id_key ON public.transactions (auction_id);
+
+-- End-of-auction workflow. The caller must hold the auction row lock.
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now()
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.highest_bidder_id IS NOT NULL THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id) DO NOTHING;
+
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (v_auction.seller_id, v_auction.id, 'auction_ended', 'Your auction has ended',
+       format('"%s" closed at $%s. Review the winning bid to accept, reject or counter.',
+              v_auction.title, to_char(v_auction.current_highest_bid, 'FM999999990.00')),
+       jsonb_build_object('final_amount', v_auction.current_highest_bid)),
+      (v_auction.highest_bidder_id, v_auction.id, 'auction_ended', 'You won the auction',
+       format('Your bid of $%s is the highest on "%s". The seller will confirm the sale shortly.',
+              to_char(v_auction.current_highest_bid, 'FM999999990.00'), v_auction.title),
+       jsonb_build_object('final_amount', v_auction.current_highest_bid));
+  ELSE
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+    VALUES (v_auction.seller_id, v_auction.id, 'auction_ended', 'Your auction has ended',
+            format('"%s" closed without any bids.', v_auction.title));
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finalize_auction(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Promote auctions whose start time has passed and finalize those whose end
+-- time has passed. Rows locked by an in-flight bid are picked up on the next run.
+CREATE OR REPLACE FUNCTION public.process_auction_lifecycle()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction_id UUID;
+BEGIN
+  UPDATE public.auctions
+  SET status = 'active'
+  WHERE id IN (
+    SELECT a.id
+    FROM public.auctions a
+    WHERE a.status = 'pending'
+      AND a.start_time <= now()
+      AND a.end_time > now()
+    FOR UPDATE SKIP LOCKED
+  );
+
+  FOR v_auction_id IN
+    SELECT a.id
+    FROM public.auctions a
+    WHERE a.finalized_at IS NULL
+      AND a.status <> 'cancelled'
+      AND a.end_time <= now()
+    ORDER BY a.end_time
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.finalize_auction(v_auction_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_auction_lifecycle() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'process-auction-lifecycle',
+  '5 seconds',
+  $$SELECT public.process_auction_lifecycle()$$
+);
@@ -0,0 +1,79 @@
+-- Seller decision workflow: accept, reject or counter the winning bid, with
+-- the buyer answering a counter-offer. All transitions go through
+-- respond_to_transaction instead of direct table updates.
+
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_status_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'countered', 'accepted', 'rejected', 'completed'));
+
+ALTER TABLE public.transactions ADD COLUMN responded_at TIMESTAMP WITH TIME ZONE;
+
+-- Transactions are created by finalize_auction and changed by respond_to_transaction only
+DROP POLICY IF EXISTS "System can create transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Sellers can update transactions" ON public.transactions;
+
+CREATE OR REPLACE FUNCTION public.respond_to_transaction(
+  p_transaction_id UUID,
+  p_action TEXT,
+  p_counter_amount DECIMAL DEFAULT NULL,
+  p_counter_message TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_transaction public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL
+     OR v_user_id NOT IN (v_transaction.seller_id, v_transaction.buyer_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_user_id = v_transaction.seller_id AND v_transaction.status = 'pending' THEN
+    IF p_action = 'accept' THEN
+      v_transaction.status := 'accepted';
+    ELSIF p_action = 'reject' THEN
+      v_transaction.status := 'rejected';
+    ELSIF p_action = 'counter' THEN
+      IF p_counter_amount IS NULL OR p_counter_amount <= v_transaction.final_amount THEN
+        RAISE EXCEPTION 'Counter-offer must be higher than the winning bid of $%', v_transaction.final_amount;
+      END IF;
+      v_transaction.status := 'countered';
+      v_transaction.counter_offer_amount := p_counter_amount;
+      v_transaction.counter_offer_message := NULLIF(btrim(p_counter_message), '');
+    ELSE
+      RAISE EXCEPTION 'The seller cannot % a pending transaction', p_action;
+    END IF;
+  ELSIF v_user_id = v_transaction.buyer_id AND v_transaction.status = 'countered' THEN
+    IF p_action = 'accept' THEN
+      v_transaction.status := 'accepted';
+    ELSIF p_action = 'reject' THEN
+      v_transaction.status := 'rejected';
+    ELSE
+      RAISE EXCEPTION 'The buyer cannot % a counter-offer', p_action;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'This transaction is not awaiting your response';
+  END IF;
+
+  UPDATE public.transactions
+  SET status = v_transaction.status,
+      counter_offer_amount = v_transaction.counter_offer_amount,
+      counter_offer_message = v_transaction.counter_offer_message,
+      responded_at = now()
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_transaction(UUID, TEXT, DECIMAL, TEXT) TO authenticated;
@@ -0,0 +1,170 @@
+-- In-app notifications generated by triggers on bids, auctions and transactions
+
+-- Notifications are written by the triggers below only
+DROP POLICY IF EXISTS "System can create notifications" ON public.notifications;
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.format_amount(p_amount DECIMAL)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT '$' || to_char(p_amount, 'FM999999990.00');
+$$;
+
+-- Tell the seller about every bid
+CREATE OR REPLACE FUNCTION public.notify_new_bid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  VALUES (
+    v_auction.seller_id, v_auction.id, 'new_bid', 'New bid received',
+    format('%s bid on "%s".', public.format_amount(NEW.amount), v_auction.title),
+    jsonb_build_object('bid_id', NEW.id, 'amount', NEW.amount)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_bid_trigger
+  AFTER INSERT ON public.bids
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_bid();
+
+-- Tell the previous leader they were outbid, and the seller and winner when the auction closes
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid', 'You have been outbid',
+      format('The price on "%s" is now %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.highest_bidder_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_auction_change_trigger
+  AFTER UPDATE ON public.auctions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_auction_change();
+
+-- Tell the other party about every decision on a transaction
+CREATE OR REPLACE FUNCTION public.notify_transaction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_title TEXT;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_title FROM public.auctions WHERE id = NEW.auction_id;
+
+  IF OLD.status = 'pending' AND NEW.status = 'accepted' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (NEW.buyer_id, NEW.auction_id, 'bid_accepted', 'Your bid was accepted',
+            format('The seller accepted your bid of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+            jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'pending' AND NEW.status = 'rejected' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (NEW.buyer_id, NEW.auction_id, 'bid_rejected', 'Your bid was rejected',
+            format('The seller declined your winning bid on "%s".', v_title),
+            jsonb_build_object('transaction_id', NEW.id));
+  ELSIF NEW.status = 'countered' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (NEW.buyer_id, NEW.auction_id, 'counter_offer', 'You received a counter-offer',
+            format('The seller countered at %s on "%s".', public.format_amount(NEW.counter_offer_amount), v_title),
+            jsonb_build_object('transaction_id', NEW.id, 'amount', NEW.counter_offer_amount));
+  ELSIF OLD.status = 'countered' AND NEW.status = 'accepted' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (NEW.seller_id, NEW.auction_id, 'bid_accepted', 'Counter-offer accepted',
+            format('The buyer accepted your counter-offer of %s on "%s".', public.format_amount(NEW.counter_offer_amount), v_title),
+            jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'countered' AND NEW.status = 'rejected' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (NEW.seller_id, NEW.auction_id, 'bid_rejected', 'Counter-offer declined',
+            format('The buyer declined your counter-offer on "%s".', v_title),
+            jsonb_build_object('transaction_id', NEW.id));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_transaction_change_trigger
+  AFTER UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_transaction_change();
+
+-- Closing notifications now come from notify_auction_change
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now()
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.highest_bidder_id IS NOT NULL THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id) DO NOTHING;
+  END IF;
+END;
+$$;
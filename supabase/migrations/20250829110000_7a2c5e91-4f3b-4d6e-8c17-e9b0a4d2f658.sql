@@ -0,0 +1,172 @@
+-- Outbound email queue. Triggers enqueue templated messages; the send-emails
+-- edge function renders and delivers them through the configured transport.
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE TABLE public.email_queue (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  auction_id UUID REFERENCES public.auctions(id) ON DELETE SET NULL,
+  to_email TEXT NOT NULL,
+  template TEXT NOT NULL CHECK (template IN ('won', 'outbid', 'accepted', 'countered', 'rejected')),
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Only the service role (the send-emails function) reads or writes the queue
+ALTER TABLE public.email_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX email_queue_pending_idx ON public.email_queue (created_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_email_queue_updated_at
+  BEFORE UPDATE ON public.email_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.enqueue_email(
+  p_user_id UUID,
+  p_auction_id UUID,
+  p_template TEXT,
+  p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_profile FROM public.profiles WHERE user_id = p_user_id;
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_profile.email IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.email_queue (user_id, auction_id, to_email, template, data)
+  VALUES (
+    p_user_id, p_auction_id, v_profile.email, p_template,
+    jsonb_build_object(
+      'recipient_name', v_profile.full_name,
+      'auction_id', v_auction.id,
+      'auction_title', v_auction.title
+    ) || p_data
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_email(UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.enqueue_transaction_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'won',
+      jsonb_build_object('amount', NEW.final_amount));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    -- Confirmation goes to both sides of the sale
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'buyer', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'seller', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+  ELSIF NEW.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'countered',
+      jsonb_build_object('amount', NEW.final_amount, 'counter_amount', NEW.counter_offer_amount,
+                         'message', NEW.counter_offer_message));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'seller', 'amount', NEW.counter_offer_amount));
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'buyer', 'amount', NEW.final_amount));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_transaction_emails_trigger
+  AFTER INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_transaction_emails();
+
+CREATE OR REPLACE FUNCTION public.enqueue_outbid_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.enqueue_email(OLD.highest_bidder_id, NEW.id, 'outbid',
+    jsonb_build_object('amount', NEW.current_highest_bid));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_outbid_email_trigger
+  AFTER UPDATE ON public.auctions
+  FOR EACH ROW
+  WHEN (OLD.highest_bidder_id IS NOT NULL AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id)
+  EXECUTE FUNCTION public.enqueue_outbid_email();
+
+-- Hand a batch of pending emails to one sender. Failed sends are retried up to five times.
+CREATE OR REPLACE FUNCTION public.claim_email_batch(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_queue q
+  SET status = 'sending',
+      attempts = q.attempts + 1
+  WHERE q.id IN (
+    SELECT e.id
+    FROM public.email_queue e
+    WHERE e.status = 'pending'
+       OR (e.status = 'failed' AND e.attempts < 5)
+    ORDER BY e.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_batch(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_batch(INTEGER) TO service_role;
+
+-- Kick the sender every 30 seconds. project_url and service_role_key live in Vault.
+SELECT cron.schedule(
+  'send-queued-emails',
+  '30 seconds',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,76 @@
+-- Invoices: accepted transactions get a sequential invoice number, and the
+-- generate-invoice edge function renders the document into Storage and
+-- records its path in transactions.invoice_url
+
+CREATE SEQUENCE public.invoice_number_seq;
+
+ALTER TABLE public.transactions ADD COLUMN invoice_number TEXT UNIQUE;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoices', 'invoices', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Invoices are stored as <transaction_id>/<invoice_number>.html and readable by both parties
+CREATE POLICY "Buyers and sellers can read their invoices" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'invoices'
+    AND EXISTS (
+      SELECT 1
+      FROM public.transactions t
+      WHERE t.id::text = (storage.foldername(name))[1]
+        AND (auth.uid() = t.seller_id OR auth.uid() = t.buyer_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status IN ('accepted', 'completed') AND NEW.invoice_number IS NULL THEN
+    NEW.invoice_number := format('INV-%s-%s',
+      to_char(now(), 'YYYY'),
+      lpad(nextval('public.invoice_number_seq')::text, 6, '0'));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_invoice_number_trigger
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Ask the edge function to render the invoice once a number has been assigned
+CREATE OR REPLACE FUNCTION public.request_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/generate-invoice',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('transaction_id', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER request_invoice_on_insert_trigger
+  AFTER INSERT ON public.transactions
+  FOR EACH ROW
+  WHEN (NEW.invoice_number IS NOT NULL)
+  EXECUTE FUNCTION public.request_invoice();
+
+CREATE TRIGGER request_invoice_on_update_trigger
+  AFTER UPDATE ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.invoice_number IS NULL AND NEW.invoice_number IS NOT NULL)
+  EXECUTE FUNCTION public.request_invoice();
@@ -0,0 +1,264 @@
+-- Hidden reserve prices. The amount lives in its own table that only the
+-- seller can read; everyone else sees auctions.has_reserve and reserve_met.
+
+CREATE TABLE public.auction_reserves (
+  auction_id UUID NOT NULL PRIMARY KEY REFERENCES public.auctions(id) ON DELETE CASCADE,
+  reserve_price DECIMAL(10,2) NOT NULL CHECK (reserve_price > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.auction_reserves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can view their reserves" ON public.auction_reserves
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.auctions a WHERE a.id = auction_id AND a.seller_id = auth.uid())
+  );
+-- A reserve can only be set before the auction opens
+CREATE POLICY "Sellers can set reserves before the auction starts" ON public.auction_reserves
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.auctions a
+      WHERE a.id = auction_id AND a.seller_id = auth.uid() AND a.status = 'pending'
+    )
+  );
+
+CREATE TRIGGER update_auction_reserves_updated_at
+  BEFORE UPDATE ON public.auction_reserves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.auctions
+  ADD COLUMN has_reserve BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN reserve_met BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN outcome TEXT CHECK (outcome IN ('winning_bid', 'no_bids', 'reserve_not_met'));
+
+CREATE OR REPLACE FUNCTION public.is_reserve_met(p_auction_id UUID, p_amount DECIMAL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(p_amount >= r.reserve_price, p_amount IS NOT NULL)
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.auction_reserves r ON r.auction_id = p_auction_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_reserve_met(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_reserve_met()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.reserve_met := public.is_reserve_met(NEW.id, NEW.current_highest_bid);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_reserve_met_trigger
+  BEFORE UPDATE ON public.auctions
+  FOR EACH ROW
+  WHEN (NEW.current_highest_bid IS DISTINCT FROM OLD.current_highest_bid)
+  EXECUTE FUNCTION public.sync_reserve_met();
+
+CREATE OR REPLACE FUNCTION public.sync_auction_reserve_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.auctions
+  SET has_reserve = true,
+      reserve_met = public.is_reserve_met(NEW.auction_id, current_highest_bid)
+  WHERE id = NEW.auction_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_auction_reserve_flag_trigger
+  AFTER INSERT OR UPDATE ON public.auction_reserves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_auction_reserve_flag();
+
+-- A proxy whose ceiling clears the reserve bids straight up to the reserve, eBay-style
+CREATE OR REPLACE FUNCTION public.resolve_proxy_bids(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_reserve_price DECIMAL;
+  v_leader_ceiling DECIMAL;
+  v_leader_placed_at TIMESTAMP WITH TIME ZONE;
+  v_candidate RECORD;
+  v_winner_id UUID;
+  v_winner_ceiling DECIMAL;
+  v_runner_up_ceiling DECIMAL;
+  v_price DECIMAL;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+  SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+  IF v_auction.highest_bidder_id IS NOT NULL THEN
+    SELECT GREATEST(v_auction.current_highest_bid, pb.max_amount),
+           CASE WHEN pb.max_amount >= v_auction.current_highest_bid THEN pb.placed_at END
+    INTO v_leader_ceiling, v_leader_placed_at
+    FROM public.proxy_bids pb
+    WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_auction.highest_bidder_id;
+
+    v_leader_ceiling := COALESCE(v_leader_ceiling, v_auction.current_highest_bid);
+
+    IF v_leader_placed_at IS NULL THEN
+      SELECT max(b.created_at) INTO v_leader_placed_at
+      FROM public.bids b
+      WHERE b.auction_id = p_auction_id AND b.bidder_id = v_auction.highest_bidder_id;
+    END IF;
+  END IF;
+
+  FOR v_candidate IN
+    SELECT c.bidder_id, c.ceiling
+    FROM (
+      SELECT pb.bidder_id, pb.max_amount AS ceiling, pb.placed_at
+      FROM public.proxy_bids pb
+      WHERE pb.auction_id = p_auction_id
+        AND pb.bidder_id IS DISTINCT FROM v_auction.highest_bidder_id
+        AND pb.max_amount >= COALESCE(v_auction.current_highest_bid, v_auction.starting_price)
+      UNION ALL
+      SELECT v_auction.highest_bidder_id, v_leader_ceiling, v_leader_placed_at
+      WHERE v_auction.highest_bidder_id IS NOT NULL
+    ) c
+    ORDER BY c.ceiling DESC, c.placed_at ASC
+    LIMIT 2
+  LOOP
+    IF v_winner_id IS NULL THEN
+      v_winner_id := v_candidate.bidder_id;
+      v_winner_ceiling := v_candidate.ceiling;
+    ELSE
+      v_runner_up_ceiling := v_candidate.ceiling;
+    END IF;
+  END LOOP;
+
+  IF v_winner_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_runner_up_ceiling IS NOT NULL THEN
+    v_price := LEAST(v_winner_ceiling, v_runner_up_ceiling + v_auction.bid_increment);
+  ELSIF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id THEN
+    v_price := v_auction.current_highest_bid;
+  ELSE
+    -- Nobody to compete with: an unopposed proxy opens at the starting price
+    v_price := v_auction.starting_price;
+  END IF;
+
+  IF v_reserve_price IS NOT NULL AND v_price < v_reserve_price THEN
+    v_price := LEAST(v_winner_ceiling, v_reserve_price);
+  END IF;
+
+  IF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id
+     AND v_price <= v_auction.current_highest_bid THEN
+    RETURN;
+  END IF;
+
+  -- clock_timestamp keeps automatic bids ordered after the bid that triggered them
+  INSERT INTO public.bids (auction_id, bidder_id, amount, is_automatic, created_at)
+  VALUES (p_auction_id, v_winner_id, v_price, true, clock_timestamp());
+
+  UPDATE public.auctions
+  SET current_highest_bid = v_price,
+      highest_bidder_id = v_winner_id
+  WHERE id = p_auction_id;
+END;
+$$;
+
+-- Auctions that close below their reserve end without a sale
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid', 'You have been outbid',
+      format('The price on "%s" is now %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
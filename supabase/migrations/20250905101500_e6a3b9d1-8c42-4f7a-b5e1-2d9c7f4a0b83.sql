@@ -0,0 +1,213 @@
+-- Buy It Now: an optional fixed price that ends the auction immediately,
+-- offered until bidding goes past a configurable threshold
+
+ALTER TABLE public.auctions
+  ADD COLUMN buy_now_price DECIMAL(10,2) CHECK (buy_now_price > 0),
+  ADD COLUMN buy_now_threshold DECIMAL(10,2) CHECK (buy_now_threshold >= 0),
+  ADD CONSTRAINT auctions_buy_now_threshold_check CHECK (
+    buy_now_threshold IS NULL OR (buy_now_price IS NOT NULL AND buy_now_threshold < buy_now_price)
+  );
+
+ALTER TABLE public.auctions DROP CONSTRAINT auctions_outcome_check;
+ALTER TABLE public.auctions ADD CONSTRAINT auctions_outcome_check
+  CHECK (outcome IN ('winning_bid', 'no_bids', 'reserve_not_met', 'bought_now'));
+
+-- Without a threshold Buy It Now disappears with the first bid
+CREATE OR REPLACE FUNCTION public.is_buy_now_available(p_auction public.auctions)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT p_auction.buy_now_price IS NOT NULL
+    AND (
+      p_auction.current_highest_bid IS NULL
+      OR p_auction.current_highest_bid <= p_auction.buy_now_threshold
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.buy_now(p_auction_id UUID)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  transaction_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_buyer_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_transaction_id UUID;
+BEGIN
+  IF v_buyer_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  v_reason := public.bid_rejection_reason(v_auction, v_buyer_id);
+
+  IF v_reason IS NULL AND NOT public.is_buy_now_available(v_auction) THEN
+    v_reason := 'buy_now_unavailable';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID;
+    RETURN;
+  END IF;
+
+  -- Closing and finalizing in one statement keeps the scheduler from finalizing it again
+  UPDATE public.auctions
+  SET current_highest_bid = v_auction.buy_now_price,
+      highest_bidder_id = v_buyer_id,
+      end_time = now(),
+      status = 'ended',
+      finalized_at = now(),
+      outcome = 'bought_now'
+  WHERE id = p_auction_id;
+
+  INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, status, responded_at)
+  VALUES (p_auction_id, v_auction.seller_id, v_buyer_id, v_auction.buy_now_price, 'accepted', now())
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_transaction_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.buy_now(UUID) TO authenticated;
+
+-- Buy It Now closes the auction rather than outbidding anyone, so it gets its
+-- own messages and every bidder still in the running hears about it
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+     AND NEW.outcome IS DISTINCT FROM 'bought_now' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid', 'You have been outbid',
+      format('The price on "%s" is now %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSIF NEW.outcome = 'bought_now' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Sold with Buy It Now',
+         format('"%s" sold for %s with Buy It Now.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" for %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'Auction ended',
+        format('"%s" was sold to another buyer with Buy It Now.', NEW.title),
+        jsonb_build_object('outcome', NEW.outcome)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.bidder_id <> NEW.highest_bidder_id;
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER enqueue_outbid_email_trigger ON public.auctions;
+
+CREATE TRIGGER enqueue_outbid_email_trigger
+  AFTER UPDATE ON public.auctions
+  FOR EACH ROW
+  WHEN (
+    OLD.highest_bidder_id IS NOT NULL
+    AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+    AND NEW.outcome IS DISTINCT FROM 'bought_now'
+  )
+  EXECUTE FUNCTION public.enqueue_outbid_email();
+
+-- A transaction that starts out accepted (Buy It Now) is confirmed to both sides straight away
+CREATE OR REPLACE FUNCTION public.enqueue_transaction_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status <> 'accepted' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'won',
+      jsonb_build_object('amount', NEW.final_amount));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    -- Confirmation goes to both sides of the sale
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'buyer', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'seller', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+  ELSIF NEW.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'countered',
+      jsonb_build_object('amount', NEW.final_amount, 'counter_amount', NEW.counter_offer_amount,
+                         'message', NEW.counter_offer_message));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'seller', 'amount', NEW.counter_offer_amount));
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'buyer', 'amount', NEW.final_amount));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,323 @@
+-- Auction formats, starting with sealed-bid first-price: bids stay private
+-- until end_time and the highest bid (earliest on ties) is revealed at close
+
+ALTER TABLE public.auctions
+  ADD COLUMN format TEXT NOT NULL DEFAULT 'english'
+  CHECK (format IN ('english', 'sealed_first_price'));
+
+CREATE INDEX bids_auction_id_amount_idx ON public.bids (auction_id, amount DESC, created_at ASC);
+
+-- Sealed bids are visible to their bidder only until the auction closes
+DROP POLICY IF EXISTS "Anyone can view bids for auctions" ON public.bids;
+
+CREATE POLICY "Anyone can view open bids and their own bids" ON public.bids
+  FOR SELECT USING (
+    auth.uid() = bidder_id
+    OR EXISTS (
+      SELECT 1 FROM public.auctions a
+      WHERE a.id = auction_id
+        AND (a.format = 'english' OR a.end_time <= now())
+    )
+  );
+
+-- One sealed bid per bidder. The auction row is left untouched so the
+-- leading amount and bidder stay hidden until finalize_auction reveals them.
+CREATE OR REPLACE FUNCTION public.place_sealed_bid(p_auction public.auctions, p_bidder_id UUID, p_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_reason TEXT;
+  v_bid_id UUID;
+BEGIN
+  v_reason := public.bid_rejection_reason(p_auction, p_bidder_id);
+
+  IF v_reason IS NULL AND EXISTS (
+    SELECT 1 FROM public.bids b WHERE b.auction_id = p_auction.id AND b.bidder_id = p_bidder_id
+  ) THEN
+    v_reason := 'already_bid';
+  END IF;
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < p_auction.starting_price) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, NULL::DECIMAL, p_auction.starting_price, NULL::BOOLEAN;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction.id, p_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, NULL::DECIMAL, p_auction.starting_price, NULL::BOOLEAN;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_sealed_bid(public.auctions, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- place_bid dispatches on the auction format
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_minimum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'sealed_first_price' THEN
+    RETURN QUERY SELECT * FROM public.place_sealed_bid(v_auction, v_bidder_id, p_amount);
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price);
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + v_auction.bid_increment,
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+-- Maximum bids only make sense when bidders can see and answer each other
+CREATE OR REPLACE FUNCTION public.set_max_bid(p_auction_id UUID, p_max_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  max_amount DECIMAL,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_existing_max DECIMAL;
+  v_minimum_max DECIMAL;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  SELECT pb.max_amount INTO v_existing_max
+  FROM public.proxy_bids pb
+  WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_bidder_id;
+
+  -- A maximum can be raised but never lowered
+  v_minimum_max := GREATEST(
+    COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price),
+    COALESCE(v_existing_max, 0)
+  );
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  IF v_reason IS NULL AND v_auction.format <> 'english' THEN
+    v_reason := 'max_bid_not_supported';
+  END IF;
+
+  IF v_reason IS NULL AND (p_max_amount IS NULL OR p_max_amount < v_minimum_max) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, v_existing_max, v_auction.current_highest_bid, v_minimum_max,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.proxy_bids (auction_id, bidder_id, max_amount)
+  VALUES (p_auction_id, v_bidder_id, p_max_amount)
+  ON CONFLICT (auction_id, bidder_id)
+  DO UPDATE SET max_amount = EXCLUDED.max_amount, placed_at = now();
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, p_max_amount, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + v_auction.bid_increment,
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+-- A sealed auction never shows a leading bid, so Buy It Now would never expire
+CREATE OR REPLACE FUNCTION public.is_buy_now_available(p_auction public.auctions)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT p_auction.format = 'english'
+    AND p_auction.buy_now_price IS NOT NULL
+    AND (
+      p_auction.current_highest_bid IS NULL
+      OR p_auction.current_highest_bid <= p_auction.buy_now_threshold
+    );
+$$;
+
+-- Sellers are told a sealed bid arrived, not how much it was for
+CREATE OR REPLACE FUNCTION public.notify_new_bid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+
+  IF v_auction.format = 'english' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      v_auction.seller_id, v_auction.id, 'new_bid', 'New bid received',
+      format('%s bid on "%s".', public.format_amount(NEW.amount), v_auction.title),
+      jsonb_build_object('bid_id', NEW.id, 'amount', NEW.amount)
+    );
+  ELSE
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      v_auction.seller_id, v_auction.id, 'new_bid', 'New sealed bid received',
+      format('A sealed bid was submitted on "%s". Bids are revealed when the auction closes.', v_auction.title),
+      jsonb_build_object('bid_id', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Sealed auctions reveal their winner here: highest amount, earliest submission on ties
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_top_bid public.bids%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.finalized_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'sealed_first_price' THEN
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    IF FOUND THEN
+      UPDATE public.auctions
+      SET current_highest_bid = v_top_bid.amount,
+          highest_bidder_id = v_top_bid.bidder_id
+      WHERE id = p_auction_id;
+    END IF;
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id) DO NOTHING;
+  END IF;
+END;
+$$;
@@ -0,0 +1,304 @@
+-- Vickrey (second-price sealed-bid) auctions: the highest sealed bid wins but
+-- pays one increment over the runner-up, or the starting price when alone
+
+ALTER TABLE public.auctions DROP CONSTRAINT auctions_format_check;
+ALTER TABLE public.auctions ADD CONSTRAINT auctions_format_check
+  CHECK (format IN ('english', 'sealed_first_price', 'sealed_second_price'));
+
+-- Filled in when a sealed auction is revealed. current_highest_bid holds the
+-- clearing price so reserves, transactions and emails all use what is paid.
+ALTER TABLE public.auctions
+  ADD COLUMN winning_bid DECIMAL(10,2),
+  ADD COLUMN clearing_price DECIMAL(10,2),
+  ADD COLUMN clearing_price_basis TEXT
+    CHECK (clearing_price_basis IN ('winning_bid', 'second_bid', 'starting_price', 'reserve_price'));
+
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_minimum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    RETURN QUERY SELECT * FROM public.place_sealed_bid(v_auction, v_bidder_id, p_amount);
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price);
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + v_auction.bid_increment,
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+-- Reveal sealed bids and work out what the winner pays. Second-price winners
+-- never pay more than they bid, but are raised to a reserve their bid clears.
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_top_bid public.bids%ROWTYPE;
+  v_second_amount DECIMAL;
+  v_reserve_price DECIMAL;
+  v_price DECIMAL;
+  v_basis TEXT;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.finalized_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF v_auction.format = 'sealed_first_price' THEN
+        v_price := v_top_bid.amount;
+        v_basis := 'winning_bid';
+      ELSE
+        SELECT b.amount INTO v_second_amount
+        FROM public.bids b
+        WHERE b.auction_id = p_auction_id AND b.id <> v_top_bid.id
+        ORDER BY b.amount DESC
+        LIMIT 1;
+
+        IF v_second_amount IS NULL THEN
+          v_price := v_auction.starting_price;
+          v_basis := 'starting_price';
+        ELSIF v_second_amount + v_auction.bid_increment >= v_top_bid.amount THEN
+          v_price := v_top_bid.amount;
+          v_basis := 'winning_bid';
+        ELSE
+          v_price := v_second_amount + v_auction.bid_increment;
+          v_basis := 'second_bid';
+        END IF;
+
+        SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+        IF v_reserve_price IS NOT NULL AND v_top_bid.amount >= v_reserve_price AND v_price < v_reserve_price THEN
+          v_price := v_reserve_price;
+          v_basis := 'reserve_price';
+        END IF;
+      END IF;
+
+      UPDATE public.auctions
+      SET current_highest_bid = v_price,
+          highest_bidder_id = v_top_bid.bidder_id,
+          winning_bid = v_top_bid.amount,
+          clearing_price = v_price,
+          clearing_price_basis = v_basis
+      WHERE id = p_auction_id;
+    END IF;
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Second-price winners are told both what they bid and what they pay
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+     AND NEW.outcome IS DISTINCT FROM 'bought_now' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid', 'You have been outbid',
+      format('The price on "%s" is now %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' AND NEW.format = 'sealed_second_price' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed with a highest sealed bid of %s and a second-price clearing price of %s. Review the sale to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.winning_bid), public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your sealed bid of %s is the highest on "%s". Under second-price rules you pay %s.',
+                public.format_amount(NEW.winning_bid), NEW.title, public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid));
+    ELSIF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid))),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid)), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSIF NEW.outcome = 'bought_now' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Sold with Buy It Now',
+         format('"%s" sold for %s with Buy It Now.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" for %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'Auction ended',
+        format('"%s" was sold to another buyer with Buy It Now.', NEW.title),
+        jsonb_build_object('outcome', NEW.outcome)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.bidder_id <> NEW.highest_bidder_id;
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The "won" email carries the sealed bid so second-price winners see both amounts
+CREATE OR REPLACE FUNCTION public.enqueue_transaction_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status <> 'accepted' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'won',
+      jsonb_build_object('amount', NEW.final_amount,
+                         'winning_bid', (SELECT a.winning_bid FROM public.auctions a WHERE a.id = NEW.auction_id)));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    -- Confirmation goes to both sides of the sale
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'buyer', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'seller', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+  ELSIF NEW.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'countered',
+      jsonb_build_object('amount', NEW.final_amount, 'counter_amount', NEW.counter_offer_amount,
+                         'message', NEW.counter_offer_message));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'seller', 'amount', NEW.counter_offer_amount));
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'buyer', 'amount', NEW.final_amount));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,313 @@
+-- Descending-price (Dutch) auctions: the price opens at starting_price and
+-- drops by a fixed step every interval down to a floor. The first bidder to
+-- accept buys at the price the server computes at that moment.
+
+ALTER TABLE public.auctions DROP CONSTRAINT auctions_format_check;
+ALTER TABLE public.auctions ADD CONSTRAINT auctions_format_check
+  CHECK (format IN ('english', 'sealed_first_price', 'sealed_second_price', 'dutch'));
+
+ALTER TABLE public.auctions
+  ADD COLUMN dutch_price_step DECIMAL(10,2) CHECK (dutch_price_step > 0),
+  ADD COLUMN dutch_step_interval_seconds INTEGER CHECK (dutch_step_interval_seconds > 0),
+  ADD COLUMN dutch_floor_price DECIMAL(10,2) CHECK (dutch_floor_price > 0),
+  ADD CONSTRAINT auctions_dutch_schedule_check CHECK (
+    format <> 'dutch' OR (
+      dutch_price_step IS NOT NULL
+      AND dutch_step_interval_seconds IS NOT NULL
+      AND dutch_floor_price IS NOT NULL
+      AND dutch_floor_price <= starting_price
+    )
+  );
+
+ALTER TABLE public.auctions DROP CONSTRAINT auctions_outcome_check;
+ALTER TABLE public.auctions ADD CONSTRAINT auctions_outcome_check
+  CHECK (outcome IN ('winning_bid', 'no_bids', 'reserve_not_met', 'bought_now', 'price_accepted'));
+
+CREATE OR REPLACE FUNCTION public.dutch_current_price(p_auction public.auctions)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT GREATEST(
+    p_auction.dutch_floor_price,
+    p_auction.starting_price - p_auction.dutch_price_step * floor(
+      GREATEST(extract(epoch FROM now() - p_auction.start_time), 0) / p_auction.dutch_step_interval_seconds
+    )
+  );
+$$;
+
+-- Takes no amount: the price is whatever the schedule says when the row lock is held
+CREATE OR REPLACE FUNCTION public.accept_dutch_price(p_auction_id UUID)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  price DECIMAL,
+  transaction_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_buyer_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_price DECIMAL;
+  v_transaction_id UUID;
+BEGIN
+  IF v_buyer_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  v_reason := public.bid_rejection_reason(v_auction, v_buyer_id);
+
+  IF v_reason IS NULL AND v_auction.format <> 'dutch' THEN
+    v_reason := 'not_dutch_auction';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  v_price := public.dutch_current_price(v_auction);
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_buyer_id, v_price);
+
+  -- Closing and finalizing in one statement keeps the scheduler from finalizing it again
+  UPDATE public.auctions
+  SET current_highest_bid = v_price,
+      highest_bidder_id = v_buyer_id,
+      end_time = now(),
+      status = 'ended',
+      finalized_at = now(),
+      outcome = 'price_accepted'
+  WHERE id = p_auction_id;
+
+  INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, status, responded_at)
+  VALUES (p_auction_id, v_auction.seller_id, v_buyer_id, v_price, 'accepted', now())
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_price, v_transaction_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_dutch_price(UUID) TO authenticated;
+
+-- Dutch auctions are bought through accept_dutch_price, never bid on
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_minimum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    RETURN QUERY SELECT * FROM public.place_sealed_bid(v_auction, v_bidder_id, p_amount);
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'dutch' THEN
+    RETURN QUERY SELECT false, 'dutch_accept_only'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price);
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + v_auction.bid_increment,
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+-- The acceptance itself closes a Dutch auction, so the seller hears about it once, as a sale
+CREATE OR REPLACE FUNCTION public.notify_new_bid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+
+  IF v_auction.format = 'english' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      v_auction.seller_id, v_auction.id, 'new_bid', 'New bid received',
+      format('%s bid on "%s".', public.format_amount(NEW.amount), v_auction.title),
+      jsonb_build_object('bid_id', NEW.id, 'amount', NEW.amount)
+    );
+  ELSIF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      v_auction.seller_id, v_auction.id, 'new_bid', 'New sealed bid received',
+      format('A sealed bid was submitted on "%s". Bids are revealed when the auction closes.', v_auction.title),
+      jsonb_build_object('bid_id', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Accepting a Dutch price is a completed sale, not a winning bid awaiting review
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+     AND NEW.outcome IS DISTINCT FROM 'bought_now' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid', 'You have been outbid',
+      format('The price on "%s" is now %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' AND NEW.format = 'sealed_second_price' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed with a highest sealed bid of %s and a second-price clearing price of %s. Review the sale to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.winning_bid), public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your sealed bid of %s is the highest on "%s". Under second-price rules you pay %s.',
+                public.format_amount(NEW.winning_bid), NEW.title, public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid));
+    ELSIF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid))),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid)), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSIF NEW.outcome = 'price_accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your Dutch auction has sold',
+         format('"%s" sold for %s when a buyer accepted the current price.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" at %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'bought_now' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Sold with Buy It Now',
+         format('"%s" sold for %s with Buy It Now.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" for %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'Auction ended',
+        format('"%s" was sold to another buyer with Buy It Now.', NEW.title),
+        jsonb_build_object('outcome', NEW.outcome)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.bidder_id <> NEW.highest_bidder_id;
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,310 @@
+-- Reverse auctions for procurement: the poster names a maximum price and
+-- suppliers bid it down. The lowest offer leads and every new offer must
+-- undercut it by at least bid_increment. current_highest_bid and
+-- highest_bidder_id hold the leading (lowest) offer for this format.
+
+ALTER TABLE public.auctions DROP CONSTRAINT auctions_format_check;
+ALTER TABLE public.auctions ADD CONSTRAINT auctions_format_check
+  CHECK (format IN ('english', 'sealed_first_price', 'sealed_second_price', 'dutch', 'reverse'));
+
+DROP POLICY IF EXISTS "Anyone can view open bids and their own bids" ON public.bids;
+
+CREATE POLICY "Anyone can view open bids and their own bids" ON public.bids
+  FOR SELECT USING (
+    auth.uid() = bidder_id
+    OR EXISTS (
+      SELECT 1 FROM public.auctions a
+      WHERE a.id = auction_id
+        AND (a.format NOT IN ('sealed_first_price', 'sealed_second_price') OR a.end_time <= now())
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_minimum_bid DECIMAL;
+  v_maximum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    RETURN QUERY SELECT * FROM public.place_sealed_bid(v_auction, v_bidder_id, p_amount);
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'dutch' THEN
+    RETURN QUERY SELECT false, 'dutch_accept_only'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  -- For reverse auctions minimum_bid carries the maximum offer allowed next
+  IF v_auction.format = 'reverse' THEN
+    v_maximum_bid := COALESCE(v_auction.current_highest_bid - v_auction.bid_increment, v_auction.starting_price);
+
+    IF v_reason IS NULL AND v_maximum_bid <= 0 THEN
+      v_reason := 'auction_not_active';
+    ELSIF v_reason IS NULL AND (p_amount IS NULL OR p_amount <= 0 OR p_amount > v_maximum_bid) THEN
+      v_reason := 'bid_too_high';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_maximum_bid,
+        v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+      RETURN;
+    END IF;
+
+    INSERT INTO public.bids (auction_id, bidder_id, amount)
+    VALUES (p_auction_id, v_bidder_id, p_amount)
+    RETURNING id INTO v_bid_id;
+
+    UPDATE public.auctions
+    SET current_highest_bid = p_amount,
+        highest_bidder_id = v_bidder_id
+    WHERE id = p_auction_id;
+
+    RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, p_amount, p_amount - v_auction.bid_increment, true;
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price);
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + v_auction.bid_increment,
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_new_bid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+
+  IF v_auction.format IN ('english', 'reverse') THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      v_auction.seller_id, v_auction.id, 'new_bid', 'New bid received',
+      format('%s bid on "%s".', public.format_amount(NEW.amount), v_auction.title),
+      jsonb_build_object('bid_id', NEW.id, 'amount', NEW.amount)
+    );
+  ELSIF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      v_auction.seller_id, v_auction.id, 'new_bid', 'New sealed bid received',
+      format('A sealed bid was submitted on "%s". Bids are revealed when the auction closes.', v_auction.title),
+      jsonb_build_object('bid_id', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Suppliers are undercut rather than outbid, and win with the lowest offer
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+     AND NEW.outcome IS DISTINCT FROM 'bought_now' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid',
+      CASE WHEN NEW.format = 'reverse' THEN 'You have been undercut' ELSE 'You have been outbid' END,
+      format(CASE WHEN NEW.format = 'reverse' THEN 'The lowest offer on "%s" is now %s.' ELSE 'The price on "%s" is now %s.' END,
+             NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' AND NEW.format = 'sealed_second_price' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed with a highest sealed bid of %s and a second-price clearing price of %s. Review the sale to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.winning_bid), public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your sealed bid of %s is the highest on "%s". Under second-price rules you pay %s.',
+                public.format_amount(NEW.winning_bid), NEW.title, public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid));
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'reverse' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your request has closed',
+         format('"%s" closed with a lowest offer of %s. Review the offer to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your offer of %s is the lowest on "%s". The buyer will confirm the order shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid))),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid)), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSIF NEW.outcome = 'price_accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your Dutch auction has sold',
+         format('"%s" sold for %s when a buyer accepted the current price.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" at %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'bought_now' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Sold with Buy It Now',
+         format('"%s" sold for %s with Buy It Now.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" for %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'Auction ended',
+        format('"%s" was sold to another buyer with Buy It Now.', NEW.title),
+        jsonb_build_object('outcome', NEW.outcome)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.bidder_id <> NEW.highest_bidder_id;
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The "won" email needs the format to say "lowest offer" for reverse auctions
+CREATE OR REPLACE FUNCTION public.enqueue_transaction_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status <> 'accepted' THEN
+    SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'won',
+      jsonb_build_object('amount', NEW.final_amount, 'winning_bid', v_auction.winning_bid,
+                         'format', v_auction.format));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    -- Confirmation goes to both sides of the sale
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'buyer', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'seller', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+  ELSIF NEW.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'countered',
+      jsonb_build_object('amount', NEW.final_amount, 'counter_amount', NEW.counter_offer_amount,
+                         'message', NEW.counter_offer_message));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'seller', 'amount', NEW.counter_offer_amount));
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'buyer', 'amount', NEW.final_amount));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
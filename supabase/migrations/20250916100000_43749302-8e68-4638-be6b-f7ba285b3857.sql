@@ -0,0 +1,555 @@
+-- Multi-quantity auctions with uniform-price clearing. Each bidder has one
+-- live bid (their latest) for a number of units at a unit price. Units go to
+-- the highest unit prices first, earliest bid on ties, with the last winner
+-- partially filled, and every winner pays the lowest winning unit price.
+
+ALTER TABLE public.auctions DROP CONSTRAINT auctions_format_check;
+ALTER TABLE public.auctions ADD CONSTRAINT auctions_format_check
+  CHECK (format IN ('english', 'sealed_first_price', 'sealed_second_price', 'dutch', 'reverse', 'multi_unit'));
+
+ALTER TABLE public.auctions ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 1);
+
+-- For multi-unit auctions bids.amount is the unit price
+ALTER TABLE public.bids
+  ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 1),
+  ADD COLUMN allocated_quantity INTEGER CHECK (allocated_quantity >= 0);
+
+ALTER TABLE public.transactions
+  ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 1),
+  ADD COLUMN unit_price DECIMAL(10,2);
+
+-- Every winner of a multi-unit auction gets their own transaction
+DROP INDEX public.transactions_auction_id_key;
+CREATE UNIQUE INDEX transactions_auction_id_buyer_id_key ON public.transactions (auction_id, buyer_id);
+
+-- Current allocation of a multi-unit auction. p_exclude_bidder_id shows what
+-- everyone else holds, which is what a new bid from that bidder has to beat.
+CREATE OR REPLACE FUNCTION public.multi_unit_allocation(p_auction_id UUID, p_exclude_bidder_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  bid_id UUID,
+  bidder_id UUID,
+  unit_price DECIMAL,
+  quantity INTEGER,
+  allocated_quantity INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH live AS (
+    SELECT DISTINCT ON (b.bidder_id) b.id, b.bidder_id, b.amount, b.quantity, b.created_at
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+      AND b.bidder_id IS DISTINCT FROM p_exclude_bidder_id
+    ORDER BY b.bidder_id, b.created_at DESC
+  ),
+  ranked AS (
+    SELECT l.*,
+      COALESCE(sum(l.quantity) OVER (
+        ORDER BY l.amount DESC, l.created_at ASC
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0) AS units_ahead
+    FROM live l
+  )
+  SELECT r.id, r.bidder_id, r.amount, r.quantity,
+    LEAST(r.quantity, GREATEST(a.quantity - r.units_ahead, 0))::INTEGER
+  FROM ranked r
+  JOIN public.auctions a ON a.id = p_auction_id AND a.format = 'multi_unit'
+  ORDER BY r.amount DESC, r.created_at ASC;
+$$;
+
+-- A new bid replaces the bidder's previous one and may not lower its unit price.
+-- Once other bidders claim every unit it must beat the lowest of them by bid_increment.
+CREATE OR REPLACE FUNCTION public.place_multi_unit_bid(
+  p_auction public.auctions,
+  p_bidder_id UUID,
+  p_amount DECIMAL,
+  p_quantity INTEGER
+)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_reason TEXT;
+  v_other_demand BIGINT;
+  v_lowest_winning DECIMAL;
+  v_previous_amount DECIMAL;
+  v_minimum_bid DECIMAL;
+  v_bid_id UUID;
+  v_clearing_price DECIMAL;
+  v_allocated INTEGER;
+BEGIN
+  SELECT COALESCE(sum(al.quantity), 0), min(al.unit_price) FILTER (WHERE al.allocated_quantity > 0)
+  INTO v_other_demand, v_lowest_winning
+  FROM public.multi_unit_allocation(p_auction.id, p_bidder_id) al;
+
+  SELECT b.amount INTO v_previous_amount
+  FROM public.bids b
+  WHERE b.auction_id = p_auction.id AND b.bidder_id = p_bidder_id
+  ORDER BY b.created_at DESC
+  LIMIT 1;
+
+  v_minimum_bid := GREATEST(
+    CASE
+      WHEN v_other_demand >= p_auction.quantity THEN v_lowest_winning + p_auction.bid_increment
+      ELSE p_auction.starting_price
+    END,
+    COALESCE(v_previous_amount, 0)
+  );
+  v_reason := public.bid_rejection_reason(p_auction, p_bidder_id);
+
+  IF v_reason IS NULL AND (p_quantity IS NULL OR p_quantity < 1 OR p_quantity > p_auction.quantity) THEN
+    v_reason := 'invalid_quantity';
+  END IF;
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, p_auction.current_highest_bid, v_minimum_bid, NULL::BOOLEAN;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount, quantity)
+  VALUES (p_auction.id, p_bidder_id, p_amount, p_quantity)
+  RETURNING id INTO v_bid_id;
+
+  SELECT min(al.unit_price) FILTER (WHERE al.allocated_quantity > 0),
+         max(al.allocated_quantity) FILTER (WHERE al.bidder_id = p_bidder_id)
+  INTO v_clearing_price, v_allocated
+  FROM public.multi_unit_allocation(p_auction.id) al;
+
+  -- current_highest_bid tracks the uniform price winners would pay right now
+  UPDATE public.auctions
+  SET current_highest_bid = v_clearing_price
+  WHERE id = p_auction.id
+    AND current_highest_bid IS DISTINCT FROM v_clearing_price;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_clearing_price, p_amount, COALESCE(v_allocated, 0) > 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_multi_unit_bid(public.auctions, UUID, DECIMAL, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- place_bid gains an optional quantity, only used by multi-unit auctions
+DROP FUNCTION public.place_bid(UUID, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL, p_quantity INTEGER DEFAULT 1)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_minimum_bid DECIMAL;
+  v_maximum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    RETURN QUERY SELECT * FROM public.place_sealed_bid(v_auction, v_bidder_id, p_amount);
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    RETURN QUERY SELECT * FROM public.place_multi_unit_bid(v_auction, v_bidder_id, p_amount, p_quantity);
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'dutch' THEN
+    RETURN QUERY SELECT false, 'dutch_accept_only'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  -- For reverse auctions minimum_bid carries the maximum offer allowed next
+  IF v_auction.format = 'reverse' THEN
+    v_maximum_bid := COALESCE(v_auction.current_highest_bid - v_auction.bid_increment, v_auction.starting_price);
+
+    IF v_reason IS NULL AND v_maximum_bid <= 0 THEN
+      v_reason := 'auction_not_active';
+    ELSIF v_reason IS NULL AND (p_amount IS NULL OR p_amount <= 0 OR p_amount > v_maximum_bid) THEN
+      v_reason := 'bid_too_high';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_maximum_bid,
+        v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+      RETURN;
+    END IF;
+
+    INSERT INTO public.bids (auction_id, bidder_id, amount)
+    VALUES (p_auction_id, v_bidder_id, p_amount)
+    RETURNING id INTO v_bid_id;
+
+    UPDATE public.auctions
+    SET current_highest_bid = p_amount,
+        highest_bidder_id = v_bidder_id
+    WHERE id = p_auction_id;
+
+    RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, p_amount, p_amount - v_auction.bid_increment, true;
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + v_auction.bid_increment, v_auction.starting_price);
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + v_auction.bid_increment,
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_bid(UUID, DECIMAL, INTEGER) TO authenticated;
+
+-- Multi-unit auctions close into one transaction per winner at the uniform price
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_top_bid public.bids%ROWTYPE;
+  v_second_amount DECIMAL;
+  v_reserve_price DECIMAL;
+  v_price DECIMAL;
+  v_basis TEXT;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.finalized_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    -- Allocations are recorded first so the closing notifications can see them
+    UPDATE public.bids b
+    SET allocated_quantity = al.allocated_quantity
+    FROM public.multi_unit_allocation(p_auction_id) al
+    WHERE b.id = al.bid_id
+      AND al.allocated_quantity > 0;
+
+    SELECT min(b.amount) INTO v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0;
+
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_price,
+        clearing_price = v_price,
+        outcome = CASE WHEN v_price IS NULL THEN 'no_bids' ELSE 'winning_bid' END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, quantity, unit_price)
+    SELECT v_auction.id, v_auction.seller_id, b.bidder_id, v_price * b.allocated_quantity, b.allocated_quantity, v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0
+    ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF v_auction.format = 'sealed_first_price' THEN
+        v_price := v_top_bid.amount;
+        v_basis := 'winning_bid';
+      ELSE
+        SELECT b.amount INTO v_second_amount
+        FROM public.bids b
+        WHERE b.auction_id = p_auction_id AND b.id <> v_top_bid.id
+        ORDER BY b.amount DESC
+        LIMIT 1;
+
+        IF v_second_amount IS NULL THEN
+          v_price := v_auction.starting_price;
+          v_basis := 'starting_price';
+        ELSIF v_second_amount + v_auction.bid_increment >= v_top_bid.amount THEN
+          v_price := v_top_bid.amount;
+          v_basis := 'winning_bid';
+        ELSE
+          v_price := v_second_amount + v_auction.bid_increment;
+          v_basis := 'second_bid';
+        END IF;
+
+        SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+        IF v_reserve_price IS NOT NULL AND v_top_bid.amount >= v_reserve_price AND v_price < v_reserve_price THEN
+          v_price := v_reserve_price;
+          v_basis := 'reserve_price';
+        END IF;
+      END IF;
+
+      UPDATE public.auctions
+      SET current_highest_bid = v_price,
+          highest_bidder_id = v_top_bid.bidder_id,
+          winning_bid = v_top_bid.amount,
+          clearing_price = v_price,
+          clearing_price_basis = v_basis
+      WHERE id = p_auction_id;
+    END IF;
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Multi-unit winners each hear how many units they won at the uniform price
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+     AND NEW.outcome IS DISTINCT FROM 'bought_now' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid',
+      CASE WHEN NEW.format = 'reverse' THEN 'You have been undercut' ELSE 'You have been outbid' END,
+      format(CASE WHEN NEW.format = 'reverse' THEN 'The lowest offer on "%s" is now %s.' ELSE 'The price on "%s" is now %s.' END,
+             NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' AND NEW.format = 'sealed_second_price' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed with a highest sealed bid of %s and a second-price clearing price of %s. Review the sale to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.winning_bid), public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your sealed bid of %s is the highest on "%s". Under second-price rules you pay %s.',
+                public.format_amount(NEW.winning_bid), NEW.title, public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid));
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'multi_unit' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+        format('"%s" closed: %s of %s units sold at %s each. Review each sale to accept, reject or counter.',
+               NEW.title, sum(b.allocated_quantity), NEW.quantity, public.format_amount(NEW.clearing_price)),
+        jsonb_build_object('unit_price', NEW.clearing_price, 'units_sold', sum(b.allocated_quantity))
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id AND b.allocated_quantity > 0;
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT b.bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+        format('You won %s of the %s units you bid for on "%s", at %s each.',
+               b.allocated_quantity, b.quantity, NEW.title, public.format_amount(NEW.clearing_price)),
+        jsonb_build_object('unit_price', NEW.clearing_price, 'quantity', b.allocated_quantity)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id AND b.allocated_quantity > 0;
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'reverse' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your request has closed',
+         format('"%s" closed with a lowest offer of %s. Review the offer to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your offer of %s is the lowest on "%s". The buyer will confirm the order shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid))),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid)), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSIF NEW.outcome = 'price_accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your Dutch auction has sold',
+         format('"%s" sold for %s when a buyer accepted the current price.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" at %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'bought_now' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Sold with Buy It Now',
+         format('"%s" sold for %s with Buy It Now.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" for %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'Auction ended',
+        format('"%s" was sold to another buyer with Buy It Now.', NEW.title),
+        jsonb_build_object('outcome', NEW.outcome)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.bidder_id <> NEW.highest_bidder_id;
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The "won" email spells out units and unit price for multi-unit auctions
+CREATE OR REPLACE FUNCTION public.enqueue_transaction_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status <> 'accepted' THEN
+    SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'won',
+      jsonb_build_object('amount', NEW.final_amount, 'winning_bid', v_auction.winning_bid,
+                         'format', v_auction.format, 'quantity', NEW.quantity, 'unit_price', NEW.unit_price));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    -- Confirmation goes to both sides of the sale
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'buyer', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'seller', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+  ELSIF NEW.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'countered',
+      jsonb_build_object('amount', NEW.final_amount, 'counter_amount', NEW.counter_offer_amount,
+                         'message', NEW.counter_offer_message));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'countered' THEN
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'seller', 'amount', NEW.counter_offer_amount));
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'buyer', 'amount', NEW.final_amount));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,474 @@
+-- Candle auctions. The seller sets a window and the real close is drawn at
+-- random inside it when the auction is created. Only a hash of the close and
+-- a secret seed is published; both are revealed when the window ends, and
+-- only bids placed before the hidden close count.
+
+ALTER TABLE public.auctions DROP CONSTRAINT auctions_format_check;
+ALTER TABLE public.auctions ADD CONSTRAINT auctions_format_check
+  CHECK (format IN ('english', 'sealed_first_price', 'sealed_second_price', 'dutch', 'reverse', 'multi_unit', 'candle'));
+
+-- end_time is the end of the candle window, the latest the auction can close.
+-- Soft close would only move that outer bound, so candle auctions go without.
+ALTER TABLE public.auctions
+  ADD COLUMN candle_window_start TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN candle_commitment TEXT,
+  ADD COLUMN candle_seed TEXT,
+  ADD COLUMN candle_end_time TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT auctions_candle_window_check CHECK (
+    format <> 'candle' OR (
+      candle_window_start IS NOT NULL
+      AND candle_window_start >= start_time
+      AND candle_window_start < end_time
+      AND soft_close_window_seconds IS NULL
+    )
+  );
+
+-- No policies: the drawn close is only read by SECURITY DEFINER functions.
+-- The key is deferred because the row is written while the auction is inserted.
+CREATE TABLE public.auction_candle_secrets (
+  auction_id UUID NOT NULL PRIMARY KEY
+    REFERENCES public.auctions(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  seed TEXT NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.auction_candle_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can recompute this from the revealed seed and close:
+-- sha256("<auction id>|<close as YYYY-MM-DDTHH:MM:SSZ>|<seed>") in hex
+CREATE OR REPLACE FUNCTION public.candle_commitment(p_auction_id UUID, p_end_time TIMESTAMP WITH TIME ZONE, p_seed TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT encode(sha256(convert_to(
+    format('%s|%s|%s', p_auction_id, to_char(p_end_time AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'), p_seed),
+    'UTF8'
+  )), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.commit_candle_close()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_seed TEXT;
+  v_end_time TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Whatever the client sent, the reveal columns start empty
+  NEW.candle_commitment := NULL;
+  NEW.candle_seed := NULL;
+  NEW.candle_end_time := NULL;
+
+  -- An invalid window is left for auctions_candle_window_check to reject
+  IF NEW.format <> 'candle' OR NEW.candle_window_start IS NULL OR NEW.candle_window_start >= NEW.end_time THEN
+    RETURN NEW;
+  END IF;
+
+  v_seed := replace(gen_random_uuid()::TEXT, '-', '');
+  v_end_time := date_trunc('second', NEW.candle_window_start + random() * (NEW.end_time - NEW.candle_window_start));
+
+  INSERT INTO public.auction_candle_secrets (auction_id, seed, end_time)
+  VALUES (NEW.id, v_seed, v_end_time);
+
+  NEW.candle_commitment := public.candle_commitment(NEW.id, v_end_time, v_seed);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER commit_candle_close_trigger
+  BEFORE INSERT ON public.auctions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.commit_candle_close();
+
+-- Sellers can update their own auctions, so the committed window is frozen
+-- here and the reveal can only be written by the update that finalizes
+CREATE OR REPLACE FUNCTION public.protect_candle_commitment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.format <> 'candle' AND NEW.format <> 'candle' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.format IS DISTINCT FROM OLD.format
+     OR NEW.end_time IS DISTINCT FROM OLD.end_time
+     OR NEW.candle_window_start IS DISTINCT FROM OLD.candle_window_start
+     OR NEW.candle_commitment IS DISTINCT FROM OLD.candle_commitment THEN
+    RAISE EXCEPTION 'The candle window cannot be changed once it has been committed';
+  END IF;
+
+  IF (NEW.candle_seed IS DISTINCT FROM OLD.candle_seed OR NEW.candle_end_time IS DISTINCT FROM OLD.candle_end_time)
+     AND NOT (OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'The candle close is only revealed when the auction is finalized';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_candle_commitment_trigger
+  BEFORE UPDATE ON public.auctions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_candle_commitment();
+
+-- Candle auctions close at the end of the window, when the seed is revealed
+-- and the winner is taken from the bids placed before the hidden close
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_top_bid public.bids%ROWTYPE;
+  v_second_amount DECIMAL;
+  v_reserve_price DECIMAL;
+  v_price DECIMAL;
+  v_basis TEXT;
+  v_candle public.auction_candle_secrets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.finalized_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    -- Allocations are recorded first so the closing notifications can see them
+    UPDATE public.bids b
+    SET allocated_quantity = al.allocated_quantity
+    FROM public.multi_unit_allocation(p_auction_id) al
+    WHERE b.id = al.bid_id
+      AND al.allocated_quantity > 0;
+
+    SELECT min(b.amount) INTO v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0;
+
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_price,
+        clearing_price = v_price,
+        outcome = CASE WHEN v_price IS NULL THEN 'no_bids' ELSE 'winning_bid' END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, quantity, unit_price)
+    SELECT v_auction.id, v_auction.seller_id, b.bidder_id, v_price * b.allocated_quantity, b.allocated_quantity, v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0
+    ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'candle' THEN
+    SELECT * INTO v_candle FROM public.auction_candle_secrets WHERE auction_id = p_auction_id;
+
+    -- Bids placed after the candle went out stay on record but never count
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+      AND b.created_at < v_candle.end_time
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    -- The winner and the reveal land in the same update that closes the
+    -- auction, so rewinding past late bids is not reported as an outbid
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_top_bid.amount,
+        highest_bidder_id = v_top_bid.bidder_id,
+        candle_seed = v_candle.seed,
+        candle_end_time = v_candle.end_time,
+        outcome = CASE
+          WHEN v_top_bid.bidder_id IS NULL THEN 'no_bids'
+          WHEN has_reserve AND NOT public.is_reserve_met(id, v_top_bid.amount) THEN 'reserve_not_met'
+          ELSE 'winning_bid'
+        END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF FOUND AND v_auction.outcome = 'winning_bid' THEN
+      INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+      VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+      ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF v_auction.format = 'sealed_first_price' THEN
+        v_price := v_top_bid.amount;
+        v_basis := 'winning_bid';
+      ELSE
+        SELECT b.amount INTO v_second_amount
+        FROM public.bids b
+        WHERE b.auction_id = p_auction_id AND b.id <> v_top_bid.id
+        ORDER BY b.amount DESC
+        LIMIT 1;
+
+        IF v_second_amount IS NULL THEN
+          v_price := v_auction.starting_price;
+          v_basis := 'starting_price';
+        ELSIF v_second_amount + v_auction.bid_increment >= v_top_bid.amount THEN
+          v_price := v_top_bid.amount;
+          v_basis := 'winning_bid';
+        ELSE
+          v_price := v_second_amount + v_auction.bid_increment;
+          v_basis := 'second_bid';
+        END IF;
+
+        SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+        IF v_reserve_price IS NOT NULL AND v_top_bid.amount >= v_reserve_price AND v_price < v_reserve_price THEN
+          v_price := v_reserve_price;
+          v_basis := 'reserve_price';
+        END IF;
+      END IF;
+
+      UPDATE public.auctions
+      SET current_highest_bid = v_price,
+          highest_bidder_id = v_top_bid.bidder_id,
+          winning_bid = v_top_bid.amount,
+          clearing_price = v_price,
+          clearing_price_basis = v_basis
+      WHERE id = p_auction_id;
+    END IF;
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.notify_new_bid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+
+  IF v_auction.format IN ('english', 'reverse', 'candle') THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      v_auction.seller_id, v_auction.id, 'new_bid', 'New bid received',
+      format('%s bid on "%s".', public.format_amount(NEW.amount), v_auction.title),
+      jsonb_build_object('bid_id', NEW.id, 'amount', NEW.amount)
+    );
+  ELSIF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      v_auction.seller_id, v_auction.id, 'new_bid', 'New sealed bid received',
+      format('A sealed bid was submitted on "%s". Bids are revealed when the auction closes.', v_auction.title),
+      jsonb_build_object('bid_id', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+
+-- Closing a candle auction can hand the lead back to an earlier bidder. That
+-- is reported with the close rather than as an outbid, and anyone whose bids
+-- all came too late hears why.
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+     AND NEW.outcome IS DISTINCT FROM 'bought_now'
+     AND NEW.finalized_at IS NULL THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid',
+      CASE WHEN NEW.format = 'reverse' THEN 'You have been undercut' ELSE 'You have been outbid' END,
+      format(CASE WHEN NEW.format = 'reverse' THEN 'The lowest offer on "%s" is now %s.' ELSE 'The price on "%s" is now %s.' END,
+             NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' AND NEW.format = 'sealed_second_price' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed with a highest sealed bid of %s and a second-price clearing price of %s. Review the sale to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.winning_bid), public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your sealed bid of %s is the highest on "%s". Under second-price rules you pay %s.',
+                public.format_amount(NEW.winning_bid), NEW.title, public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid));
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'multi_unit' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+        format('"%s" closed: %s of %s units sold at %s each. Review each sale to accept, reject or counter.',
+               NEW.title, sum(b.allocated_quantity), NEW.quantity, public.format_amount(NEW.clearing_price)),
+        jsonb_build_object('unit_price', NEW.clearing_price, 'units_sold', sum(b.allocated_quantity))
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id AND b.allocated_quantity > 0;
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT b.bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+        format('You won %s of the %s units you bid for on "%s", at %s each.',
+               b.allocated_quantity, b.quantity, NEW.title, public.format_amount(NEW.clearing_price)),
+        jsonb_build_object('unit_price', NEW.clearing_price, 'quantity', b.allocated_quantity)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id AND b.allocated_quantity > 0;
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'reverse' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your request has closed',
+         format('"%s" closed with a lowest offer of %s. Review the offer to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your offer of %s is the lowest on "%s". The buyer will confirm the order shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid))),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid)), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSIF NEW.outcome = 'price_accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your Dutch auction has sold',
+         format('"%s" sold for %s when a buyer accepted the current price.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" at %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'bought_now' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Sold with Buy It Now',
+         format('"%s" sold for %s with Buy It Now.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" for %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'Auction ended',
+        format('"%s" was sold to another buyer with Buy It Now.', NEW.title),
+        jsonb_build_object('outcome', NEW.outcome)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.bidder_id <> NEW.highest_bidder_id;
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+
+    IF NEW.format = 'candle' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'The candle went out before your bid',
+        format('The hidden close of "%s" fell at %s, so bids placed after it did not count.',
+               NEW.title, to_char(NEW.candle_end_time AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS "UTC"')),
+        jsonb_build_object('candle_end_time', NEW.candle_end_time)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.created_at >= NEW.candle_end_time
+        AND b.bidder_id IS DISTINCT FROM NEW.highest_bidder_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.bids counted
+          WHERE counted.auction_id = NEW.id
+            AND counted.bidder_id = b.bidder_id
+            AND counted.created_at < NEW.candle_end_time
+        );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+
+DROP TRIGGER enqueue_outbid_email_trigger ON public.auctions;
+
+CREATE TRIGGER enqueue_outbid_email_trigger
+  AFTER UPDATE ON public.auctions
+  FOR EACH ROW
+  WHEN (
+    OLD.highest_bidder_id IS NOT NULL
+    AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+    AND NEW.outcome IS DISTINCT FROM 'bought_now'
+    AND NEW.finalized_at IS NULL
+  )
+  EXECUTE FUNCTION public.enqueue_outbid_email();
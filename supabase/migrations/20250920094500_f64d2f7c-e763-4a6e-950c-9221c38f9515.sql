@@ -0,0 +1,86 @@
+-- Catalog events: many auctions sold as numbered lots that open together and
+-- close one after another. Lot n closes at first_lot_end_time plus (n - 1)
+-- lot intervals, so an estate sale runs down its catalog in order.
+
+CREATE TABLE public.auction_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  seller_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  first_lot_end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  lot_interval_seconds INTEGER NOT NULL DEFAULT 60 CHECK (lot_interval_seconds >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT auction_events_schedule_check CHECK (first_lot_end_time > start_time)
+);
+
+ALTER TABLE public.auction_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view events" ON public.auction_events FOR SELECT USING (true);
+CREATE POLICY "Sellers can create events" ON public.auction_events FOR INSERT WITH CHECK (auth.uid() = seller_id);
+
+CREATE TRIGGER update_auction_events_updated_at
+  BEFORE UPDATE ON public.auction_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.auctions
+  ADD COLUMN event_id UUID REFERENCES public.auction_events(id) ON DELETE SET NULL,
+  ADD COLUMN lot_number INTEGER CHECK (lot_number >= 1);
+
+CREATE UNIQUE INDEX auctions_event_id_lot_number_key ON public.auctions (event_id, lot_number);
+
+-- Lots take the next number and their times from the event, whatever the
+-- client sent. Named to sort before the candle and status triggers so they
+-- see the scheduled times.
+CREATE OR REPLACE FUNCTION public.assign_event_lot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_event public.auction_events%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.event_id IS DISTINCT FROM OLD.event_id OR NEW.lot_number IS DISTINCT FROM OLD.lot_number THEN
+      RAISE EXCEPTION 'Lots cannot be moved or renumbered once added to an event';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.event_id IS NULL THEN
+    NEW.lot_number := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Locking the event serializes lot numbering
+  SELECT * INTO v_event
+  FROM public.auction_events e
+  WHERE e.id = NEW.event_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_event.seller_id <> NEW.seller_id THEN
+    RAISE EXCEPTION 'Lots can only be added to your own events';
+  END IF;
+
+  IF v_event.start_time <= now() THEN
+    RAISE EXCEPTION 'Lots can only be added before the event starts';
+  END IF;
+
+  SELECT COALESCE(max(a.lot_number), 0) + 1 INTO NEW.lot_number
+  FROM public.auctions a
+  WHERE a.event_id = NEW.event_id;
+
+  NEW.start_time := v_event.start_time;
+  NEW.end_time := v_event.first_lot_end_time
+    + make_interval(secs => v_event.lot_interval_seconds * (NEW.lot_number - 1));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_event_lot_trigger
+  BEFORE INSERT OR UPDATE ON public.auctions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_event_lot();
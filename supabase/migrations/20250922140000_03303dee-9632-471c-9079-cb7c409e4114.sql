@@ -0,0 +1,150 @@
+-- Hosted live sales. An auctioneer drives the lot from a console: opening it,
+-- calling asking prices, going once and twice, and hammering it down to the
+-- high bidder. The call lives on the auction row so every bidder follows it
+-- over realtime, and bids are only taken while the lot is open.
+
+ALTER TABLE public.auctions
+  ADD COLUMN auctioneer_id UUID REFERENCES public.profiles(user_id),
+  ADD COLUMN call_state TEXT CHECK (call_state IN ('waiting', 'open', 'going_once', 'going_twice', 'sold', 'passed')),
+  ADD COLUMN asking_price DECIMAL(10,2) CHECK (asking_price > 0),
+  ADD COLUMN call_changed_at TIMESTAMP WITH TIME ZONE,
+  -- end_time is only a backstop for hosted lots; the hammer closes them
+  ADD CONSTRAINT auctions_hosted_check CHECK (
+    (auctioneer_id IS NULL) = (call_state IS NULL)
+    AND (
+      auctioneer_id IS NULL
+      OR (format = 'english' AND soft_close_window_seconds IS NULL AND buy_now_price IS NULL)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.bid_rejection_reason(p_auction public.auctions, p_bidder_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_auction.status IN ('ended', 'cancelled') THEN
+    RETURN 'auction_not_active';
+  ELSIF now() < p_auction.start_time THEN
+    RETURN 'auction_not_started';
+  ELSIF now() >= p_auction.end_time THEN
+    RETURN 'auction_ended';
+  ELSIF p_auction.seller_id = p_bidder_id OR p_auction.auctioneer_id = p_bidder_id THEN
+    RETURN 'own_auction';
+  ELSIF p_auction.call_state IS NOT NULL AND p_auction.call_state NOT IN ('open', 'going_once', 'going_twice') THEN
+    RETURN 'lot_not_open';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- A fresh bid during "going once" or "going twice" puts the lot back to open
+CREATE OR REPLACE FUNCTION public.reopen_call_on_bid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.call_state IN ('going_once', 'going_twice') THEN
+    NEW.call_state := 'open';
+    NEW.call_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reopen_call_on_bid_trigger
+  BEFORE UPDATE ON public.auctions
+  FOR EACH ROW
+  WHEN (NEW.current_highest_bid IS DISTINCT FROM OLD.current_highest_bid)
+  EXECUTE FUNCTION public.reopen_call_on_bid();
+
+-- Calls follow the rostrum order: open, going once, going twice, sold. A new
+-- asking price re-opens the call. A lot nobody bid on is passed, which closes
+-- it unsold.
+CREATE OR REPLACE FUNCTION public.call_lot(p_auction_id UUID, p_call TEXT, p_asking_price DECIMAL DEFAULT NULL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  call_state TEXT,
+  asking_price DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_next_state TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::TEXT, NULL::DECIMAL;
+    RETURN;
+  END IF;
+
+  -- Same lock as place_bid, so a call and a bid never cross
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::TEXT, NULL::DECIMAL;
+    RETURN;
+  END IF;
+
+  v_next_state := CASE p_call WHEN 'asking' THEN 'open' ELSE p_call END;
+
+  IF v_auction.auctioneer_id IS DISTINCT FROM auth.uid() THEN
+    v_reason := 'not_auctioneer';
+  ELSIF v_auction.status IN ('ended', 'cancelled') OR now() >= v_auction.end_time THEN
+    v_reason := 'auction_not_active';
+  ELSIF now() < v_auction.start_time THEN
+    v_reason := 'auction_not_started';
+  ELSIF NOT (
+    (p_call = 'open' AND v_auction.call_state = 'waiting')
+    OR (p_call = 'asking' AND v_auction.call_state IN ('open', 'going_once', 'going_twice'))
+    OR (p_call = 'going_once' AND v_auction.call_state = 'open')
+    OR (p_call = 'going_twice' AND v_auction.call_state = 'going_once')
+    OR (p_call = 'sold' AND v_auction.call_state = 'going_twice')
+    OR (p_call = 'passed' AND v_auction.call_state IN ('waiting', 'open', 'going_once', 'going_twice'))
+  ) THEN
+    v_reason := 'invalid_call';
+  ELSIF p_call = 'asking' AND (p_asking_price IS NULL OR p_asking_price <= 0) THEN
+    v_reason := 'invalid_asking_price';
+  ELSIF p_call = 'sold' AND v_auction.highest_bidder_id IS NULL THEN
+    v_reason := 'no_bids';
+  ELSIF p_call = 'passed' AND v_auction.highest_bidder_id IS NOT NULL THEN
+    v_reason := 'lot_has_bids';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, v_auction.call_state, v_auction.asking_price;
+    RETURN;
+  END IF;
+
+  UPDATE public.auctions
+  SET call_state = v_next_state,
+      call_changed_at = now(),
+      asking_price = COALESCE(p_asking_price, asking_price)
+  WHERE id = p_auction_id
+  RETURNING * INTO v_auction;
+
+  -- The hammer (or a pass) closes the lot now rather than at the backstop end time
+  IF p_call IN ('sold', 'passed') THEN
+    UPDATE public.auctions
+    SET end_time = now(),
+        status = 'ended'
+    WHERE id = p_auction_id;
+
+    PERFORM public.finalize_auction(p_auction_id);
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_auction.call_state, v_auction.asking_price;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.call_lot(UUID, TEXT, DECIMAL) TO authenticated;
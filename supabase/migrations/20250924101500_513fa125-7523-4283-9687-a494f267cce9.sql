@@ -0,0 +1,693 @@
+-- Tiered bid increments. A flat step is too coarse on cheap items and too fine
+-- on expensive ones, so the step can instead come from a table of price bands:
+-- each band starts at min_price and applies until the next one. Sellers may
+-- keep their own table; everyone else gets the platform default (seller_id
+-- NULL). Auctions without a flat bid_increment snapshot the applicable table
+-- when they are created, so editing a table never moves a running auction.
+
+CREATE TABLE public.bid_increment_tiers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  seller_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  min_price DECIMAL(10,2) NOT NULL CHECK (min_price >= 0),
+  increment DECIMAL(10,2) NOT NULL CHECK (increment > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT bid_increment_tiers_seller_id_min_price_key UNIQUE NULLS NOT DISTINCT (seller_id, min_price)
+);
+
+ALTER TABLE public.bid_increment_tiers ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through set_bid_increment_tiers(), which replaces a table whole
+CREATE POLICY "Anyone can view bid increment tiers" ON public.bid_increment_tiers FOR SELECT USING (true);
+
+INSERT INTO public.bid_increment_tiers (seller_id, min_price, increment) VALUES
+  (NULL, 0, 1.00),
+  (NULL, 100, 10.00),
+  (NULL, 1000, 50.00),
+  (NULL, 5000, 100.00);
+
+ALTER TABLE public.auctions
+  ALTER COLUMN bid_increment DROP NOT NULL,
+  ADD COLUMN bid_increment_tiers JSONB,
+  ADD CONSTRAINT auctions_bid_increment_check CHECK ((bid_increment IS NULL) <> (bid_increment_tiers IS NULL));
+
+-- A NULL bid_increment asks for the seller's table, falling back to the
+-- platform default
+CREATE OR REPLACE FUNCTION public.snapshot_bid_increment_tiers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.bid_increment IS NOT NULL THEN
+    NEW.bid_increment_tiers := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('min_price', t.min_price, 'increment', t.increment) ORDER BY t.min_price)
+  INTO NEW.bid_increment_tiers
+  FROM public.bid_increment_tiers t
+  WHERE t.seller_id = NEW.seller_id;
+
+  IF NEW.bid_increment_tiers IS NULL THEN
+    SELECT jsonb_agg(jsonb_build_object('min_price', t.min_price, 'increment', t.increment) ORDER BY t.min_price)
+    INTO NEW.bid_increment_tiers
+    FROM public.bid_increment_tiers t
+    WHERE t.seller_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_bid_increment_tiers_trigger
+  BEFORE INSERT ON public.auctions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_bid_increment_tiers();
+
+CREATE OR REPLACE FUNCTION public.protect_bid_increment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.bid_increment IS DISTINCT FROM OLD.bid_increment
+     OR NEW.bid_increment_tiers IS DISTINCT FROM OLD.bid_increment_tiers THEN
+    RAISE EXCEPTION 'Bid increments cannot be changed once an auction is created';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_bid_increment_trigger
+  BEFORE UPDATE ON public.auctions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_bid_increment();
+
+-- The step above (or, for reverse auctions, below) p_price. Prices under the
+-- first band use its increment.
+CREATE OR REPLACE FUNCTION public.bid_increment_at(p_auction public.auctions, p_price DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_increment DECIMAL;
+BEGIN
+  IF p_auction.bid_increment_tiers IS NULL THEN
+    RETURN p_auction.bid_increment;
+  END IF;
+
+  SELECT (tier->>'increment')::DECIMAL INTO v_increment
+  FROM jsonb_array_elements(p_auction.bid_increment_tiers) tier
+  WHERE (tier->>'min_price')::DECIMAL <= COALESCE(p_price, 0)
+  ORDER BY (tier->>'min_price')::DECIMAL DESC
+  LIMIT 1;
+
+  IF v_increment IS NULL THEN
+    SELECT (tier->>'increment')::DECIMAL INTO v_increment
+    FROM jsonb_array_elements(p_auction.bid_increment_tiers) tier
+    ORDER BY (tier->>'min_price')::DECIMAL
+    LIMIT 1;
+  END IF;
+
+  RETURN v_increment;
+END;
+$$;
+
+-- Replaces the caller's table. An empty array goes back to the platform default.
+CREATE OR REPLACE FUNCTION public.set_bid_increment_tiers(p_tiers JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_seller_id UUID := auth.uid();
+BEGIN
+  IF v_seller_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to edit your bid increments';
+  END IF;
+
+  IF jsonb_typeof(p_tiers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Bid increments must be a list of price bands';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_tiers) tier
+    WHERE (tier->>'min_price')::DECIMAL IS NULL
+       OR (tier->>'min_price')::DECIMAL < 0
+       OR (tier->>'increment')::DECIMAL IS NULL
+       OR (tier->>'increment')::DECIMAL <= 0
+  ) THEN
+    RAISE EXCEPTION 'Each band needs a starting price of at least 0 and an increment above 0';
+  END IF;
+
+  IF jsonb_array_length(p_tiers) > 0 AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_tiers) tier WHERE (tier->>'min_price')::DECIMAL = 0
+  ) THEN
+    RAISE EXCEPTION 'The first band must start at $0';
+  END IF;
+
+  DELETE FROM public.bid_increment_tiers WHERE seller_id = v_seller_id;
+
+  -- The unique constraint rejects two bands starting at the same price
+  INSERT INTO public.bid_increment_tiers (seller_id, min_price, increment)
+  SELECT v_seller_id, (tier->>'min_price')::DECIMAL, (tier->>'increment')::DECIMAL
+  FROM jsonb_array_elements(p_tiers) tier;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_bid_increment_tiers(JSONB) TO authenticated;
+
+-- Every engine path now steps by the band the price is in
+CREATE OR REPLACE FUNCTION public.resolve_proxy_bids(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_reserve_price DECIMAL;
+  v_leader_ceiling DECIMAL;
+  v_leader_placed_at TIMESTAMP WITH TIME ZONE;
+  v_candidate RECORD;
+  v_winner_id UUID;
+  v_winner_ceiling DECIMAL;
+  v_runner_up_ceiling DECIMAL;
+  v_price DECIMAL;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+  SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+  IF v_auction.highest_bidder_id IS NOT NULL THEN
+    SELECT GREATEST(v_auction.current_highest_bid, pb.max_amount),
+           CASE WHEN pb.max_amount >= v_auction.current_highest_bid THEN pb.placed_at END
+    INTO v_leader_ceiling, v_leader_placed_at
+    FROM public.proxy_bids pb
+    WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_auction.highest_bidder_id;
+
+    v_leader_ceiling := COALESCE(v_leader_ceiling, v_auction.current_highest_bid);
+
+    IF v_leader_placed_at IS NULL THEN
+      SELECT max(b.created_at) INTO v_leader_placed_at
+      FROM public.bids b
+      WHERE b.auction_id = p_auction_id AND b.bidder_id = v_auction.highest_bidder_id;
+    END IF;
+  END IF;
+
+  FOR v_candidate IN
+    SELECT c.bidder_id, c.ceiling
+    FROM (
+      SELECT pb.bidder_id, pb.max_amount AS ceiling, pb.placed_at
+      FROM public.proxy_bids pb
+      WHERE pb.auction_id = p_auction_id
+        AND pb.bidder_id IS DISTINCT FROM v_auction.highest_bidder_id
+        AND pb.max_amount >= COALESCE(v_auction.current_highest_bid, v_auction.starting_price)
+      UNION ALL
+      SELECT v_auction.highest_bidder_id, v_leader_ceiling, v_leader_placed_at
+      WHERE v_auction.highest_bidder_id IS NOT NULL
+    ) c
+    ORDER BY c.ceiling DESC, c.placed_at ASC
+    LIMIT 2
+  LOOP
+    IF v_winner_id IS NULL THEN
+      v_winner_id := v_candidate.bidder_id;
+      v_winner_ceiling := v_candidate.ceiling;
+    ELSE
+      v_runner_up_ceiling := v_candidate.ceiling;
+    END IF;
+  END LOOP;
+
+  IF v_winner_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_runner_up_ceiling IS NOT NULL THEN
+    v_price := LEAST(v_winner_ceiling, v_runner_up_ceiling + public.bid_increment_at(v_auction, v_runner_up_ceiling));
+  ELSIF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id THEN
+    v_price := v_auction.current_highest_bid;
+  ELSE
+    -- Nobody to compete with: an unopposed proxy opens at the starting price
+    v_price := v_auction.starting_price;
+  END IF;
+
+  IF v_reserve_price IS NOT NULL AND v_price < v_reserve_price THEN
+    v_price := LEAST(v_winner_ceiling, v_reserve_price);
+  END IF;
+
+  IF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id
+     AND v_price <= v_auction.current_highest_bid THEN
+    RETURN;
+  END IF;
+
+  -- clock_timestamp keeps automatic bids ordered after the bid that triggered them
+  INSERT INTO public.bids (auction_id, bidder_id, amount, is_automatic, created_at)
+  VALUES (p_auction_id, v_winner_id, v_price, true, clock_timestamp());
+
+  UPDATE public.auctions
+  SET current_highest_bid = v_price,
+      highest_bidder_id = v_winner_id
+  WHERE id = p_auction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_max_bid(p_auction_id UUID, p_max_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  max_amount DECIMAL,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_existing_max DECIMAL;
+  v_minimum_max DECIMAL;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  SELECT pb.max_amount INTO v_existing_max
+  FROM public.proxy_bids pb
+  WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_bidder_id;
+
+  -- A maximum can be raised but never lowered
+  v_minimum_max := GREATEST(
+    COALESCE(v_auction.current_highest_bid + public.bid_increment_at(v_auction, v_auction.current_highest_bid), v_auction.starting_price),
+    COALESCE(v_existing_max, 0)
+  );
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  IF v_reason IS NULL AND v_auction.format <> 'english' THEN
+    v_reason := 'max_bid_not_supported';
+  END IF;
+
+  IF v_reason IS NULL AND (p_max_amount IS NULL OR p_max_amount < v_minimum_max) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, v_existing_max, v_auction.current_highest_bid, v_minimum_max,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.proxy_bids (auction_id, bidder_id, max_amount)
+  VALUES (p_auction_id, v_bidder_id, p_max_amount)
+  ON CONFLICT (auction_id, bidder_id)
+  DO UPDATE SET max_amount = EXCLUDED.max_amount, placed_at = now();
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, p_max_amount, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + public.bid_increment_at(v_auction, v_auction.current_highest_bid),
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_multi_unit_bid(
+  p_auction public.auctions,
+  p_bidder_id UUID,
+  p_amount DECIMAL,
+  p_quantity INTEGER
+)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_reason TEXT;
+  v_other_demand BIGINT;
+  v_lowest_winning DECIMAL;
+  v_previous_amount DECIMAL;
+  v_minimum_bid DECIMAL;
+  v_bid_id UUID;
+  v_clearing_price DECIMAL;
+  v_allocated INTEGER;
+BEGIN
+  SELECT COALESCE(sum(al.quantity), 0), min(al.unit_price) FILTER (WHERE al.allocated_quantity > 0)
+  INTO v_other_demand, v_lowest_winning
+  FROM public.multi_unit_allocation(p_auction.id, p_bidder_id) al;
+
+  SELECT b.amount INTO v_previous_amount
+  FROM public.bids b
+  WHERE b.auction_id = p_auction.id AND b.bidder_id = p_bidder_id
+  ORDER BY b.created_at DESC
+  LIMIT 1;
+
+  v_minimum_bid := GREATEST(
+    CASE
+      WHEN v_other_demand >= p_auction.quantity THEN v_lowest_winning + public.bid_increment_at(p_auction, v_lowest_winning)
+      ELSE p_auction.starting_price
+    END,
+    COALESCE(v_previous_amount, 0)
+  );
+  v_reason := public.bid_rejection_reason(p_auction, p_bidder_id);
+
+  IF v_reason IS NULL AND (p_quantity IS NULL OR p_quantity < 1 OR p_quantity > p_auction.quantity) THEN
+    v_reason := 'invalid_quantity';
+  END IF;
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, p_auction.current_highest_bid, v_minimum_bid, NULL::BOOLEAN;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount, quantity)
+  VALUES (p_auction.id, p_bidder_id, p_amount, p_quantity)
+  RETURNING id INTO v_bid_id;
+
+  SELECT min(al.unit_price) FILTER (WHERE al.allocated_quantity > 0),
+         max(al.allocated_quantity) FILTER (WHERE al.bidder_id = p_bidder_id)
+  INTO v_clearing_price, v_allocated
+  FROM public.multi_unit_allocation(p_auction.id) al;
+
+  -- current_highest_bid tracks the uniform price winners would pay right now
+  UPDATE public.auctions
+  SET current_highest_bid = v_clearing_price
+  WHERE id = p_auction.id
+    AND current_highest_bid IS DISTINCT FROM v_clearing_price;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_clearing_price, p_amount, COALESCE(v_allocated, 0) > 0;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL, p_quantity INTEGER DEFAULT 1)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_minimum_bid DECIMAL;
+  v_maximum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    RETURN QUERY SELECT * FROM public.place_sealed_bid(v_auction, v_bidder_id, p_amount);
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    RETURN QUERY SELECT * FROM public.place_multi_unit_bid(v_auction, v_bidder_id, p_amount, p_quantity);
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'dutch' THEN
+    RETURN QUERY SELECT false, 'dutch_accept_only'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  -- For reverse auctions minimum_bid carries the maximum offer allowed next
+  IF v_auction.format = 'reverse' THEN
+    v_maximum_bid := COALESCE(v_auction.current_highest_bid - public.bid_increment_at(v_auction, v_auction.current_highest_bid), v_auction.starting_price);
+
+    IF v_reason IS NULL AND v_maximum_bid <= 0 THEN
+      v_reason := 'auction_not_active';
+    ELSIF v_reason IS NULL AND (p_amount IS NULL OR p_amount <= 0 OR p_amount > v_maximum_bid) THEN
+      v_reason := 'bid_too_high';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_maximum_bid,
+        v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+      RETURN;
+    END IF;
+
+    INSERT INTO public.bids (auction_id, bidder_id, amount)
+    VALUES (p_auction_id, v_bidder_id, p_amount)
+    RETURNING id INTO v_bid_id;
+
+    UPDATE public.auctions
+    SET current_highest_bid = p_amount,
+        highest_bidder_id = v_bidder_id
+    WHERE id = p_auction_id;
+
+    RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, p_amount, p_amount - public.bid_increment_at(v_auction, p_amount), true;
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + public.bid_increment_at(v_auction, v_auction.current_highest_bid), v_auction.starting_price);
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + public.bid_increment_at(v_auction, v_auction.current_highest_bid),
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_top_bid public.bids%ROWTYPE;
+  v_second_amount DECIMAL;
+  v_reserve_price DECIMAL;
+  v_price DECIMAL;
+  v_basis TEXT;
+  v_candle public.auction_candle_secrets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.finalized_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    -- Allocations are recorded first so the closing notifications can see them
+    UPDATE public.bids b
+    SET allocated_quantity = al.allocated_quantity
+    FROM public.multi_unit_allocation(p_auction_id) al
+    WHERE b.id = al.bid_id
+      AND al.allocated_quantity > 0;
+
+    SELECT min(b.amount) INTO v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0;
+
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_price,
+        clearing_price = v_price,
+        outcome = CASE WHEN v_price IS NULL THEN 'no_bids' ELSE 'winning_bid' END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, quantity, unit_price)
+    SELECT v_auction.id, v_auction.seller_id, b.bidder_id, v_price * b.allocated_quantity, b.allocated_quantity, v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0
+    ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'candle' THEN
+    SELECT * INTO v_candle FROM public.auction_candle_secrets WHERE auction_id = p_auction_id;
+
+    -- Bids placed after the candle went out stay on record but never count
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+      AND b.created_at < v_candle.end_time
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    -- The winner and the reveal land in the same update that closes the
+    -- auction, so rewinding past late bids is not reported as an outbid
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_top_bid.amount,
+        highest_bidder_id = v_top_bid.bidder_id,
+        candle_seed = v_candle.seed,
+        candle_end_time = v_candle.end_time,
+        outcome = CASE
+          WHEN v_top_bid.bidder_id IS NULL THEN 'no_bids'
+          WHEN has_reserve AND NOT public.is_reserve_met(id, v_top_bid.amount) THEN 'reserve_not_met'
+          ELSE 'winning_bid'
+        END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF FOUND AND v_auction.outcome = 'winning_bid' THEN
+      INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+      VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+      ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF v_auction.format = 'sealed_first_price' THEN
+        v_price := v_top_bid.amount;
+        v_basis := 'winning_bid';
+      ELSE
+        SELECT b.amount INTO v_second_amount
+        FROM public.bids b
+        WHERE b.auction_id = p_auction_id AND b.id <> v_top_bid.id
+        ORDER BY b.amount DESC
+        LIMIT 1;
+
+        IF v_second_amount IS NULL THEN
+          v_price := v_auction.starting_price;
+          v_basis := 'starting_price';
+        ELSIF v_second_amount + public.bid_increment_at(v_auction, v_second_amount) >= v_top_bid.amount THEN
+          v_price := v_top_bid.amount;
+          v_basis := 'winning_bid';
+        ELSE
+          v_price := v_second_amount + public.bid_increment_at(v_auction, v_second_amount);
+          v_basis := 'second_bid';
+        END IF;
+
+        SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+        IF v_reserve_price IS NOT NULL AND v_top_bid.amount >= v_reserve_price AND v_price < v_reserve_price THEN
+          v_price := v_reserve_price;
+          v_basis := 'reserve_price';
+        END IF;
+      END IF;
+
+      UPDATE public.auctions
+      SET current_highest_bid = v_price,
+          highest_bidder_id = v_top_bid.bidder_id,
+          winning_bid = v_top_bid.amount,
+          clearing_price = v_price,
+          clearing_price_basis = v_basis
+      WHERE id = p_auction_id;
+    END IF;
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+  END IF;
+END;
+$$;
@@ -0,0 +1,576 @@
+-- Bid retraction. A bidder who mistypes an amount can take the bid back soon
+-- after placing it, as long as the auction is not in its final stretch. The
+-- bid stays on record as retracted, the lead falls back to the best remaining
+-- bid, and every retraction is logged with its reason and who made it.
+
+ALTER TABLE public.bids
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retracted'));
+
+CREATE TABLE public.bid_retractions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bid_id UUID NOT NULL UNIQUE REFERENCES public.bids(id) ON DELETE CASCADE,
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  actor_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  previous_highest_bid DECIMAL(10,2),
+  previous_highest_bidder_id UUID REFERENCES public.profiles(user_id),
+  new_highest_bid DECIMAL(10,2),
+  new_highest_bidder_id UUID REFERENCES public.profiles(user_id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bid_retractions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by retract_bid()
+CREATE POLICY "Bidders and sellers can view retractions" ON public.bid_retractions
+  FOR SELECT USING (
+    auth.uid() = actor_id
+    OR EXISTS (SELECT 1 FROM public.auctions a WHERE a.id = auction_id AND a.seller_id = auth.uid())
+  );
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('new_bid', 'outbid', 'auction_ended', 'bid_accepted', 'bid_rejected', 'counter_offer', 'bid_retracted'));
+
+-- Bids can be retracted for an hour after they are placed, and not at all
+-- in an auction's last hour, once a candle window opens, or while a hosted
+-- lot is being called down.
+CREATE OR REPLACE FUNCTION public.retract_bid(p_bid_id UUID, p_reason TEXT)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  current_highest_bid DECIMAL,
+  highest_bidder_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_bid public.bids%ROWTYPE;
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_leader public.bids%ROWTYPE;
+  v_new_highest_bid DECIMAL;
+  v_new_highest_bidder_id UUID;
+BEGIN
+  IF v_actor_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_bid FROM public.bids b WHERE b.id = p_bid_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'bid_not_found'::TEXT, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  -- Same lock as place_bid, so a retraction and a bid never cross
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = v_bid.auction_id
+  FOR UPDATE;
+
+  IF v_bid.bidder_id <> v_actor_id THEN
+    v_reason := 'not_your_bid';
+  ELSIF v_bid.status = 'retracted' THEN
+    v_reason := 'already_retracted';
+  ELSIF v_auction.format NOT IN ('english', 'reverse', 'candle') THEN
+    v_reason := 'retraction_not_supported';
+  ELSIF v_auction.status IN ('ended', 'cancelled') OR v_auction.finalized_at IS NOT NULL OR now() >= v_auction.end_time THEN
+    v_reason := 'auction_not_active';
+  ELSIF now() > v_bid.created_at + interval '1 hour' THEN
+    v_reason := 'retraction_window_passed';
+  ELSIF now() > v_auction.end_time - interval '1 hour'
+     OR now() >= COALESCE(v_auction.candle_window_start, 'infinity')
+     OR COALESCE(v_auction.call_state IN ('going_once', 'going_twice'), false) THEN
+    v_reason := 'final_stretch';
+  ELSIF p_reason IS NULL OR length(btrim(p_reason)) = 0 THEN
+    v_reason := 'reason_required';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, v_auction.current_highest_bid, v_auction.highest_bidder_id;
+    RETURN;
+  END IF;
+
+  UPDATE public.bids SET status = 'retracted' WHERE id = p_bid_id;
+
+  -- A standing maximum would only bid the retracted amount straight back in
+  DELETE FROM public.proxy_bids pb
+  WHERE pb.auction_id = v_auction.id AND pb.bidder_id = v_actor_id;
+
+  SELECT * INTO v_leader
+  FROM public.bids b
+  WHERE b.auction_id = v_auction.id
+    AND b.status = 'active'
+  ORDER BY
+    CASE WHEN v_auction.format = 'reverse' THEN b.amount END ASC,
+    CASE WHEN v_auction.format <> 'reverse' THEN b.amount END DESC,
+    b.created_at ASC
+  LIMIT 1;
+
+  UPDATE public.auctions
+  SET current_highest_bid = v_leader.amount,
+      highest_bidder_id = v_leader.bidder_id
+  WHERE id = v_auction.id
+    AND (current_highest_bid IS DISTINCT FROM v_leader.amount
+         OR highest_bidder_id IS DISTINCT FROM v_leader.bidder_id);
+
+  -- Other bidders' maximums compete again from the rolled-back price
+  IF v_auction.format = 'english' THEN
+    PERFORM public.resolve_proxy_bids(v_auction.id);
+  END IF;
+
+  INSERT INTO public.bid_retractions (
+    bid_id, auction_id, actor_id, reason,
+    previous_highest_bid, previous_highest_bidder_id, new_highest_bid, new_highest_bidder_id
+  )
+  SELECT p_bid_id, a.id, v_actor_id, btrim(p_reason),
+    v_auction.current_highest_bid, v_auction.highest_bidder_id, a.current_highest_bid, a.highest_bidder_id
+  FROM public.auctions a
+  WHERE a.id = v_auction.id
+  RETURNING new_highest_bid, new_highest_bidder_id INTO v_new_highest_bid, v_new_highest_bidder_id;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  VALUES (v_auction.seller_id, v_auction.id, 'bid_retracted', 'A bid was retracted',
+    format('A bid of %s on "%s" was retracted: %s', public.format_amount(v_bid.amount), v_auction.title, btrim(p_reason)),
+    jsonb_build_object('bid_id', p_bid_id, 'amount', v_bid.amount));
+
+  IF v_new_highest_bidder_id IS NOT NULL
+     AND v_new_highest_bidder_id IS DISTINCT FROM v_auction.highest_bidder_id THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (v_new_highest_bidder_id, v_auction.id, 'bid_retracted', 'You are in the lead again',
+      format('The leading bid on "%s" was retracted. Your bid of %s now leads.',
+             v_auction.title, public.format_amount(v_new_highest_bid)),
+      jsonb_build_object('amount', v_new_highest_bid));
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_new_highest_bid, v_new_highest_bidder_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.retract_bid(UUID, TEXT) TO authenticated;
+
+-- Rolling the lead back after a retraction moves the price the wrong way for
+-- an outbid, so only a price that holds or improves counts as one
+DROP TRIGGER enqueue_outbid_email_trigger ON public.auctions;
+
+CREATE TRIGGER enqueue_outbid_email_trigger
+  AFTER UPDATE ON public.auctions
+  FOR EACH ROW
+  WHEN (
+    OLD.highest_bidder_id IS NOT NULL
+    AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+    AND NEW.outcome IS DISTINCT FROM 'bought_now'
+    AND NEW.finalized_at IS NULL
+    AND CASE WHEN NEW.format = 'reverse'
+      THEN NEW.current_highest_bid <= OLD.current_highest_bid
+      ELSE NEW.current_highest_bid >= OLD.current_highest_bid
+    END
+  )
+  EXECUTE FUNCTION public.enqueue_outbid_email();
+
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.highest_bidder_id IS NOT NULL
+     AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+     AND NEW.outcome IS DISTINCT FROM 'bought_now'
+     AND NEW.finalized_at IS NULL
+     AND CASE WHEN NEW.format = 'reverse'
+       THEN NEW.current_highest_bid <= OLD.current_highest_bid
+       ELSE NEW.current_highest_bid >= OLD.current_highest_bid
+     END THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (
+      OLD.highest_bidder_id, NEW.id, 'outbid',
+      CASE WHEN NEW.format = 'reverse' THEN 'You have been undercut' ELSE 'You have been outbid' END,
+      format(CASE WHEN NEW.format = 'reverse' THEN 'The lowest offer on "%s" is now %s.' ELSE 'The price on "%s" is now %s.' END,
+             NEW.title, public.format_amount(NEW.current_highest_bid)),
+      jsonb_build_object('amount', NEW.current_highest_bid)
+    );
+  END IF;
+
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' AND NEW.format = 'sealed_second_price' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed with a highest sealed bid of %s and a second-price clearing price of %s. Review the sale to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.winning_bid), public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your sealed bid of %s is the highest on "%s". Under second-price rules you pay %s.',
+                public.format_amount(NEW.winning_bid), NEW.title, public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid));
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'multi_unit' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+        format('"%s" closed: %s of %s units sold at %s each. Review each sale to accept, reject or counter.',
+               NEW.title, sum(b.allocated_quantity), NEW.quantity, public.format_amount(NEW.clearing_price)),
+        jsonb_build_object('unit_price', NEW.clearing_price, 'units_sold', sum(b.allocated_quantity))
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id AND b.allocated_quantity > 0;
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT b.bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+        format('You won %s of the %s units you bid for on "%s", at %s each.',
+               b.allocated_quantity, b.quantity, NEW.title, public.format_amount(NEW.clearing_price)),
+        jsonb_build_object('unit_price', NEW.clearing_price, 'quantity', b.allocated_quantity)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id AND b.allocated_quantity > 0;
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'reverse' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your request has closed',
+         format('"%s" closed with a lowest offer of %s. Review the offer to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your offer of %s is the lowest on "%s". The buyer will confirm the order shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid))),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid)), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSIF NEW.outcome = 'price_accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your Dutch auction has sold',
+         format('"%s" sold for %s when a buyer accepted the current price.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" at %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'bought_now' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Sold with Buy It Now',
+         format('"%s" sold for %s with Buy It Now.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" for %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'Auction ended',
+        format('"%s" was sold to another buyer with Buy It Now.', NEW.title),
+        jsonb_build_object('outcome', NEW.outcome)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.bidder_id <> NEW.highest_bidder_id;
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+
+    IF NEW.format = 'candle' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'The candle went out before your bid',
+        format('The hidden close of "%s" fell at %s, so bids placed after it did not count.',
+               NEW.title, to_char(NEW.candle_end_time AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS "UTC"')),
+        jsonb_build_object('candle_end_time', NEW.candle_end_time)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.created_at >= NEW.candle_end_time
+        AND b.bidder_id IS DISTINCT FROM NEW.highest_bidder_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.bids counted
+          WHERE counted.auction_id = NEW.id
+            AND counted.bidder_id = b.bidder_id
+            AND counted.created_at < NEW.candle_end_time
+        );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_proxy_bids(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_reserve_price DECIMAL;
+  v_leader_ceiling DECIMAL;
+  v_leader_placed_at TIMESTAMP WITH TIME ZONE;
+  v_candidate RECORD;
+  v_winner_id UUID;
+  v_winner_ceiling DECIMAL;
+  v_runner_up_ceiling DECIMAL;
+  v_price DECIMAL;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+  SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+  IF v_auction.highest_bidder_id IS NOT NULL THEN
+    SELECT GREATEST(v_auction.current_highest_bid, pb.max_amount),
+           CASE WHEN pb.max_amount >= v_auction.current_highest_bid THEN pb.placed_at END
+    INTO v_leader_ceiling, v_leader_placed_at
+    FROM public.proxy_bids pb
+    WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_auction.highest_bidder_id;
+
+    v_leader_ceiling := COALESCE(v_leader_ceiling, v_auction.current_highest_bid);
+
+    IF v_leader_placed_at IS NULL THEN
+      SELECT max(b.created_at) INTO v_leader_placed_at
+      FROM public.bids b
+      WHERE b.auction_id = p_auction_id AND b.bidder_id = v_auction.highest_bidder_id AND b.status = 'active';
+    END IF;
+  END IF;
+
+  FOR v_candidate IN
+    SELECT c.bidder_id, c.ceiling
+    FROM (
+      SELECT pb.bidder_id, pb.max_amount AS ceiling, pb.placed_at
+      FROM public.proxy_bids pb
+      WHERE pb.auction_id = p_auction_id
+        AND pb.bidder_id IS DISTINCT FROM v_auction.highest_bidder_id
+        AND pb.max_amount >= COALESCE(v_auction.current_highest_bid, v_auction.starting_price)
+      UNION ALL
+      SELECT v_auction.highest_bidder_id, v_leader_ceiling, v_leader_placed_at
+      WHERE v_auction.highest_bidder_id IS NOT NULL
+    ) c
+    ORDER BY c.ceiling DESC, c.placed_at ASC
+    LIMIT 2
+  LOOP
+    IF v_winner_id IS NULL THEN
+      v_winner_id := v_candidate.bidder_id;
+      v_winner_ceiling := v_candidate.ceiling;
+    ELSE
+      v_runner_up_ceiling := v_candidate.ceiling;
+    END IF;
+  END LOOP;
+
+  IF v_winner_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_runner_up_ceiling IS NOT NULL THEN
+    v_price := LEAST(v_winner_ceiling, v_runner_up_ceiling + public.bid_increment_at(v_auction, v_runner_up_ceiling));
+  ELSIF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id THEN
+    v_price := v_auction.current_highest_bid;
+  ELSE
+    -- Nobody to compete with: an unopposed proxy opens at the starting price
+    v_price := v_auction.starting_price;
+  END IF;
+
+  IF v_reserve_price IS NOT NULL AND v_price < v_reserve_price THEN
+    v_price := LEAST(v_winner_ceiling, v_reserve_price);
+  END IF;
+
+  IF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id
+     AND v_price <= v_auction.current_highest_bid THEN
+    RETURN;
+  END IF;
+
+  -- clock_timestamp keeps automatic bids ordered after the bid that triggered them
+  INSERT INTO public.bids (auction_id, bidder_id, amount, is_automatic, created_at)
+  VALUES (p_auction_id, v_winner_id, v_price, true, clock_timestamp());
+
+  UPDATE public.auctions
+  SET current_highest_bid = v_price,
+      highest_bidder_id = v_winner_id
+  WHERE id = p_auction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_top_bid public.bids%ROWTYPE;
+  v_second_amount DECIMAL;
+  v_reserve_price DECIMAL;
+  v_price DECIMAL;
+  v_basis TEXT;
+  v_candle public.auction_candle_secrets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.finalized_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    -- Allocations are recorded first so the closing notifications can see them
+    UPDATE public.bids b
+    SET allocated_quantity = al.allocated_quantity
+    FROM public.multi_unit_allocation(p_auction_id) al
+    WHERE b.id = al.bid_id
+      AND al.allocated_quantity > 0;
+
+    SELECT min(b.amount) INTO v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0;
+
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_price,
+        clearing_price = v_price,
+        outcome = CASE WHEN v_price IS NULL THEN 'no_bids' ELSE 'winning_bid' END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, quantity, unit_price)
+    SELECT v_auction.id, v_auction.seller_id, b.bidder_id, v_price * b.allocated_quantity, b.allocated_quantity, v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0
+    ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'candle' THEN
+    SELECT * INTO v_candle FROM public.auction_candle_secrets WHERE auction_id = p_auction_id;
+
+    -- Bids placed after the candle went out stay on record but never count,
+    -- and neither do retracted ones
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+      AND b.created_at < v_candle.end_time
+      AND b.status = 'active'
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    -- The winner and the reveal land in the same update that closes the
+    -- auction, so rewinding past late bids is not reported as an outbid
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_top_bid.amount,
+        highest_bidder_id = v_top_bid.bidder_id,
+        candle_seed = v_candle.seed,
+        candle_end_time = v_candle.end_time,
+        outcome = CASE
+          WHEN v_top_bid.bidder_id IS NULL THEN 'no_bids'
+          WHEN has_reserve AND NOT public.is_reserve_met(id, v_top_bid.amount) THEN 'reserve_not_met'
+          ELSE 'winning_bid'
+        END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF FOUND AND v_auction.outcome = 'winning_bid' THEN
+      INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+      VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+      ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF v_auction.format = 'sealed_first_price' THEN
+        v_price := v_top_bid.amount;
+        v_basis := 'winning_bid';
+      ELSE
+        SELECT b.amount INTO v_second_amount
+        FROM public.bids b
+        WHERE b.auction_id = p_auction_id AND b.id <> v_top_bid.id
+        ORDER BY b.amount DESC
+        LIMIT 1;
+
+        IF v_second_amount IS NULL THEN
+          v_price := v_auction.starting_price;
+          v_basis := 'starting_price';
+        ELSIF v_second_amount + public.bid_increment_at(v_auction, v_second_amount) >= v_top_bid.amount THEN
+          v_price := v_top_bid.amount;
+          v_basis := 'winning_bid';
+        ELSE
+          v_price := v_second_amount + public.bid_increment_at(v_auction, v_second_amount);
+          v_basis := 'second_bid';
+        END IF;
+
+        SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+        IF v_reserve_price IS NOT NULL AND v_top_bid.amount >= v_reserve_price AND v_price < v_reserve_price THEN
+          v_price := v_reserve_price;
+          v_basis := 'reserve_price';
+        END IF;
+      END IF;
+
+      UPDATE public.auctions
+      SET current_highest_bid = v_price,
+          highest_bidder_id = v_top_bid.bidder_id,
+          winning_bid = v_top_bid.amount,
+          clearing_price = v_price,
+          clearing_price_basis = v_basis
+      WHERE id = p_auction_id;
+    END IF;
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id, buyer_id) DO NOTHING;
+  END IF;
+END;
+$$;
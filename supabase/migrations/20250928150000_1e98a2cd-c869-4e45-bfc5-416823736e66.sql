@@ -0,0 +1,367 @@
+-- Multi-round negotiation. After the auction the seller and the winning
+-- bidder can trade counter-offers back and forth, each with a message and an
+-- expiry. Every offer is kept in transaction_offers; the transaction row
+-- carries the latest one in counter_offer_amount/counter_offer_message and a
+-- status that follows it.
+
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_status_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'countered', 'accepted', 'rejected', 'expired', 'completed'));
+
+CREATE TABLE public.transaction_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  message TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'declined', 'countered', 'expired')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX transaction_offers_transaction_id_created_at_idx ON public.transaction_offers (transaction_id, created_at);
+-- At most one offer is waiting for an answer at a time
+CREATE UNIQUE INDEX transaction_offers_open_key ON public.transaction_offers (transaction_id) WHERE status = 'open';
+CREATE INDEX transaction_offers_expires_at_idx ON public.transaction_offers (expires_at) WHERE status = 'open';
+
+ALTER TABLE public.transaction_offers ENABLE ROW LEVEL SECURITY;
+
+-- Written only by respond_to_transaction() and expire_transaction_offers()
+CREATE POLICY "Parties can view their negotiation" ON public.transaction_offers
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.id = transaction_id AND auth.uid() IN (t.seller_id, t.buyer_id)
+    )
+  );
+
+ALTER TABLE public.transaction_offers REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.transaction_offers;
+
+-- Single counters made before this migration become the first entry of their thread
+INSERT INTO public.transaction_offers (transaction_id, auction_id, author_id, amount, message, expires_at, status, responded_at, created_at)
+SELECT t.id, t.auction_id, t.seller_id, t.counter_offer_amount, t.counter_offer_message,
+  GREATEST(COALESCE(t.responded_at, t.updated_at), now()) + interval '48 hours',
+  CASE t.status WHEN 'countered' THEN 'open' WHEN 'rejected' THEN 'declined' ELSE 'accepted' END,
+  CASE WHEN t.status <> 'countered' THEN t.updated_at END,
+  COALESCE(t.responded_at, t.updated_at)
+FROM public.transactions t
+WHERE t.counter_offer_amount IS NOT NULL;
+
+DROP FUNCTION public.respond_to_transaction(UUID, TEXT, DECIMAL, TEXT);
+
+-- The seller answers the winning bid; after that whoever did not make the
+-- open offer answers it. Each counter has to move toward the other side:
+-- the seller asks for more than the buyer last offered, and the buyer offers
+-- less than the seller last asked but never less than the winning bid.
+CREATE OR REPLACE FUNCTION public.respond_to_transaction(
+  p_transaction_id UUID,
+  p_action TEXT,
+  p_counter_amount DECIMAL DEFAULT NULL,
+  p_counter_message TEXT DEFAULT NULL,
+  p_expires_in_hours INTEGER DEFAULT 48
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_transaction public.transactions%ROWTYPE;
+  v_offer public.transaction_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL
+     OR v_user_id NOT IN (v_transaction.seller_id, v_transaction.buyer_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  SELECT * INTO v_offer
+  FROM public.transaction_offers o
+  WHERE o.transaction_id = p_transaction_id AND o.status = 'open';
+
+  -- An offer that ran out ends the negotiation, even before the sweep gets to it
+  IF v_offer.id IS NOT NULL AND v_offer.expires_at <= now() THEN
+    UPDATE public.transaction_offers SET status = 'expired', responded_at = now() WHERE id = v_offer.id;
+    UPDATE public.transactions
+    SET status = 'expired',
+        responded_at = now()
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+    RETURN v_transaction;
+  END IF;
+
+  IF NOT (
+    (v_transaction.status = 'pending' AND v_user_id = v_transaction.seller_id)
+    OR (v_transaction.status = 'countered' AND v_user_id <> v_offer.author_id)
+  ) THEN
+    RAISE EXCEPTION 'This transaction is not awaiting your response';
+  END IF;
+
+  IF p_action = 'accept' THEN
+    v_transaction.status := 'accepted';
+    UPDATE public.transaction_offers SET status = 'accepted', responded_at = now() WHERE id = v_offer.id;
+  ELSIF p_action = 'reject' THEN
+    v_transaction.status := 'rejected';
+    UPDATE public.transaction_offers SET status = 'declined', responded_at = now() WHERE id = v_offer.id;
+  ELSIF p_action = 'counter' THEN
+    IF v_user_id = v_transaction.seller_id THEN
+      IF p_counter_amount IS NULL OR p_counter_amount <= COALESCE(v_offer.amount, v_transaction.final_amount) THEN
+        RAISE EXCEPTION 'Counter-offer must be higher than the buyer''s offer of $%',
+          COALESCE(v_offer.amount, v_transaction.final_amount);
+      END IF;
+    ELSIF p_counter_amount IS NULL OR p_counter_amount <= v_transaction.final_amount OR p_counter_amount >= v_offer.amount THEN
+      RAISE EXCEPTION 'Counter-offer must be between your winning bid of $% and the seller''s $%',
+        v_transaction.final_amount, v_offer.amount;
+    END IF;
+
+    IF p_expires_in_hours IS NULL OR p_expires_in_hours NOT BETWEEN 1 AND 168 THEN
+      RAISE EXCEPTION 'Offers can stay open for between 1 and 168 hours';
+    END IF;
+
+    UPDATE public.transaction_offers SET status = 'countered', responded_at = now() WHERE id = v_offer.id;
+
+    INSERT INTO public.transaction_offers (transaction_id, auction_id, author_id, amount, message, expires_at)
+    VALUES (p_transaction_id, v_transaction.auction_id, v_user_id, p_counter_amount,
+            NULLIF(btrim(p_counter_message), ''), now() + make_interval(hours => p_expires_in_hours));
+
+    v_transaction.status := 'countered';
+    v_transaction.counter_offer_amount := p_counter_amount;
+    v_transaction.counter_offer_message := NULLIF(btrim(p_counter_message), '');
+  ELSE
+    RAISE EXCEPTION 'Unknown response %', p_action;
+  END IF;
+
+  UPDATE public.transactions
+  SET status = v_transaction.status,
+      counter_offer_amount = v_transaction.counter_offer_amount,
+      counter_offer_message = v_transaction.counter_offer_message,
+      responded_at = now()
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_transaction(UUID, TEXT, DECIMAL, TEXT, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.expire_transaction_offers()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_offer public.transaction_offers%ROWTYPE;
+BEGIN
+  FOR v_offer IN
+    SELECT o.*
+    FROM public.transaction_offers o
+    WHERE o.status = 'open'
+      AND o.expires_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.transaction_offers SET status = 'expired', responded_at = now() WHERE id = v_offer.id;
+    UPDATE public.transactions
+    SET status = 'expired',
+        responded_at = now()
+    WHERE id = v_offer.transaction_id
+      AND status = 'countered';
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_transaction_offers() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-transaction-offers',
+  '1 minute',
+  $$SELECT public.expire_transaction_offers()$$
+);
+
+-- Both sides hear about every counter: the one who has to answer it, and the
+-- one who made it
+CREATE OR REPLACE FUNCTION public.notify_transaction_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_transaction public.transactions%ROWTYPE;
+  v_title TEXT;
+  v_recipient_id UUID;
+  v_author_role TEXT;
+  v_recipient_role TEXT;
+  v_deadline TEXT := to_char(NEW.expires_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+BEGIN
+  SELECT * INTO v_transaction FROM public.transactions WHERE id = NEW.transaction_id;
+  SELECT title INTO v_title FROM public.auctions WHERE id = NEW.auction_id;
+
+  IF NEW.author_id = v_transaction.seller_id THEN
+    v_recipient_id := v_transaction.buyer_id;
+    v_author_role := 'seller';
+    v_recipient_role := 'buyer';
+  ELSE
+    v_recipient_id := v_transaction.seller_id;
+    v_author_role := 'buyer';
+    v_recipient_role := 'seller';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  VALUES
+    (v_recipient_id, NEW.auction_id, 'counter_offer', 'You received a counter-offer',
+     format('The %s offered %s on "%s". Respond by %s.', v_author_role, public.format_amount(NEW.amount), v_title, v_deadline),
+     jsonb_build_object('transaction_id', NEW.transaction_id, 'offer_id', NEW.id, 'amount', NEW.amount)),
+    (NEW.author_id, NEW.auction_id, 'counter_offer', 'Counter-offer sent',
+     format('You offered %s on "%s". The %s has until %s to respond.', public.format_amount(NEW.amount), v_title, v_recipient_role, v_deadline),
+     jsonb_build_object('transaction_id', NEW.transaction_id, 'offer_id', NEW.id, 'amount', NEW.amount));
+
+  PERFORM public.enqueue_email(v_recipient_id, NEW.auction_id, 'countered',
+    jsonb_build_object('role', v_author_role, 'amount', v_transaction.final_amount, 'counter_amount', NEW.amount,
+                       'message', NEW.message, 'expires_at', NEW.expires_at));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_transaction_offer_trigger
+  AFTER INSERT ON public.transaction_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_transaction_offer();
+
+-- Tell both parties how the negotiation ended. Counters themselves are
+-- announced by notify_transaction_offer().
+CREATE OR REPLACE FUNCTION public.notify_transaction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_title TEXT;
+  v_offer public.transaction_offers%ROWTYPE;
+  v_other_id UUID;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_title FROM public.auctions WHERE id = NEW.auction_id;
+
+  IF OLD.status = 'pending' AND NEW.status = 'accepted' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.buyer_id, NEW.auction_id, 'bid_accepted', 'Your bid was accepted',
+       format('The seller accepted your bid of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.seller_id, NEW.auction_id, 'bid_accepted', 'Sale confirmed',
+       format('You accepted the winning bid of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'pending' AND NEW.status = 'rejected' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.buyer_id, NEW.auction_id, 'bid_rejected', 'Your bid was rejected',
+       format('The seller declined your winning bid on "%s".', v_title),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.seller_id, NEW.auction_id, 'bid_rejected', 'Winning bid declined',
+       format('You declined the winning bid on "%s". The item was not sold.', v_title),
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'countered' THEN
+    SELECT * INTO v_offer
+    FROM public.transaction_offers o
+    WHERE o.transaction_id = NEW.id
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+
+    v_other_id := CASE WHEN v_offer.author_id = NEW.seller_id THEN NEW.buyer_id ELSE NEW.seller_id END;
+
+    IF NEW.status = 'accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (v_offer.author_id, NEW.auction_id, 'bid_accepted', 'Counter-offer accepted',
+         format('Your counter-offer of %s on "%s" was accepted.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)),
+        (v_other_id, NEW.auction_id, 'bid_accepted', 'Sale agreed',
+         format('You accepted the counter-offer of %s on "%s".', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount));
+    ELSIF NEW.status = 'rejected' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (v_offer.author_id, NEW.auction_id, 'bid_rejected', 'Counter-offer declined',
+         format('Your counter-offer of %s on "%s" was declined.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)),
+        (v_other_id, NEW.auction_id, 'bid_rejected', 'Counter-offer declined',
+         format('You declined the counter-offer of %s on "%s". The item was not sold.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount));
+    ELSIF NEW.status = 'expired' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT party, NEW.auction_id, 'bid_rejected', 'Counter-offer expired',
+        format('The counter-offer of %s on "%s" expired without an answer. The item was not sold.',
+               public.format_amount(v_offer.amount), v_title),
+        jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)
+      FROM unnest(ARRAY[NEW.seller_id, NEW.buyer_id]) AS party;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Counter-offer emails are sent from notify_transaction_offer() as each
+-- counter is made
+CREATE OR REPLACE FUNCTION public.enqueue_transaction_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_offer public.transaction_offers%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status <> 'accepted' THEN
+    SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'won',
+      jsonb_build_object('amount', NEW.final_amount, 'winning_bid', v_auction.winning_bid,
+                         'format', v_auction.format, 'quantity', NEW.quantity, 'unit_price', NEW.unit_price));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    -- Confirmation goes to both sides of the sale
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'buyer', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'seller', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'countered' THEN
+    -- The declined offer's author hears about it
+    SELECT * INTO v_offer
+    FROM public.transaction_offers o
+    WHERE o.transaction_id = NEW.id
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+
+    PERFORM public.enqueue_email(v_offer.author_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', CASE WHEN v_offer.author_id = NEW.seller_id THEN 'seller' ELSE 'buyer' END,
+                         'amount', v_offer.amount, 'counter', true));
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'buyer', 'amount', NEW.final_amount));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,416 @@
+-- Second-chance offers. When a sale falls through, the seller can offer the
+-- item to the next-best bidder at that bidder's own best bid. The offer is a
+-- new transaction on the same auction in the 'offered' state, which only the
+-- runner-up can accept or decline before it expires.
+
+ALTER TABLE public.transactions DROP CONSTRAINT transactions_status_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'offered', 'countered', 'accepted', 'rejected', 'expired', 'completed'));
+
+ALTER TABLE public.transactions
+  ADD COLUMN second_chance BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN offer_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT transactions_second_chance_check CHECK (second_chance = (offer_expires_at IS NOT NULL));
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('new_bid', 'outbid', 'auction_ended', 'bid_accepted', 'bid_rejected', 'counter_offer', 'bid_retracted', 'second_chance_offer'));
+
+ALTER TABLE public.email_queue DROP CONSTRAINT email_queue_template_check;
+ALTER TABLE public.email_queue ADD CONSTRAINT email_queue_template_check
+  CHECK (template IN ('won', 'outbid', 'accepted', 'countered', 'rejected', 'second_chance'));
+
+-- Only once every sale on the auction has been rejected or has expired. The
+-- runner-up is the best remaining bidder without a transaction of their own,
+-- so each second chance moves one place further down the bids.
+CREATE OR REPLACE FUNCTION public.send_second_chance_offer(p_auction_id UUID, p_expires_in_hours INTEGER DEFAULT 48)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_bidder_id UUID;
+  v_amount DECIMAL;
+  v_transaction public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL OR v_auction.seller_id <> v_user_id THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF v_auction.status <> 'ended' THEN
+    RAISE EXCEPTION 'Second-chance offers can only be sent after the auction ends';
+  END IF;
+
+  IF v_auction.format NOT IN ('english', 'sealed_first_price', 'sealed_second_price', 'reverse', 'candle') THEN
+    RAISE EXCEPTION 'Second-chance offers are not available for this auction format';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transactions t WHERE t.auction_id = p_auction_id) THEN
+    RAISE EXCEPTION 'This auction has no sale to replace';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.auction_id = p_auction_id
+      AND t.status NOT IN ('rejected', 'expired')
+  ) THEN
+    RAISE EXCEPTION 'A sale on this auction is still open';
+  END IF;
+
+  IF p_expires_in_hours IS NULL OR p_expires_in_hours NOT BETWEEN 1 AND 168 THEN
+    RAISE EXCEPTION 'Offers can stay open for between 1 and 168 hours';
+  END IF;
+
+  SELECT b.bidder_id,
+         CASE WHEN v_auction.format = 'reverse' THEN min(b.amount) ELSE max(b.amount) END
+  INTO v_bidder_id, v_amount
+  FROM public.bids b
+  WHERE b.auction_id = p_auction_id
+    AND b.status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.auction_id = p_auction_id AND t.buyer_id = b.bidder_id
+    )
+  GROUP BY b.bidder_id
+  ORDER BY
+    CASE WHEN v_auction.format = 'reverse' THEN min(b.amount) END ASC,
+    CASE WHEN v_auction.format <> 'reverse' THEN max(b.amount) END DESC,
+    min(b.created_at) ASC
+  LIMIT 1;
+
+  IF v_bidder_id IS NULL THEN
+    RAISE EXCEPTION 'There are no other bidders to make an offer to';
+  END IF;
+
+  INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, status, second_chance, offer_expires_at)
+  VALUES (p_auction_id, v_auction.seller_id, v_bidder_id, v_amount, 'offered', true,
+          now() + make_interval(hours => p_expires_in_hours))
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  VALUES (v_bidder_id, p_auction_id, 'second_chance_offer', 'Second-chance offer',
+          format('The seller of "%s" is offering it to you at your bid of %s. Respond by %s.',
+                 v_auction.title, public.format_amount(v_amount),
+                 to_char(v_transaction.offer_expires_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"')),
+          jsonb_build_object('transaction_id', v_transaction.id, 'amount', v_amount,
+                             'expires_at', v_transaction.offer_expires_at));
+
+  RETURN v_transaction;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.send_second_chance_offer(UUID, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.respond_to_transaction(
+  p_transaction_id UUID,
+  p_action TEXT,
+  p_counter_amount DECIMAL DEFAULT NULL,
+  p_counter_message TEXT DEFAULT NULL,
+  p_expires_in_hours INTEGER DEFAULT 48
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_transaction public.transactions%ROWTYPE;
+  v_offer public.transaction_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL
+     OR v_user_id NOT IN (v_transaction.seller_id, v_transaction.buyer_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  -- A second-chance offer is answered by the runner-up alone, with a yes or no
+  IF v_transaction.status = 'offered' THEN
+    IF v_user_id <> v_transaction.buyer_id THEN
+      RAISE EXCEPTION 'This transaction is not awaiting your response';
+    END IF;
+
+    IF v_transaction.offer_expires_at <= now() THEN
+      v_transaction.status := 'expired';
+    ELSIF p_action = 'accept' THEN
+      v_transaction.status := 'accepted';
+    ELSIF p_action = 'reject' THEN
+      v_transaction.status := 'rejected';
+    ELSE
+      RAISE EXCEPTION 'Second-chance offers can only be accepted or declined';
+    END IF;
+
+    UPDATE public.transactions
+    SET status = v_transaction.status,
+        responded_at = now()
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    RETURN v_transaction;
+  END IF;
+
+  SELECT * INTO v_offer
+  FROM public.transaction_offers o
+  WHERE o.transaction_id = p_transaction_id AND o.status = 'open';
+
+  -- An offer that ran out ends the negotiation, even before the sweep gets to it
+  IF v_offer.id IS NOT NULL AND v_offer.expires_at <= now() THEN
+    UPDATE public.transaction_offers SET status = 'expired', responded_at = now() WHERE id = v_offer.id;
+    UPDATE public.transactions
+    SET status = 'expired',
+        responded_at = now()
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+    RETURN v_transaction;
+  END IF;
+
+  IF NOT (
+    (v_transaction.status = 'pending' AND v_user_id = v_transaction.seller_id)
+    OR (v_transaction.status = 'countered' AND v_user_id <> v_offer.author_id)
+  ) THEN
+    RAISE EXCEPTION 'This transaction is not awaiting your response';
+  END IF;
+
+  IF p_action = 'accept' THEN
+    v_transaction.status := 'accepted';
+    UPDATE public.transaction_offers SET status = 'accepted', responded_at = now() WHERE id = v_offer.id;
+  ELSIF p_action = 'reject' THEN
+    v_transaction.status := 'rejected';
+    UPDATE public.transaction_offers SET status = 'declined', responded_at = now() WHERE id = v_offer.id;
+  ELSIF p_action = 'counter' THEN
+    IF v_user_id = v_transaction.seller_id THEN
+      IF p_counter_amount IS NULL OR p_counter_amount <= COALESCE(v_offer.amount, v_transaction.final_amount) THEN
+        RAISE EXCEPTION 'Counter-offer must be higher than the buyer''s offer of $%',
+          COALESCE(v_offer.amount, v_transaction.final_amount);
+      END IF;
+    ELSIF p_counter_amount IS NULL OR p_counter_amount <= v_transaction.final_amount OR p_counter_amount >= v_offer.amount THEN
+      RAISE EXCEPTION 'Counter-offer must be between your winning bid of $% and the seller''s $%',
+        v_transaction.final_amount, v_offer.amount;
+    END IF;
+
+    IF p_expires_in_hours IS NULL OR p_expires_in_hours NOT BETWEEN 1 AND 168 THEN
+      RAISE EXCEPTION 'Offers can stay open for between 1 and 168 hours';
+    END IF;
+
+    UPDATE public.transaction_offers SET status = 'countered', responded_at = now() WHERE id = v_offer.id;
+
+    INSERT INTO public.transaction_offers (transaction_id, auction_id, author_id, amount, message, expires_at)
+    VALUES (p_transaction_id, v_transaction.auction_id, v_user_id, p_counter_amount,
+            NULLIF(btrim(p_counter_message), ''), now() + make_interval(hours => p_expires_in_hours));
+
+    v_transaction.status := 'countered';
+    v_transaction.counter_offer_amount := p_counter_amount;
+    v_transaction.counter_offer_message := NULLIF(btrim(p_counter_message), '');
+  ELSE
+    RAISE EXCEPTION 'Unknown response %', p_action;
+  END IF;
+
+  UPDATE public.transactions
+  SET status = v_transaction.status,
+      counter_offer_amount = v_transaction.counter_offer_amount,
+      counter_offer_message = v_transaction.counter_offer_message,
+      responded_at = now()
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.expire_transaction_offers()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_offer public.transaction_offers%ROWTYPE;
+BEGIN
+  FOR v_offer IN
+    SELECT o.*
+    FROM public.transaction_offers o
+    WHERE o.status = 'open'
+      AND o.expires_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.transaction_offers SET status = 'expired', responded_at = now() WHERE id = v_offer.id;
+    UPDATE public.transactions
+    SET status = 'expired',
+        responded_at = now()
+    WHERE id = v_offer.transaction_id
+      AND status = 'countered';
+  END LOOP;
+
+  UPDATE public.transactions
+  SET status = 'expired',
+      responded_at = now()
+  WHERE status = 'offered'
+    AND offer_expires_at <= now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_transaction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_title TEXT;
+  v_offer public.transaction_offers%ROWTYPE;
+  v_other_id UUID;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_title FROM public.auctions WHERE id = NEW.auction_id;
+
+  IF OLD.status = 'pending' AND NEW.status = 'accepted' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.buyer_id, NEW.auction_id, 'bid_accepted', 'Your bid was accepted',
+       format('The seller accepted your bid of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.seller_id, NEW.auction_id, 'bid_accepted', 'Sale confirmed',
+       format('You accepted the winning bid of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'pending' AND NEW.status = 'rejected' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.buyer_id, NEW.auction_id, 'bid_rejected', 'Your bid was rejected',
+       format('The seller declined your winning bid on "%s".', v_title),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.seller_id, NEW.auction_id, 'bid_rejected', 'Winning bid declined',
+       format('You declined the winning bid on "%s". The item was not sold.', v_title),
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'offered' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.seller_id, NEW.auction_id, CASE WHEN NEW.status = 'accepted' THEN 'bid_accepted' ELSE 'bid_rejected' END,
+       CASE NEW.status
+         WHEN 'accepted' THEN 'Second-chance offer accepted'
+         WHEN 'rejected' THEN 'Second-chance offer declined'
+         ELSE 'Second-chance offer expired'
+       END,
+       format('Your second-chance offer of %s on "%s" was %s.', public.format_amount(NEW.final_amount), v_title,
+              CASE NEW.status WHEN 'accepted' THEN 'accepted' WHEN 'rejected' THEN 'declined' ELSE 'not answered in time' END),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.buyer_id, NEW.auction_id, CASE WHEN NEW.status = 'accepted' THEN 'bid_accepted' ELSE 'bid_rejected' END,
+       CASE NEW.status
+         WHEN 'accepted' THEN 'Purchase confirmed'
+         WHEN 'rejected' THEN 'Second-chance offer declined'
+         ELSE 'Second-chance offer expired'
+       END,
+       CASE NEW.status
+         WHEN 'accepted' THEN format('You bought "%s" for %s.', v_title, public.format_amount(NEW.final_amount))
+         WHEN 'rejected' THEN format('You declined the second-chance offer on "%s".', v_title)
+         ELSE format('The second-chance offer on "%s" expired.', v_title)
+       END,
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'countered' THEN
+    SELECT * INTO v_offer
+    FROM public.transaction_offers o
+    WHERE o.transaction_id = NEW.id
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+
+    v_other_id := CASE WHEN v_offer.author_id = NEW.seller_id THEN NEW.buyer_id ELSE NEW.seller_id END;
+
+    IF NEW.status = 'accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (v_offer.author_id, NEW.auction_id, 'bid_accepted', 'Counter-offer accepted',
+         format('Your counter-offer of %s on "%s" was accepted.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)),
+        (v_other_id, NEW.auction_id, 'bid_accepted', 'Sale agreed',
+         format('You accepted the counter-offer of %s on "%s".', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount));
+    ELSIF NEW.status = 'rejected' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (v_offer.author_id, NEW.auction_id, 'bid_rejected', 'Counter-offer declined',
+         format('Your counter-offer of %s on "%s" was declined.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)),
+        (v_other_id, NEW.auction_id, 'bid_rejected', 'Counter-offer declined',
+         format('You declined the counter-offer of %s on "%s". The item was not sold.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount));
+    ELSIF NEW.status = 'expired' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT party, NEW.auction_id, 'bid_rejected', 'Counter-offer expired',
+        format('The counter-offer of %s on "%s" expired without an answer. The item was not sold.',
+               public.format_amount(v_offer.amount), v_title),
+        jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)
+      FROM unnest(ARRAY[NEW.seller_id, NEW.buyer_id]) AS party;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_transaction_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_offer public.transaction_offers%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status = 'offered' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'second_chance',
+      jsonb_build_object('amount', NEW.final_amount, 'expires_at', NEW.offer_expires_at));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'accepted' THEN
+    SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'won',
+      jsonb_build_object('amount', NEW.final_amount, 'winning_bid', v_auction.winning_bid,
+                         'format', v_auction.format, 'quantity', NEW.quantity, 'unit_price', NEW.unit_price));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    -- Confirmation goes to both sides of the sale
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'buyer', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'seller', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'countered' THEN
+    -- The declined offer's author hears about it
+    SELECT * INTO v_offer
+    FROM public.transaction_offers o
+    WHERE o.transaction_id = NEW.id
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+
+    PERFORM public.enqueue_email(v_offer.author_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', CASE WHEN v_offer.author_id = NEW.seller_id THEN 'seller' ELSE 'buyer' END,
+                         'amount', v_offer.amount, 'counter', true));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'pending' THEN
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', 'buyer', 'amount', NEW.final_amount));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,212 @@
+-- Order fulfilment. Once a sale is accepted it moves through payment,
+-- shipping and delivery until the buyer releases it as completed, or either
+-- side raises a dispute. fulfilment_status tracks that lifecycle alongside the
+-- negotiation status, and every step is recorded in fulfilment_events.
+
+ALTER TABLE public.transactions
+  ADD COLUMN fulfilment_status TEXT CHECK (fulfilment_status IN ('payment_pending', 'paid', 'shipped', 'delivered', 'completed', 'disputed')),
+  ADD COLUMN shipping_carrier TEXT,
+  ADD COLUMN tracking_number TEXT,
+  ADD COLUMN dispute_reason TEXT,
+  ADD CONSTRAINT transactions_fulfilment_check CHECK (
+    fulfilment_status IS NULL OR status IN ('accepted', 'completed')
+  );
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('new_bid', 'outbid', 'auction_ended', 'bid_accepted', 'bid_rejected', 'counter_offer', 'bid_retracted', 'second_chance_offer', 'order_update'));
+
+CREATE TABLE public.fulfilment_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  -- NULL when the platform made the move
+  actor_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  shipping_carrier TEXT,
+  tracking_number TEXT,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX fulfilment_events_transaction_id_created_at_idx ON public.fulfilment_events (transaction_id, created_at);
+
+ALTER TABLE public.fulfilment_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by log_fulfilment_change()
+CREATE POLICY "Parties can view their order history" ON public.fulfilment_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.id = transaction_id AND auth.uid() IN (t.seller_id, t.buyer_id)
+    )
+  );
+
+ALTER TABLE public.fulfilment_events REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.fulfilment_events;
+
+-- Every accepted sale starts out waiting for payment
+CREATE OR REPLACE FUNCTION public.start_fulfilment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND NEW.fulfilment_status IS NULL THEN
+    NEW.fulfilment_status := 'payment_pending';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER start_fulfilment_trigger
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.start_fulfilment();
+
+-- Record each step and tell the other party about it
+CREATE OR REPLACE FUNCTION public.log_fulfilment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_from TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.fulfilment_status END;
+  v_actor_id UUID := auth.uid();
+  v_title TEXT;
+  v_recipients UUID[];
+  v_message TEXT;
+BEGIN
+  IF NEW.fulfilment_status IS NULL OR NEW.fulfilment_status IS NOT DISTINCT FROM v_from THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.fulfilment_events (transaction_id, actor_id, from_status, to_status, shipping_carrier, tracking_number, note)
+  VALUES (
+    NEW.id, v_actor_id, v_from, NEW.fulfilment_status,
+    CASE WHEN NEW.fulfilment_status = 'shipped' THEN NEW.shipping_carrier END,
+    CASE WHEN NEW.fulfilment_status = 'shipped' THEN NEW.tracking_number END,
+    CASE WHEN NEW.fulfilment_status = 'disputed' THEN NEW.dispute_reason END
+  );
+
+  -- The acceptance itself is announced by notify_transaction_change()
+  IF v_from IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_title FROM public.auctions WHERE id = NEW.auction_id;
+
+  v_recipients := CASE
+    WHEN v_actor_id = NEW.seller_id THEN ARRAY[NEW.buyer_id]
+    WHEN v_actor_id = NEW.buyer_id THEN ARRAY[NEW.seller_id]
+    ELSE ARRAY[NEW.seller_id, NEW.buyer_id]
+  END;
+
+  v_message := CASE NEW.fulfilment_status
+    WHEN 'paid' THEN format('Payment for "%s" has been received.', v_title)
+    WHEN 'shipped' THEN format('"%s" has shipped with %s, tracking number %s.', v_title, NEW.shipping_carrier, NEW.tracking_number)
+    WHEN 'delivered' THEN format('The buyer confirmed delivery of "%s".', v_title)
+    WHEN 'completed' THEN format('The order for "%s" is complete.', v_title)
+    WHEN 'disputed' THEN format('A dispute was opened on "%s": %s', v_title, NEW.dispute_reason)
+  END;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  SELECT recipient, NEW.auction_id, 'order_update',
+    CASE NEW.fulfilment_status
+      WHEN 'paid' THEN 'Payment received'
+      WHEN 'shipped' THEN 'Order shipped'
+      WHEN 'delivered' THEN 'Order delivered'
+      WHEN 'completed' THEN 'Order completed'
+      WHEN 'disputed' THEN 'Dispute opened'
+    END,
+    v_message,
+    jsonb_build_object('transaction_id', NEW.id, 'fulfilment_status', NEW.fulfilment_status)
+  FROM unnest(v_recipients) AS recipient;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_fulfilment_change_trigger
+  AFTER INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_fulfilment_change();
+
+-- Sales agreed before fulfilment existed start at payment
+UPDATE public.transactions
+SET fulfilment_status = 'payment_pending'
+WHERE status = 'accepted';
+
+-- The only way to move an order along. The seller confirms payment and
+-- ships; the buyer confirms delivery and releases the order. Either side can
+-- dispute a paid order until it is completed, and the buyer closes a dispute
+-- by completing the order.
+CREATE OR REPLACE FUNCTION public.advance_fulfilment(
+  p_transaction_id UUID,
+  p_status TEXT,
+  p_carrier TEXT DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_transaction public.transactions%ROWTYPE;
+  v_is_seller BOOLEAN;
+  v_is_buyer BOOLEAN;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL
+     OR v_user_id NOT IN (v_transaction.seller_id, v_transaction.buyer_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.fulfilment_status IS NULL THEN
+    RAISE EXCEPTION 'This sale has not been agreed yet';
+  END IF;
+
+  v_is_seller := v_user_id = v_transaction.seller_id;
+  v_is_buyer := v_user_id = v_transaction.buyer_id;
+
+  IF NOT (
+    (p_status = 'paid' AND v_transaction.fulfilment_status = 'payment_pending' AND v_is_seller)
+    OR (p_status = 'shipped' AND v_transaction.fulfilment_status = 'paid' AND v_is_seller)
+    OR (p_status = 'delivered' AND v_transaction.fulfilment_status = 'shipped' AND v_is_buyer)
+    OR (p_status = 'completed' AND v_transaction.fulfilment_status IN ('delivered', 'disputed') AND v_is_buyer)
+    OR (p_status = 'disputed' AND v_transaction.fulfilment_status IN ('paid', 'shipped', 'delivered'))
+  ) THEN
+    RAISE EXCEPTION 'You can''t move this order from % to %',
+      replace(v_transaction.fulfilment_status, '_', ' '), replace(p_status, '_', ' ');
+  END IF;
+
+  IF p_status = 'shipped' AND (NULLIF(btrim(p_carrier), '') IS NULL OR NULLIF(btrim(p_tracking_number), '') IS NULL) THEN
+    RAISE EXCEPTION 'Enter the carrier and tracking number';
+  END IF;
+
+  IF p_status = 'disputed' AND NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Describe the problem to open a dispute';
+  END IF;
+
+  UPDATE public.transactions
+  SET fulfilment_status = p_status,
+      status = CASE WHEN p_status = 'completed' THEN 'completed' ELSE status END,
+      shipping_carrier = CASE WHEN p_status = 'shipped' THEN btrim(p_carrier) ELSE shipping_carrier END,
+      tracking_number = CASE WHEN p_status = 'shipped' THEN btrim(p_tracking_number) ELSE tracking_number END,
+      dispute_reason = CASE WHEN p_status = 'disputed' THEN btrim(p_reason) ELSE dispute_reason END
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.advance_fulfilment(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,123 @@
+-- Payments. The buyer pays an agreed sale through a payment provider; the
+-- create-payment-intent and confirm-payment edge functions talk to the
+-- provider, and only its signed webhooks (via payment-webhook) change what
+-- is recorded here.
+
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_payment_id TEXT NOT NULL,
+  client_secret TEXT,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  status TEXT NOT NULL DEFAULT 'requires_confirmation'
+    CHECK (status IN ('requires_confirmation', 'succeeded', 'failed', 'refunded')),
+  failure_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_payment_id)
+);
+
+CREATE INDEX payments_transaction_id_idx ON public.payments (transaction_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the edge functions and record_payment_event()
+CREATE POLICY "Parties can view payments for their sales" ON public.payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.id = transaction_id AND auth.uid() IN (t.seller_id, t.buyer_id)
+    )
+  );
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.payments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payments;
+
+-- Every webhook event handled, so a redelivery is recognised and skipped
+CREATE TABLE public.payment_webhook_events (
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  provider_payment_id TEXT NOT NULL,
+  payload JSONB,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (provider, event_id)
+);
+
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Applies one verified webhook event. Returns false when the event was
+-- already handled; event types it doesn't act on are only logged. A
+-- successful payment moves the order from payment_pending to paid; later or
+-- repeated successes leave it alone.
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_type TEXT,
+  p_provider_payment_id TEXT,
+  p_failure_message TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  INSERT INTO public.payment_webhook_events (provider, event_id, type, provider_payment_id, payload)
+  VALUES (p_provider, p_event_id, p_type, p_provider_payment_id, p_payload)
+  ON CONFLICT (provider, event_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments p
+  WHERE p.provider = p_provider AND p.provider_payment_id = p_provider_payment_id
+  FOR UPDATE;
+
+  -- Raising rolls back the event row too, so the provider's retry is handled
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', p_provider_payment_id;
+  END IF;
+
+  IF p_type = 'payment.succeeded' THEN
+    UPDATE public.payments
+    SET status = 'succeeded',
+        failure_message = NULL
+    WHERE id = v_payment.id
+      AND status IN ('requires_confirmation', 'failed');
+
+    UPDATE public.transactions
+    SET fulfilment_status = 'paid'
+    WHERE id = v_payment.transaction_id
+      AND fulfilment_status = 'payment_pending';
+  ELSIF p_type = 'payment.failed' THEN
+    UPDATE public.payments
+    SET status = 'failed',
+        failure_message = p_failure_message
+    WHERE id = v_payment.id
+      AND status = 'requires_confirmation';
+  ELSIF p_type = 'payment.refunded' THEN
+    UPDATE public.payments
+    SET status = 'refunded'
+    WHERE id = v_payment.id
+      AND status = 'succeeded';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_event(TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_event(TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) TO service_role;
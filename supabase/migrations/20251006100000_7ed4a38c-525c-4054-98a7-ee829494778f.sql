@@ -0,0 +1,329 @@
+-- Platform fees. Each sale carries a seller commission and a buyer's
+-- premium, each a percentage with an optional floor and ceiling. The platform
+-- default can be overridden per auction category. Money moving through the
+-- platform is recorded in a double-entry ledger, from which sellers see their
+-- balance and take payouts.
+
+ALTER TABLE public.auctions
+  ADD COLUMN category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('art', 'collectibles', 'electronics', 'fashion', 'home', 'jewelry', 'vehicles', 'other'));
+
+-- A row with no category is the platform default
+CREATE TABLE public.fee_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category TEXT UNIQUE NULLS NOT DISTINCT
+    CHECK (category IN ('art', 'collectibles', 'electronics', 'fashion', 'home', 'jewelry', 'vehicles', 'other')),
+  seller_commission_rate DECIMAL(5,4) NOT NULL CHECK (seller_commission_rate BETWEEN 0 AND 1),
+  seller_commission_min DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (seller_commission_min >= 0),
+  seller_commission_max DECIMAL(10,2) CHECK (seller_commission_max >= seller_commission_min),
+  buyer_premium_rate DECIMAL(5,4) NOT NULL CHECK (buyer_premium_rate BETWEEN 0 AND 1),
+  buyer_premium_min DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (buyer_premium_min >= 0),
+  buyer_premium_max DECIMAL(10,2) CHECK (buyer_premium_max >= buyer_premium_min),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Public so sellers and bidders can see what they will pay; changed by the platform only
+CREATE POLICY "Anyone can view fee schedules" ON public.fee_schedules
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_fee_schedules_updated_at
+  BEFORE UPDATE ON public.fee_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.fee_schedules
+  (category, seller_commission_rate, seller_commission_min, seller_commission_max, buyer_premium_rate, buyer_premium_min, buyer_premium_max)
+VALUES
+  (NULL, 0.10, 1.00, 500.00, 0.05, 0, NULL),
+  ('art', 0.10, 1.00, 2500.00, 0.15, 0, NULL),
+  ('vehicles', 0.05, 25.00, 750.00, 0.025, 0, 1000.00);
+
+-- Transactions keep the terms they were created under, so a later change to
+-- the schedule doesn't reprice them. Sales made before fees existed have no
+-- terms and pay none.
+ALTER TABLE public.transactions
+  ADD COLUMN fee_terms JSONB,
+  ADD COLUMN seller_commission DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN buyer_premium DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- A percentage of the amount, held between the floor and the ceiling, and
+-- never more than the amount itself
+CREATE OR REPLACE FUNCTION public.fee_amount(p_amount DECIMAL, p_rate DECIMAL, p_min DECIMAL, p_max DECIMAL)
+RETURNS DECIMAL
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT LEAST(round(GREATEST(p_amount * p_rate, p_min), 2), COALESCE(p_max, p_amount), p_amount);
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_fees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_terms JSONB;
+  v_price DECIMAL;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT to_jsonb(f) - 'id' - 'created_at' - 'updated_at' INTO v_terms
+    FROM public.fee_schedules f
+    WHERE f.category IS NULL
+       OR f.category = (SELECT a.category FROM public.auctions a WHERE a.id = NEW.auction_id)
+    ORDER BY f.category NULLS LAST
+    LIMIT 1;
+
+    NEW.fee_terms := v_terms;
+  ELSIF NEW.final_amount IS NOT DISTINCT FROM OLD.final_amount
+        AND NEW.counter_offer_amount IS NOT DISTINCT FROM OLD.counter_offer_amount
+        AND NEW.fee_terms IS NOT DISTINCT FROM OLD.fee_terms THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.fee_terms IS NULL THEN
+    NEW.seller_commission := 0;
+    NEW.buyer_premium := 0;
+    RETURN NEW;
+  END IF;
+
+  -- Fees follow the price actually agreed, including any counter-offer
+  v_price := COALESCE(NEW.counter_offer_amount, NEW.final_amount);
+  NEW.seller_commission := public.fee_amount(v_price,
+    (NEW.fee_terms->>'seller_commission_rate')::DECIMAL,
+    (NEW.fee_terms->>'seller_commission_min')::DECIMAL,
+    (NEW.fee_terms->>'seller_commission_max')::DECIMAL);
+  NEW.buyer_premium := public.fee_amount(v_price,
+    (NEW.fee_terms->>'buyer_premium_rate')::DECIMAL,
+    (NEW.fee_terms->>'buyer_premium_min')::DECIMAL,
+    (NEW.fee_terms->>'buyer_premium_max')::DECIMAL);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_transaction_fees_trigger
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_transaction_fees();
+
+-- The ledger. Every posting is a journal of entries that sum to zero: debits
+-- are positive, credits negative. cash is money held by the platform,
+-- seller_payable what it owes each seller, platform_revenue the fees earned.
+CREATE TABLE public.ledger_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  journal_id UUID NOT NULL,
+  account TEXT NOT NULL CHECK (account IN ('cash', 'seller_payable', 'platform_revenue')),
+  user_id UUID REFERENCES public.profiles(user_id),
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('sale', 'seller_commission', 'buyer_premium', 'payout', 'refund')),
+  transaction_id UUID REFERENCES public.transactions(id),
+  payment_id UUID REFERENCES public.payments(id),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+  description TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((account = 'seller_payable') = (user_id IS NOT NULL))
+);
+
+CREATE INDEX ledger_entries_journal_id_idx ON public.ledger_entries (journal_id);
+CREATE INDEX ledger_entries_user_id_created_at_idx ON public.ledger_entries (user_id, created_at);
+
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Append-only, written by post_payment_to_ledger() and request_payout()
+CREATE POLICY "Sellers can view their own ledger entries" ON public.ledger_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.check_journal_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF (SELECT sum(l.amount) FROM public.ledger_entries l WHERE l.journal_id = NEW.journal_id) <> 0 THEN
+    RAISE EXCEPTION 'Ledger journal % does not balance', NEW.journal_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Checked at commit, once the whole journal is in
+CREATE CONSTRAINT TRIGGER check_journal_balance_trigger
+  AFTER INSERT ON public.ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_journal_balance();
+
+-- Posts a received payment, or reverses it for a refund. The buyer pays the
+-- agreed price plus the premium; the seller is owed the price less commission.
+CREATE OR REPLACE FUNCTION public.post_payment_to_ledger(p_payment_id UUID, p_reverse BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_transaction public.transactions%ROWTYPE;
+  v_journal_id UUID := gen_random_uuid();
+  v_sign INTEGER := CASE WHEN p_reverse THEN -1 ELSE 1 END;
+  v_prefix TEXT := CASE WHEN p_reverse THEN 'Refund: ' ELSE '' END;
+  v_price DECIMAL;
+  v_title TEXT;
+BEGIN
+  SELECT t.* INTO v_transaction
+  FROM public.transactions t
+  JOIN public.payments p ON p.transaction_id = t.id
+  WHERE p.id = p_payment_id;
+
+  SELECT title INTO v_title FROM public.auctions WHERE id = v_transaction.auction_id;
+  v_price := COALESCE(v_transaction.counter_offer_amount, v_transaction.final_amount);
+
+  INSERT INTO public.ledger_entries (journal_id, account, user_id, entry_type, transaction_id, payment_id, amount, description)
+  SELECT v_journal_id, entry.account, entry.user_id,
+         CASE WHEN p_reverse THEN 'refund' ELSE entry.entry_type END,
+         v_transaction.id, p_payment_id, v_sign * entry.amount, v_prefix || entry.description
+  FROM (VALUES
+    ('cash', NULL::UUID, 'sale', v_price + v_transaction.buyer_premium, format('Payment for "%s"', v_title)),
+    ('seller_payable', v_transaction.seller_id, 'sale', -v_price, format('Sale of "%s"', v_title)),
+    ('seller_payable', v_transaction.seller_id, 'seller_commission', v_transaction.seller_commission, format('Commission on "%s"', v_title)),
+    ('platform_revenue', NULL::UUID, 'seller_commission', -v_transaction.seller_commission, format('Commission on "%s"', v_title)),
+    ('platform_revenue', NULL::UUID, 'buyer_premium', -v_transaction.buyer_premium, format('Buyer''s premium on "%s"', v_title))
+  ) AS entry(account, user_id, entry_type, amount, description)
+  WHERE entry.amount <> 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_payment_to_ledger(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- What the platform owes the caller. Money from orders that aren't completed
+-- yet is pending; the rest is available to pay out.
+CREATE OR REPLACE FUNCTION public.seller_balance()
+RETURNS TABLE (
+  available DECIMAL,
+  pending DECIMAL,
+  paid_out DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    COALESCE(-sum(l.amount) FILTER (WHERE l.transaction_id IS NULL OR t.fulfilment_status = 'completed'), 0),
+    COALESCE(-sum(l.amount) FILTER (WHERE l.transaction_id IS NOT NULL AND t.fulfilment_status IS DISTINCT FROM 'completed'), 0),
+    COALESCE(sum(l.amount) FILTER (WHERE l.entry_type = 'payout'), 0)
+  FROM public.ledger_entries l
+  LEFT JOIN public.transactions t ON t.id = l.transaction_id
+  WHERE l.account = 'seller_payable'
+    AND l.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.seller_balance() TO authenticated;
+
+-- Pays out the whole available balance
+CREATE OR REPLACE FUNCTION public.request_payout()
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_available DECIMAL;
+  v_journal_id UUID := gen_random_uuid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to request a payout';
+  END IF;
+
+  -- One payout at a time per seller
+  PERFORM 1 FROM public.profiles WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT b.available INTO v_available FROM public.seller_balance() b;
+
+  IF v_available <= 0 THEN
+    RAISE EXCEPTION 'You have no funds available to pay out';
+  END IF;
+
+  INSERT INTO public.ledger_entries (journal_id, account, user_id, entry_type, amount, description)
+  VALUES
+    (v_journal_id, 'seller_payable', v_user_id, 'payout', v_available, 'Payout'),
+    (v_journal_id, 'cash', NULL, 'payout', -v_available, 'Payout');
+
+  RETURN v_available;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_payout() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_type TEXT,
+  p_provider_payment_id TEXT,
+  p_failure_message TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  INSERT INTO public.payment_webhook_events (provider, event_id, type, provider_payment_id, payload)
+  VALUES (p_provider, p_event_id, p_type, p_provider_payment_id, p_payload)
+  ON CONFLICT (provider, event_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments p
+  WHERE p.provider = p_provider AND p.provider_payment_id = p_provider_payment_id
+  FOR UPDATE;
+
+  -- Raising rolls back the event row too, so the provider's retry is handled
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', p_provider_payment_id;
+  END IF;
+
+  IF p_type = 'payment.succeeded' THEN
+    UPDATE public.payments
+    SET status = 'succeeded',
+        failure_message = NULL
+    WHERE id = v_payment.id
+      AND status IN ('requires_confirmation', 'failed');
+
+    IF FOUND THEN
+      PERFORM public.post_payment_to_ledger(v_payment.id, false);
+    END IF;
+
+    UPDATE public.transactions
+    SET fulfilment_status = 'paid'
+    WHERE id = v_payment.transaction_id
+      AND fulfilment_status = 'payment_pending';
+  ELSIF p_type = 'payment.failed' THEN
+    UPDATE public.payments
+    SET status = 'failed',
+        failure_message = p_failure_message
+    WHERE id = v_payment.id
+      AND status = 'requires_confirmation';
+  ELSIF p_type = 'payment.refunded' THEN
+    UPDATE public.payments
+    SET status = 'refunded'
+    WHERE id = v_payment.id
+      AND status = 'succeeded';
+
+    IF FOUND THEN
+      PERFORM public.post_payment_to_ledger(v_payment.id, true);
+    END IF;
+  END IF;
+
+  RETURN true;
+END;
+$$;
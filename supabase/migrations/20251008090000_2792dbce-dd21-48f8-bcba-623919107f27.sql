@@ -0,0 +1,69 @@
+-- Sellers could update any column of their own auctions, so mid-sale they
+-- could flip a sealed tender to open bidding to read the bids, rewrite the
+-- leader or the outcome, or move the schedule the engine runs on. Direct
+-- updates are now limited to the listing's description before it starts.
+-- Everything else is written by the engine's own functions, which run as
+-- their owner rather than as the signed-in user.
+
+CREATE OR REPLACE FUNCTION public.protect_auction_engine_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - ARRAY['title', 'description', 'image_url', 'updated_at']
+     <> to_jsonb(OLD) - ARRAY['title', 'description', 'image_url', 'updated_at'] THEN
+    RAISE EXCEPTION 'Only the title, description and image of an auction can be edited';
+  END IF;
+
+  IF now() >= OLD.start_time THEN
+    RAISE EXCEPTION 'Auctions can only be edited before they start';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_auction_engine_columns_trigger
+  BEFORE UPDATE ON public.auctions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_auction_engine_columns();
+
+-- Ending an auction early used to be a direct update from the dashboard. It
+-- closes now and is finalized like any other auction that ran out of time.
+CREATE OR REPLACE FUNCTION public.end_auction_early(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_auction.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF v_auction.finalized_at IS NOT NULL OR v_auction.status IN ('ended', 'cancelled') THEN
+    RAISE EXCEPTION 'This auction has already ended';
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      end_time = now()
+  WHERE id = p_auction_id;
+
+  PERFORM public.finalize_auction(p_auction_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.end_auction_early(UUID) TO authenticated;
@@ -0,0 +1,645 @@
+-- Reverse auctions were recorded the wrong way round: the poster became the
+-- seller of their own request and the winning supplier its buyer, so the
+-- supplier was asked to pay and the fees and payouts followed. The supplier is
+-- now the seller and the poster the buyer. A poster can take several offers
+-- on one request, so a sale is unique per pair of parties rather than per buyer.
+
+DROP INDEX public.transactions_auction_id_buyer_id_key;
+CREATE UNIQUE INDEX transactions_auction_id_parties_key ON public.transactions (auction_id, seller_id, buyer_id);
+
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_top_bid public.bids%ROWTYPE;
+  v_second_amount DECIMAL;
+  v_reserve_price DECIMAL;
+  v_price DECIMAL;
+  v_basis TEXT;
+  v_candle public.auction_candle_secrets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.finalized_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    -- Allocations are recorded first so the closing notifications can see them
+    UPDATE public.bids b
+    SET allocated_quantity = al.allocated_quantity
+    FROM public.multi_unit_allocation(p_auction_id) al
+    WHERE b.id = al.bid_id
+      AND al.allocated_quantity > 0;
+
+    SELECT min(b.amount) INTO v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0;
+
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_price,
+        clearing_price = v_price,
+        outcome = CASE WHEN v_price IS NULL THEN 'no_bids' ELSE 'winning_bid' END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, quantity, unit_price)
+    SELECT v_auction.id, v_auction.seller_id, b.bidder_id, v_price * b.allocated_quantity, b.allocated_quantity, v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0
+    ON CONFLICT (auction_id, seller_id, buyer_id) DO NOTHING;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'candle' THEN
+    SELECT * INTO v_candle FROM public.auction_candle_secrets WHERE auction_id = p_auction_id;
+
+    -- Bids placed after the candle went out stay on record but never count,
+    -- and neither do retracted ones
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+      AND b.created_at < v_candle.end_time
+      AND b.status = 'active'
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    -- The winner and the reveal land in the same update that closes the
+    -- auction, so rewinding past late bids is not reported as an outbid
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_top_bid.amount,
+        highest_bidder_id = v_top_bid.bidder_id,
+        candle_seed = v_candle.seed,
+        candle_end_time = v_candle.end_time,
+        outcome = CASE
+          WHEN v_top_bid.bidder_id IS NULL THEN 'no_bids'
+          WHEN has_reserve AND NOT public.is_reserve_met(id, v_top_bid.amount) THEN 'reserve_not_met'
+          ELSE 'winning_bid'
+        END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF FOUND AND v_auction.outcome = 'winning_bid' THEN
+      INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+      VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+      ON CONFLICT (auction_id, seller_id, buyer_id) DO NOTHING;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF v_auction.format = 'sealed_first_price' THEN
+        v_price := v_top_bid.amount;
+        v_basis := 'winning_bid';
+      ELSE
+        SELECT b.amount INTO v_second_amount
+        FROM public.bids b
+        WHERE b.auction_id = p_auction_id AND b.id <> v_top_bid.id
+        ORDER BY b.amount DESC
+        LIMIT 1;
+
+        IF v_second_amount IS NULL THEN
+          v_price := v_auction.starting_price;
+          v_basis := 'starting_price';
+        ELSIF v_second_amount + public.bid_increment_at(v_auction, v_second_amount) >= v_top_bid.amount THEN
+          v_price := v_top_bid.amount;
+          v_basis := 'winning_bid';
+        ELSE
+          v_price := v_second_amount + public.bid_increment_at(v_auction, v_second_amount);
+          v_basis := 'second_bid';
+        END IF;
+
+        SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+        IF v_reserve_price IS NOT NULL AND v_top_bid.amount >= v_reserve_price AND v_price < v_reserve_price THEN
+          v_price := v_reserve_price;
+          v_basis := 'reserve_price';
+        END IF;
+      END IF;
+
+      UPDATE public.auctions
+      SET current_highest_bid = v_price,
+          highest_bidder_id = v_top_bid.bidder_id,
+          winning_bid = v_top_bid.amount,
+          clearing_price = v_price,
+          clearing_price_basis = v_basis
+      WHERE id = p_auction_id;
+    END IF;
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- On a reverse auction the poster is buying from the winning supplier
+  IF v_auction.outcome = 'winning_bid' AND v_auction.format = 'reverse' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.highest_bidder_id, v_auction.seller_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id, seller_id, buyer_id) DO NOTHING;
+  ELSIF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id, seller_id, buyer_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.send_second_chance_offer(p_auction_id UUID, p_expires_in_hours INTEGER DEFAULT 48)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_bidder_id UUID;
+  v_amount DECIMAL;
+  v_transaction public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL OR v_auction.seller_id <> v_user_id THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF v_auction.status <> 'ended' THEN
+    RAISE EXCEPTION 'Second-chance offers can only be sent after the auction ends';
+  END IF;
+
+  IF v_auction.format NOT IN ('english', 'sealed_first_price', 'sealed_second_price', 'reverse', 'candle') THEN
+    RAISE EXCEPTION 'Second-chance offers are not available for this auction format';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transactions t WHERE t.auction_id = p_auction_id) THEN
+    RAISE EXCEPTION 'This auction has no sale to replace';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.auction_id = p_auction_id
+      AND t.status NOT IN ('rejected', 'expired')
+  ) THEN
+    RAISE EXCEPTION 'A sale on this auction is still open';
+  END IF;
+
+  IF p_expires_in_hours IS NULL OR p_expires_in_hours NOT BETWEEN 1 AND 168 THEN
+    RAISE EXCEPTION 'Offers can stay open for between 1 and 168 hours';
+  END IF;
+
+  SELECT b.bidder_id,
+         CASE WHEN v_auction.format = 'reverse' THEN min(b.amount) ELSE max(b.amount) END
+  INTO v_bidder_id, v_amount
+  FROM public.bids b
+  WHERE b.auction_id = p_auction_id
+    AND b.status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.auction_id = p_auction_id
+        AND b.bidder_id = CASE WHEN v_auction.format = 'reverse' THEN t.seller_id ELSE t.buyer_id END
+    )
+  GROUP BY b.bidder_id
+  ORDER BY
+    CASE WHEN v_auction.format = 'reverse' THEN min(b.amount) END ASC,
+    CASE WHEN v_auction.format <> 'reverse' THEN max(b.amount) END DESC,
+    min(b.created_at) ASC
+  LIMIT 1;
+
+  IF v_bidder_id IS NULL THEN
+    RAISE EXCEPTION 'There are no other bidders to make an offer to';
+  END IF;
+
+  INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, status, second_chance, offer_expires_at)
+  VALUES (p_auction_id,
+          CASE WHEN v_auction.format = 'reverse' THEN v_bidder_id ELSE v_auction.seller_id END,
+          CASE WHEN v_auction.format = 'reverse' THEN v_auction.seller_id ELSE v_bidder_id END,
+          v_amount, 'offered', true, now() + make_interval(hours => p_expires_in_hours))
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  VALUES (v_bidder_id, p_auction_id, 'second_chance_offer', 'Second-chance offer',
+          format(CASE WHEN v_auction.format = 'reverse'
+                   THEN 'The buyer on "%s" is offering you the order at your offer of %s. Respond by %s.'
+                   ELSE 'The seller of "%s" is offering it to you at your bid of %s. Respond by %s.'
+                 END,
+                 v_auction.title, public.format_amount(v_amount),
+                 to_char(v_transaction.offer_expires_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"')),
+          jsonb_build_object('transaction_id', v_transaction.id, 'amount', v_amount,
+                             'expires_at', v_transaction.offer_expires_at));
+
+  RETURN v_transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_transaction(
+  p_transaction_id UUID,
+  p_action TEXT,
+  p_counter_amount DECIMAL DEFAULT NULL,
+  p_counter_message TEXT DEFAULT NULL,
+  p_expires_in_hours INTEGER DEFAULT 48
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_transaction public.transactions%ROWTYPE;
+  v_offer public.transaction_offers%ROWTYPE;
+  v_is_reverse BOOLEAN;
+  v_owner_id UUID;
+  v_bidder_id UUID;
+  v_offer_amount DECIMAL;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL
+     OR v_user_id NOT IN (v_transaction.seller_id, v_transaction.buyer_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  -- The auction's owner answers the winning bid. On a reverse auction the
+  -- owner is the buyer and the winning supplier is the seller
+  SELECT a.format = 'reverse' INTO v_is_reverse FROM public.auctions a WHERE a.id = v_transaction.auction_id;
+  v_owner_id := CASE WHEN v_is_reverse THEN v_transaction.buyer_id ELSE v_transaction.seller_id END;
+  v_bidder_id := CASE WHEN v_is_reverse THEN v_transaction.seller_id ELSE v_transaction.buyer_id END;
+
+  -- A second-chance offer is answered by the runner-up alone, with a yes or no
+  IF v_transaction.status = 'offered' THEN
+    IF v_user_id <> v_bidder_id THEN
+      RAISE EXCEPTION 'This transaction is not awaiting your response';
+    END IF;
+
+    IF v_transaction.offer_expires_at <= now() THEN
+      v_transaction.status := 'expired';
+    ELSIF p_action = 'accept' THEN
+      v_transaction.status := 'accepted';
+    ELSIF p_action = 'reject' THEN
+      v_transaction.status := 'rejected';
+    ELSE
+      RAISE EXCEPTION 'Second-chance offers can only be accepted or declined';
+    END IF;
+
+    UPDATE public.transactions
+    SET status = v_transaction.status,
+        responded_at = now()
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    RETURN v_transaction;
+  END IF;
+
+  SELECT * INTO v_offer
+  FROM public.transaction_offers o
+  WHERE o.transaction_id = p_transaction_id AND o.status = 'open';
+
+  -- An offer that ran out ends the negotiation, even before the sweep gets to it
+  IF v_offer.id IS NOT NULL AND v_offer.expires_at <= now() THEN
+    UPDATE public.transaction_offers SET status = 'expired', responded_at = now() WHERE id = v_offer.id;
+    UPDATE public.transactions
+    SET status = 'expired',
+        responded_at = now()
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+    RETURN v_transaction;
+  END IF;
+
+  IF NOT (
+    (v_transaction.status = 'pending' AND v_user_id = v_owner_id)
+    OR (v_transaction.status = 'countered' AND v_user_id <> v_offer.author_id)
+  ) THEN
+    RAISE EXCEPTION 'This transaction is not awaiting your response';
+  END IF;
+
+  IF p_action = 'accept' THEN
+    v_transaction.status := 'accepted';
+    UPDATE public.transaction_offers SET status = 'accepted', responded_at = now() WHERE id = v_offer.id;
+  ELSIF p_action = 'reject' THEN
+    v_transaction.status := 'rejected';
+    UPDATE public.transaction_offers SET status = 'declined', responded_at = now() WHERE id = v_offer.id;
+  ELSIF p_action = 'counter' THEN
+    -- The owner counters past the winning amount; the bidder can only meet
+    -- them part of the way back towards it
+    v_offer_amount := COALESCE(v_offer.amount, v_transaction.final_amount);
+
+    IF v_user_id = v_owner_id AND NOT v_is_reverse THEN
+      IF p_counter_amount IS NULL OR p_counter_amount <= v_offer_amount THEN
+        RAISE EXCEPTION 'Counter-offer must be higher than the buyer''s offer of $%', v_offer_amount;
+      END IF;
+    ELSIF v_user_id = v_owner_id THEN
+      IF p_counter_amount IS NULL OR p_counter_amount <= 0 OR p_counter_amount >= v_offer_amount THEN
+        RAISE EXCEPTION 'Counter-offer must be lower than the seller''s offer of $%', v_offer_amount;
+      END IF;
+    ELSIF NOT v_is_reverse THEN
+      IF p_counter_amount IS NULL OR p_counter_amount <= v_transaction.final_amount OR p_counter_amount >= v_offer_amount THEN
+        RAISE EXCEPTION 'Counter-offer must be between your winning bid of $% and the seller''s $%',
+          v_transaction.final_amount, v_offer_amount;
+      END IF;
+    ELSIF p_counter_amount IS NULL OR p_counter_amount >= v_transaction.final_amount OR p_counter_amount <= v_offer_amount THEN
+      RAISE EXCEPTION 'Counter-offer must be between the buyer''s $% and your winning offer of $%',
+        v_offer_amount, v_transaction.final_amount;
+    END IF;
+
+    IF p_expires_in_hours IS NULL OR p_expires_in_hours NOT BETWEEN 1 AND 168 THEN
+      RAISE EXCEPTION 'Offers can stay open for between 1 and 168 hours';
+    END IF;
+
+    UPDATE public.transaction_offers SET status = 'countered', responded_at = now() WHERE id = v_offer.id;
+
+    INSERT INTO public.transaction_offers (transaction_id, auction_id, author_id, amount, message, expires_at)
+    VALUES (p_transaction_id, v_transaction.auction_id, v_user_id, p_counter_amount,
+            NULLIF(btrim(p_counter_message), ''), now() + make_interval(hours => p_expires_in_hours));
+
+    v_transaction.status := 'countered';
+    v_transaction.counter_offer_amount := p_counter_amount;
+    v_transaction.counter_offer_message := NULLIF(btrim(p_counter_message), '');
+  ELSE
+    RAISE EXCEPTION 'Unknown response %', p_action;
+  END IF;
+
+  UPDATE public.transactions
+  SET status = v_transaction.status,
+      counter_offer_amount = v_transaction.counter_offer_amount,
+      counter_offer_message = v_transaction.counter_offer_message,
+      responded_at = now()
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_transaction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_title TEXT;
+  v_offer public.transaction_offers%ROWTYPE;
+  v_other_id UUID;
+  v_is_reverse BOOLEAN;
+  v_owner_id UUID;
+  v_bidder_id UUID;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title, format = 'reverse' INTO v_title, v_is_reverse FROM public.auctions WHERE id = NEW.auction_id;
+
+  -- On a reverse auction the poster is the buyer and the supplier who bid is the seller
+  v_owner_id := CASE WHEN v_is_reverse THEN NEW.buyer_id ELSE NEW.seller_id END;
+  v_bidder_id := CASE WHEN v_is_reverse THEN NEW.seller_id ELSE NEW.buyer_id END;
+
+  IF OLD.status = 'pending' AND NEW.status = 'accepted' AND v_is_reverse THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.seller_id, NEW.auction_id, 'bid_accepted', 'Your offer was accepted',
+       format('The buyer accepted your offer of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.buyer_id, NEW.auction_id, 'bid_accepted', 'Order confirmed',
+       format('You accepted the winning offer of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'pending' AND NEW.status = 'rejected' AND v_is_reverse THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.seller_id, NEW.auction_id, 'bid_rejected', 'Your offer was rejected',
+       format('The buyer declined your winning offer on "%s".', v_title),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.buyer_id, NEW.auction_id, 'bid_rejected', 'Winning offer declined',
+       format('You declined the winning offer on "%s". No order was placed.', v_title),
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'pending' AND NEW.status = 'accepted' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.buyer_id, NEW.auction_id, 'bid_accepted', 'Your bid was accepted',
+       format('The seller accepted your bid of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.seller_id, NEW.auction_id, 'bid_accepted', 'Sale confirmed',
+       format('You accepted the winning bid of %s on "%s".', public.format_amount(NEW.final_amount), v_title),
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'pending' AND NEW.status = 'rejected' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (NEW.buyer_id, NEW.auction_id, 'bid_rejected', 'Your bid was rejected',
+       format('The seller declined your winning bid on "%s".', v_title),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (NEW.seller_id, NEW.auction_id, 'bid_rejected', 'Winning bid declined',
+       format('You declined the winning bid on "%s". The item was not sold.', v_title),
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'offered' THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES
+      (v_owner_id, NEW.auction_id, CASE WHEN NEW.status = 'accepted' THEN 'bid_accepted' ELSE 'bid_rejected' END,
+       CASE NEW.status
+         WHEN 'accepted' THEN 'Second-chance offer accepted'
+         WHEN 'rejected' THEN 'Second-chance offer declined'
+         ELSE 'Second-chance offer expired'
+       END,
+       format('Your second-chance offer of %s on "%s" was %s.', public.format_amount(NEW.final_amount), v_title,
+              CASE NEW.status WHEN 'accepted' THEN 'accepted' WHEN 'rejected' THEN 'declined' ELSE 'not answered in time' END),
+       jsonb_build_object('transaction_id', NEW.id)),
+      (v_bidder_id, NEW.auction_id, CASE WHEN NEW.status = 'accepted' THEN 'bid_accepted' ELSE 'bid_rejected' END,
+       CASE NEW.status
+         WHEN 'accepted' THEN CASE WHEN v_is_reverse THEN 'Order confirmed' ELSE 'Purchase confirmed' END
+         WHEN 'rejected' THEN 'Second-chance offer declined'
+         ELSE 'Second-chance offer expired'
+       END,
+       CASE
+         WHEN NEW.status = 'accepted' AND v_is_reverse
+           THEN format('You will supply "%s" for %s.', v_title, public.format_amount(NEW.final_amount))
+         WHEN NEW.status = 'accepted' THEN format('You bought "%s" for %s.', v_title, public.format_amount(NEW.final_amount))
+         WHEN NEW.status = 'rejected' THEN format('You declined the second-chance offer on "%s".', v_title)
+         ELSE format('The second-chance offer on "%s" expired.', v_title)
+       END,
+       jsonb_build_object('transaction_id', NEW.id));
+  ELSIF OLD.status = 'countered' THEN
+    SELECT * INTO v_offer
+    FROM public.transaction_offers o
+    WHERE o.transaction_id = NEW.id
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+
+    v_other_id := CASE WHEN v_offer.author_id = NEW.seller_id THEN NEW.buyer_id ELSE NEW.seller_id END;
+
+    IF NEW.status = 'accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (v_offer.author_id, NEW.auction_id, 'bid_accepted', 'Counter-offer accepted',
+         format('Your counter-offer of %s on "%s" was accepted.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)),
+        (v_other_id, NEW.auction_id, 'bid_accepted', 'Sale agreed',
+         format('You accepted the counter-offer of %s on "%s".', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount));
+    ELSIF NEW.status = 'rejected' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (v_offer.author_id, NEW.auction_id, 'bid_rejected', 'Counter-offer declined',
+         format('Your counter-offer of %s on "%s" was declined.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)),
+        (v_other_id, NEW.auction_id, 'bid_rejected', 'Counter-offer declined',
+         format('You declined the counter-offer of %s on "%s". The item was not sold.', public.format_amount(v_offer.amount), v_title),
+         jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount));
+    ELSIF NEW.status = 'expired' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT party, NEW.auction_id, 'bid_rejected', 'Counter-offer expired',
+        format('The counter-offer of %s on "%s" expired without an answer. The item was not sold.',
+               public.format_amount(v_offer.amount), v_title),
+        jsonb_build_object('transaction_id', NEW.id, 'amount', v_offer.amount)
+      FROM unnest(ARRAY[NEW.seller_id, NEW.buyer_id]) AS party;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_transaction_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_offer public.transaction_offers%ROWTYPE;
+  v_bidder_id UUID;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.auction_id;
+  -- The winning supplier of a reverse auction is the seller
+  v_bidder_id := CASE WHEN v_auction.format = 'reverse' THEN NEW.seller_id ELSE NEW.buyer_id END;
+
+  IF TG_OP = 'INSERT' AND NEW.status = 'offered' THEN
+    PERFORM public.enqueue_email(v_bidder_id, NEW.auction_id, 'second_chance',
+      jsonb_build_object('amount', NEW.final_amount, 'expires_at', NEW.offer_expires_at));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'accepted' THEN
+    PERFORM public.enqueue_email(v_bidder_id, NEW.auction_id, 'won',
+      jsonb_build_object('amount', NEW.final_amount, 'winning_bid', v_auction.winning_bid,
+                         'format', v_auction.format, 'quantity', NEW.quantity, 'unit_price', NEW.unit_price));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    -- Confirmation goes to both sides of the sale
+    PERFORM public.enqueue_email(NEW.buyer_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'buyer', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+    PERFORM public.enqueue_email(NEW.seller_id, NEW.auction_id, 'accepted',
+      jsonb_build_object('role', 'seller', 'amount', COALESCE(NEW.counter_offer_amount, NEW.final_amount)));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'countered' THEN
+    -- The declined offer's author hears about it
+    SELECT * INTO v_offer
+    FROM public.transaction_offers o
+    WHERE o.transaction_id = NEW.id
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+
+    PERFORM public.enqueue_email(v_offer.author_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', CASE WHEN v_offer.author_id = NEW.seller_id THEN 'seller' ELSE 'buyer' END,
+                         'amount', v_offer.amount, 'counter', true));
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'pending' THEN
+    PERFORM public.enqueue_email(v_bidder_id, NEW.auction_id, 'rejected',
+      jsonb_build_object('role', CASE WHEN v_bidder_id = NEW.seller_id THEN 'seller' ELSE 'buyer' END,
+                         'amount', NEW.final_amount));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Templates word reverse auctions differently, so every email carries the format
+CREATE OR REPLACE FUNCTION public.enqueue_email(
+  p_user_id UUID,
+  p_auction_id UUID,
+  p_template TEXT,
+  p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_profile FROM public.profiles WHERE user_id = p_user_id;
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_profile.email IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.email_queue (user_id, auction_id, to_email, template, data)
+  VALUES (
+    p_user_id, p_auction_id, v_profile.email, p_template,
+    jsonb_build_object(
+      'recipient_name', v_profile.full_name,
+      'auction_id', v_auction.id,
+      'auction_title', v_auction.title,
+      'format', v_auction.format
+    ) || p_data
+  );
+END;
+$$;
+
+-- Sales that have not been paid for yet are turned round. Paid ones already
+-- have ledger entries, so they are left as they are
+UPDATE public.transactions t
+SET seller_id = t.buyer_id,
+    buyer_id = t.seller_id
+FROM public.auctions a
+WHERE a.id = t.auction_id
+  AND a.format = 'reverse'
+  AND t.seller_id = a.seller_id
+  AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.transaction_id = t.id AND p.status IN ('succeeded', 'refunded'));
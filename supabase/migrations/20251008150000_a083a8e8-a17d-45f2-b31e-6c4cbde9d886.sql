@@ -0,0 +1,214 @@
+-- A bid can move the lead twice in one go: place_bid() hands it to the new
+-- bidder and resolve_proxy_bids() may hand it straight back to a proxy. The
+-- outbid notice and email fired on the first of those updates, so a proxy
+-- holder who never lost the lead was told they had. Both now run at commit
+-- and only report a lead that is still lost by then. The bidder whose own
+-- call moved the lead learns the result from the response instead.
+
+CREATE OR REPLACE FUNCTION public.notify_auction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.finalized_at IS NULL AND NEW.finalized_at IS NOT NULL THEN
+    IF NEW.outcome = 'winning_bid' AND NEW.format = 'sealed_second_price' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed with a highest sealed bid of %s and a second-price clearing price of %s. Review the sale to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.winning_bid), public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your sealed bid of %s is the highest on "%s". Under second-price rules you pay %s.',
+                public.format_amount(NEW.winning_bid), NEW.title, public.format_amount(NEW.clearing_price)),
+         jsonb_build_object('final_amount', NEW.clearing_price, 'winning_bid', NEW.winning_bid));
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'multi_unit' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+        format('"%s" closed: %s of %s units sold at %s each. Review each sale to accept, reject or counter.',
+               NEW.title, sum(b.allocated_quantity), NEW.quantity, public.format_amount(NEW.clearing_price)),
+        jsonb_build_object('unit_price', NEW.clearing_price, 'units_sold', sum(b.allocated_quantity))
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id AND b.allocated_quantity > 0;
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT b.bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+        format('You won %s of the %s units you bid for on "%s", at %s each.',
+               b.allocated_quantity, b.quantity, NEW.title, public.format_amount(NEW.clearing_price)),
+        jsonb_build_object('unit_price', NEW.clearing_price, 'quantity', b.allocated_quantity)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id AND b.allocated_quantity > 0;
+    ELSIF NEW.outcome = 'winning_bid' AND NEW.format = 'reverse' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your request has closed',
+         format('"%s" closed with a lowest offer of %s. Review the offer to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your offer of %s is the lowest on "%s". The buyer will confirm the order shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'winning_bid' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s. Review the winning bid to accept, reject or counter.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'You won the auction',
+         format('Your bid of %s is the highest on "%s". The seller will confirm the sale shortly.',
+                public.format_amount(NEW.current_highest_bid), NEW.title),
+         jsonb_build_object('final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'reserve_not_met' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+         format('"%s" closed at %s, below your reserve. The item was not sold.',
+                NEW.title, public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid))),
+         jsonb_build_object('outcome', NEW.outcome)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Reserve not met',
+         format('Your bid of %s on "%s" did not meet the seller''s reserve price.',
+                public.format_amount(COALESCE(NEW.winning_bid, NEW.current_highest_bid)), NEW.title),
+         jsonb_build_object('outcome', NEW.outcome));
+    ELSIF NEW.outcome = 'price_accepted' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Your Dutch auction has sold',
+         format('"%s" sold for %s when a buyer accepted the current price.',
+                NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" at %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+    ELSIF NEW.outcome = 'bought_now' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      VALUES
+        (NEW.seller_id, NEW.id, 'auction_ended', 'Sold with Buy It Now',
+         format('"%s" sold for %s with Buy It Now.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid)),
+        (NEW.highest_bidder_id, NEW.id, 'auction_ended', 'Purchase confirmed',
+         format('You bought "%s" for %s.', NEW.title, public.format_amount(NEW.current_highest_bid)),
+         jsonb_build_object('outcome', NEW.outcome, 'final_amount', NEW.current_highest_bid));
+
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'Auction ended',
+        format('"%s" was sold to another buyer with Buy It Now.', NEW.title),
+        jsonb_build_object('outcome', NEW.outcome)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.bidder_id <> NEW.highest_bidder_id;
+    ELSE
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message)
+      VALUES (NEW.seller_id, NEW.id, 'auction_ended', 'Your auction has ended',
+              format('"%s" closed without any bids.', NEW.title));
+    END IF;
+
+    IF NEW.format = 'candle' THEN
+      INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+      SELECT DISTINCT b.bidder_id, NEW.id, 'auction_ended', 'The candle went out before your bid',
+        format('The hidden close of "%s" fell at %s, so bids placed after it did not count.',
+               NEW.title, to_char(NEW.candle_end_time AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS "UTC"')),
+        jsonb_build_object('candle_end_time', NEW.candle_end_time)
+      FROM public.bids b
+      WHERE b.auction_id = NEW.id
+        AND b.created_at >= NEW.candle_end_time
+        AND b.bidder_id IS DISTINCT FROM NEW.highest_bidder_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.bids counted
+          WHERE counted.auction_id = NEW.id
+            AND counted.bidder_id = b.bidder_id
+            AND counted.created_at < NEW.candle_end_time
+        );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_outbid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.id;
+
+  IF v_auction.highest_bidder_id IS NOT DISTINCT FROM OLD.highest_bidder_id
+     OR OLD.highest_bidder_id IS NOT DISTINCT FROM auth.uid() THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  VALUES (
+    OLD.highest_bidder_id, NEW.id, 'outbid',
+    CASE WHEN NEW.format = 'reverse' THEN 'You have been undercut' ELSE 'You have been outbid' END,
+    format(CASE WHEN NEW.format = 'reverse' THEN 'The lowest offer on "%s" is now %s.' ELSE 'The price on "%s" is now %s.' END,
+           NEW.title, public.format_amount(v_auction.current_highest_bid)),
+    jsonb_build_object('amount', v_auction.current_highest_bid)
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_outbid_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = NEW.id;
+
+  IF v_auction.highest_bidder_id IS NOT DISTINCT FROM OLD.highest_bidder_id
+     OR OLD.highest_bidder_id IS NOT DISTINCT FROM auth.uid() THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.enqueue_email(OLD.highest_bidder_id, NEW.id, 'outbid',
+    jsonb_build_object('amount', v_auction.current_highest_bid));
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER notify_outbid_trigger
+  AFTER UPDATE ON public.auctions
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (
+    OLD.highest_bidder_id IS NOT NULL
+    AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+    AND NEW.outcome IS DISTINCT FROM 'bought_now'
+    AND NEW.finalized_at IS NULL
+    AND CASE WHEN NEW.format = 'reverse'
+      THEN NEW.current_highest_bid <= OLD.current_highest_bid
+      ELSE NEW.current_highest_bid >= OLD.current_highest_bid
+    END
+  )
+  EXECUTE FUNCTION public.notify_outbid();
+
+DROP TRIGGER enqueue_outbid_email_trigger ON public.auctions;
+
+CREATE CONSTRAINT TRIGGER enqueue_outbid_email_trigger
+  AFTER UPDATE ON public.auctions
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (
+    OLD.highest_bidder_id IS NOT NULL
+    AND NEW.highest_bidder_id IS DISTINCT FROM OLD.highest_bidder_id
+    AND NEW.outcome IS DISTINCT FROM 'bought_now'
+    AND NEW.finalized_at IS NULL
+    AND CASE WHEN NEW.format = 'reverse'
+      THEN NEW.current_highest_bid <= OLD.current_highest_bid
+      ELSE NEW.current_highest_bid >= OLD.current_highest_bid
+    END
+  )
+  EXECUTE FUNCTION public.enqueue_outbid_email();
@@ -0,0 +1,260 @@
+-- Non-payment. An accepted sale waited for payment forever, so a winner who
+-- never paid kept the item off the market and blocked second-chance offers.
+-- Each order now has a payment due date, and once it has passed the seller
+-- can cancel the order as unpaid. That frees the auction for a second chance.
+
+ALTER TABLE public.transactions
+  ADD COLUMN payment_due_at TIMESTAMP WITH TIME ZONE,
+  DROP CONSTRAINT transactions_fulfilment_status_check,
+  ADD CONSTRAINT transactions_fulfilment_status_check
+    CHECK (fulfilment_status IN ('payment_pending', 'paid', 'shipped', 'delivered', 'completed', 'disputed', 'unpaid'));
+
+-- Buyers get three days to pay
+CREATE OR REPLACE FUNCTION public.start_fulfilment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND NEW.fulfilment_status IS NULL THEN
+    NEW.fulfilment_status := 'payment_pending';
+    NEW.payment_due_at := now() + interval '3 days';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_fulfilment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_from TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.fulfilment_status END;
+  v_actor_id UUID := auth.uid();
+  v_title TEXT;
+  v_recipients UUID[];
+  v_message TEXT;
+BEGIN
+  IF NEW.fulfilment_status IS NULL OR NEW.fulfilment_status IS NOT DISTINCT FROM v_from THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.fulfilment_events (transaction_id, actor_id, from_status, to_status, shipping_carrier, tracking_number, note)
+  VALUES (
+    NEW.id, v_actor_id, v_from, NEW.fulfilment_status,
+    CASE WHEN NEW.fulfilment_status = 'shipped' THEN NEW.shipping_carrier END,
+    CASE WHEN NEW.fulfilment_status = 'shipped' THEN NEW.tracking_number END,
+    CASE WHEN NEW.fulfilment_status = 'disputed' THEN NEW.dispute_reason END
+  );
+
+  -- The acceptance itself is announced by notify_transaction_change()
+  IF v_from IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_title FROM public.auctions WHERE id = NEW.auction_id;
+
+  v_recipients := CASE
+    WHEN v_actor_id = NEW.seller_id THEN ARRAY[NEW.buyer_id]
+    WHEN v_actor_id = NEW.buyer_id THEN ARRAY[NEW.seller_id]
+    ELSE ARRAY[NEW.seller_id, NEW.buyer_id]
+  END;
+
+  v_message := CASE NEW.fulfilment_status
+    WHEN 'paid' THEN format('Payment for "%s" has been received.', v_title)
+    WHEN 'shipped' THEN format('"%s" has shipped with %s, tracking number %s.', v_title, NEW.shipping_carrier, NEW.tracking_number)
+    WHEN 'delivered' THEN format('The buyer confirmed delivery of "%s".', v_title)
+    WHEN 'completed' THEN format('The order for "%s" is complete.', v_title)
+    WHEN 'disputed' THEN format('A dispute was opened on "%s": %s', v_title, NEW.dispute_reason)
+    WHEN 'unpaid' THEN format('"%s" was not paid for by the due date, so the seller cancelled the order.', v_title)
+  END;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  SELECT recipient, NEW.auction_id, 'order_update',
+    CASE NEW.fulfilment_status
+      WHEN 'paid' THEN 'Payment received'
+      WHEN 'shipped' THEN 'Order shipped'
+      WHEN 'delivered' THEN 'Order delivered'
+      WHEN 'completed' THEN 'Order completed'
+      WHEN 'disputed' THEN 'Dispute opened'
+      WHEN 'unpaid' THEN 'Order cancelled for non-payment'
+    END,
+    v_message,
+    jsonb_build_object('transaction_id', NEW.id, 'fulfilment_status', NEW.fulfilment_status)
+  FROM unnest(v_recipients) AS recipient;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Orders already waiting get the full three days from now
+UPDATE public.transactions
+SET payment_due_at = now() + interval '3 days'
+WHERE fulfilment_status = 'payment_pending';
+
+-- The seller can also cancel an order that is still unpaid after its due date
+CREATE OR REPLACE FUNCTION public.advance_fulfilment(
+  p_transaction_id UUID,
+  p_status TEXT,
+  p_carrier TEXT DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_transaction public.transactions%ROWTYPE;
+  v_is_seller BOOLEAN;
+  v_is_buyer BOOLEAN;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL
+     OR v_user_id NOT IN (v_transaction.seller_id, v_transaction.buyer_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.fulfilment_status IS NULL THEN
+    RAISE EXCEPTION 'This sale has not been agreed yet';
+  END IF;
+
+  v_is_seller := v_user_id = v_transaction.seller_id;
+  v_is_buyer := v_user_id = v_transaction.buyer_id;
+
+  IF NOT (
+    (p_status = 'paid' AND v_transaction.fulfilment_status = 'payment_pending' AND v_is_seller)
+    OR (p_status = 'shipped' AND v_transaction.fulfilment_status = 'paid' AND v_is_seller)
+    OR (p_status = 'delivered' AND v_transaction.fulfilment_status = 'shipped' AND v_is_buyer)
+    OR (p_status = 'completed' AND v_transaction.fulfilment_status IN ('delivered', 'disputed') AND v_is_buyer)
+    OR (p_status = 'disputed' AND v_transaction.fulfilment_status IN ('paid', 'shipped', 'delivered'))
+    OR (p_status = 'unpaid' AND v_transaction.fulfilment_status = 'payment_pending' AND v_is_seller)
+  ) THEN
+    RAISE EXCEPTION 'You can''t move this order from % to %',
+      replace(v_transaction.fulfilment_status, '_', ' '), replace(p_status, '_', ' ');
+  END IF;
+
+  IF p_status = 'unpaid' AND now() < v_transaction.payment_due_at THEN
+    RAISE EXCEPTION 'Payment is not due until %',
+      to_char(v_transaction.payment_due_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  IF p_status = 'shipped' AND (NULLIF(btrim(p_carrier), '') IS NULL OR NULLIF(btrim(p_tracking_number), '') IS NULL) THEN
+    RAISE EXCEPTION 'Enter the carrier and tracking number';
+  END IF;
+
+  IF p_status = 'disputed' AND NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Describe the problem to open a dispute';
+  END IF;
+
+  UPDATE public.transactions
+  SET fulfilment_status = p_status,
+      status = CASE WHEN p_status = 'completed' THEN 'completed' ELSE status END,
+      shipping_carrier = CASE WHEN p_status = 'shipped' THEN btrim(p_carrier) ELSE shipping_carrier END,
+      tracking_number = CASE WHEN p_status = 'shipped' THEN btrim(p_tracking_number) ELSE tracking_number END,
+      dispute_reason = CASE WHEN p_status = 'disputed' THEN btrim(p_reason) ELSE dispute_reason END
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.send_second_chance_offer(p_auction_id UUID, p_expires_in_hours INTEGER DEFAULT 48)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_bidder_id UUID;
+  v_amount DECIMAL;
+  v_transaction public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL OR v_auction.seller_id <> v_user_id THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF v_auction.status <> 'ended' THEN
+    RAISE EXCEPTION 'Second-chance offers can only be sent after the auction ends';
+  END IF;
+
+  IF v_auction.format NOT IN ('english', 'sealed_first_price', 'sealed_second_price', 'reverse', 'candle') THEN
+    RAISE EXCEPTION 'Second-chance offers are not available for this auction format';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transactions t WHERE t.auction_id = p_auction_id) THEN
+    RAISE EXCEPTION 'This auction has no sale to replace';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.auction_id = p_auction_id
+      AND t.status NOT IN ('rejected', 'expired')
+      AND t.fulfilment_status IS DISTINCT FROM 'unpaid'
+  ) THEN
+    RAISE EXCEPTION 'A sale on this auction is still open';
+  END IF;
+
+  IF p_expires_in_hours IS NULL OR p_expires_in_hours NOT BETWEEN 1 AND 168 THEN
+    RAISE EXCEPTION 'Offers can stay open for between 1 and 168 hours';
+  END IF;
+
+  SELECT b.bidder_id,
+         CASE WHEN v_auction.format = 'reverse' THEN min(b.amount) ELSE max(b.amount) END
+  INTO v_bidder_id, v_amount
+  FROM public.bids b
+  WHERE b.auction_id = p_auction_id
+    AND b.status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.auction_id = p_auction_id
+        AND b.bidder_id = CASE WHEN v_auction.format = 'reverse' THEN t.seller_id ELSE t.buyer_id END
+    )
+  GROUP BY b.bidder_id
+  ORDER BY
+    CASE WHEN v_auction.format = 'reverse' THEN min(b.amount) END ASC,
+    CASE WHEN v_auction.format <> 'reverse' THEN max(b.amount) END DESC,
+    min(b.created_at) ASC
+  LIMIT 1;
+
+  IF v_bidder_id IS NULL THEN
+    RAISE EXCEPTION 'There are no other bidders to make an offer to';
+  END IF;
+
+  INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, status, second_chance, offer_expires_at)
+  VALUES (p_auction_id,
+          CASE WHEN v_auction.format = 'reverse' THEN v_bidder_id ELSE v_auction.seller_id END,
+          CASE WHEN v_auction.format = 'reverse' THEN v_auction.seller_id ELSE v_bidder_id END,
+          v_amount, 'offered', true, now() + make_interval(hours => p_expires_in_hours))
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  VALUES (v_bidder_id, p_auction_id, 'second_chance_offer', 'Second-chance offer',
+          format(CASE WHEN v_auction.format = 'reverse'
+                   THEN 'The buyer on "%s" is offering you the order at your offer of %s. Respond by %s.'
+                   ELSE 'The seller of "%s" is offering it to you at your bid of %s. Respond by %s.'
+                 END,
+                 v_auction.title, public.format_amount(v_amount),
+                 to_char(v_transaction.offer_expires_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"')),
+          jsonb_build_object('transaction_id', v_transaction.id, 'amount', v_amount,
+                             'expires_at', v_transaction.offer_expires_at));
+
+  RETURN v_transaction;
+END;
+$$;
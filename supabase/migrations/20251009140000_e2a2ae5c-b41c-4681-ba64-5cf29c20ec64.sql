@@ -0,0 +1,208 @@
+-- The auctioneer's asking price was only shown to bidders, so a hosted lot
+-- still took any bid one increment over the last. place_bid() and
+-- set_max_bid() now hold a called lot to the asking price. The call columns
+-- themselves (call_state, asking_price, auctioneer_id and the backstop
+-- end_time) are already closed to direct writes by
+-- protect_auction_engine_columns(), so call_lot() is the only way to move them.
+
+CREATE OR REPLACE FUNCTION public.place_bid(p_auction_id UUID, p_amount DECIMAL, p_quantity INTEGER DEFAULT 1)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  bid_id UUID,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_minimum_bid DECIMAL;
+  v_maximum_bid DECIMAL;
+  v_bid_id UUID;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  -- Lock the auction row so concurrent bids are serialized
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    RETURN QUERY SELECT * FROM public.place_sealed_bid(v_auction, v_bidder_id, p_amount);
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    RETURN QUERY SELECT * FROM public.place_multi_unit_bid(v_auction, v_bidder_id, p_amount, p_quantity);
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'dutch' THEN
+    RETURN QUERY SELECT false, 'dutch_accept_only'::TEXT, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  -- For reverse auctions minimum_bid carries the maximum offer allowed next
+  IF v_auction.format = 'reverse' THEN
+    v_maximum_bid := COALESCE(v_auction.current_highest_bid - public.bid_increment_at(v_auction, v_auction.current_highest_bid), v_auction.starting_price);
+
+    IF v_reason IS NULL AND v_maximum_bid <= 0 THEN
+      v_reason := 'auction_not_active';
+    ELSIF v_reason IS NULL AND (p_amount IS NULL OR p_amount <= 0 OR p_amount > v_maximum_bid) THEN
+      v_reason := 'bid_too_high';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+      RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_maximum_bid,
+        v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+      RETURN;
+    END IF;
+
+    INSERT INTO public.bids (auction_id, bidder_id, amount)
+    VALUES (p_auction_id, v_bidder_id, p_amount)
+    RETURNING id INTO v_bid_id;
+
+    UPDATE public.auctions
+    SET current_highest_bid = p_amount,
+        highest_bidder_id = v_bidder_id
+    WHERE id = p_auction_id;
+
+    RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, p_amount, p_amount - public.bid_increment_at(v_auction, p_amount), true;
+    RETURN;
+  END IF;
+
+  v_minimum_bid := COALESCE(v_auction.current_highest_bid + public.bid_increment_at(v_auction, v_auction.current_highest_bid), v_auction.starting_price);
+
+  -- While the auctioneer is calling a lot, bids are taken at the asking price or above
+  IF v_auction.call_state IN ('open', 'going_once', 'going_twice') AND v_auction.asking_price IS NOT NULL THEN
+    v_minimum_bid := GREATEST(v_minimum_bid, v_auction.asking_price);
+  END IF;
+
+  IF v_reason IS NULL AND (p_amount IS NULL OR p_amount < v_minimum_bid) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, NULL::UUID, v_auction.current_highest_bid, v_minimum_bid,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bids (auction_id, bidder_id, amount)
+  VALUES (p_auction_id, v_bidder_id, p_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- The status trigger promotes a stale 'pending' auction to 'active' here
+  UPDATE public.auctions
+  SET current_highest_bid = p_amount,
+      highest_bidder_id = v_bidder_id
+  WHERE id = p_auction_id;
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_bid_id, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + public.bid_increment_at(v_auction, v_auction.current_highest_bid),
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_max_bid(p_auction_id UUID, p_max_amount DECIMAL)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  max_amount DECIMAL,
+  current_highest_bid DECIMAL,
+  minimum_bid DECIMAL,
+  is_leading BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_bidder_id UUID := auth.uid();
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_existing_max DECIMAL;
+  v_minimum_max DECIMAL;
+BEGIN
+  IF v_bidder_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'auction_not_found'::TEXT, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, false;
+    RETURN;
+  END IF;
+
+  SELECT pb.max_amount INTO v_existing_max
+  FROM public.proxy_bids pb
+  WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_bidder_id;
+
+  -- A maximum can be raised but never lowered
+  v_minimum_max := GREATEST(
+    COALESCE(v_auction.current_highest_bid + public.bid_increment_at(v_auction, v_auction.current_highest_bid), v_auction.starting_price),
+    COALESCE(v_existing_max, 0)
+  );
+
+  IF v_auction.call_state IN ('open', 'going_once', 'going_twice') AND v_auction.asking_price IS NOT NULL THEN
+    v_minimum_max := GREATEST(v_minimum_max, v_auction.asking_price);
+  END IF;
+
+  v_reason := public.bid_rejection_reason(v_auction, v_bidder_id);
+
+  IF v_reason IS NULL AND v_auction.format <> 'english' THEN
+    v_reason := 'max_bid_not_supported';
+  END IF;
+
+  IF v_reason IS NULL AND (p_max_amount IS NULL OR p_max_amount < v_minimum_max) THEN
+    v_reason := 'bid_too_low';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, v_existing_max, v_auction.current_highest_bid, v_minimum_max,
+      v_auction.highest_bidder_id IS NOT DISTINCT FROM v_bidder_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.proxy_bids (auction_id, bidder_id, max_amount)
+  VALUES (p_auction_id, v_bidder_id, p_max_amount)
+  ON CONFLICT (auction_id, bidder_id)
+  DO UPDATE SET max_amount = EXCLUDED.max_amount, placed_at = now();
+
+  PERFORM public.resolve_proxy_bids(p_auction_id);
+
+  SELECT * INTO v_auction FROM public.auctions a WHERE a.id = p_auction_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, p_max_amount, v_auction.current_highest_bid,
+    v_auction.current_highest_bid + public.bid_increment_at(v_auction, v_auction.current_highest_bid),
+    v_auction.highest_bidder_id = v_bidder_id;
+END;
+$$;
@@ -0,0 +1,253 @@
+-- Payments could be started twice for the same order: two checkout tabs
+-- each created an intent the buyer could confirm, and confirm-payment never
+-- looked at the order again, so a cancelled order could still be charged.
+-- Only one payment per order can now await confirmation, cancelling an
+-- unpaid order voids it, and confirm-payment checks the order is still
+-- awaiting payment. Refunds were in the provider interface but nothing
+-- called them; the seller can now refund a disputed order through the
+-- refund-payment function, and the refund webhook closes the order.
+
+-- Keep only the newest waiting payment for each order
+UPDATE public.payments p
+SET status = 'failed',
+    failure_message = 'Replaced by a newer payment'
+WHERE p.status = 'requires_confirmation'
+  AND EXISTS (
+    SELECT 1 FROM public.payments newer
+    WHERE newer.transaction_id = p.transaction_id
+      AND newer.status = 'requires_confirmation'
+      AND (newer.created_at, newer.id) > (p.created_at, p.id)
+  );
+
+CREATE UNIQUE INDEX payments_one_open_per_transaction_key
+  ON public.payments (transaction_id)
+  WHERE status = 'requires_confirmation';
+
+ALTER TABLE public.transactions
+  DROP CONSTRAINT transactions_fulfilment_status_check,
+  ADD CONSTRAINT transactions_fulfilment_status_check
+    CHECK (fulfilment_status IN ('payment_pending', 'paid', 'shipped', 'delivered', 'completed', 'disputed', 'unpaid', 'refunded'));
+
+CREATE OR REPLACE FUNCTION public.advance_fulfilment(
+  p_transaction_id UUID,
+  p_status TEXT,
+  p_carrier TEXT DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_transaction public.transactions%ROWTYPE;
+  v_is_seller BOOLEAN;
+  v_is_buyer BOOLEAN;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM public.transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS NULL
+     OR v_user_id NOT IN (v_transaction.seller_id, v_transaction.buyer_id) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.fulfilment_status IS NULL THEN
+    RAISE EXCEPTION 'This sale has not been agreed yet';
+  END IF;
+
+  v_is_seller := v_user_id = v_transaction.seller_id;
+  v_is_buyer := v_user_id = v_transaction.buyer_id;
+
+  IF NOT (
+    (p_status = 'paid' AND v_transaction.fulfilment_status = 'payment_pending' AND v_is_seller)
+    OR (p_status = 'shipped' AND v_transaction.fulfilment_status = 'paid' AND v_is_seller)
+    OR (p_status = 'delivered' AND v_transaction.fulfilment_status = 'shipped' AND v_is_buyer)
+    OR (p_status = 'completed' AND v_transaction.fulfilment_status IN ('delivered', 'disputed') AND v_is_buyer)
+    OR (p_status = 'disputed' AND v_transaction.fulfilment_status IN ('paid', 'shipped', 'delivered'))
+    OR (p_status = 'unpaid' AND v_transaction.fulfilment_status = 'payment_pending' AND v_is_seller)
+  ) THEN
+    RAISE EXCEPTION 'You can''t move this order from % to %',
+      replace(v_transaction.fulfilment_status, '_', ' '), replace(p_status, '_', ' ');
+  END IF;
+
+  IF p_status = 'unpaid' AND now() < v_transaction.payment_due_at THEN
+    RAISE EXCEPTION 'Payment is not due until %',
+      to_char(v_transaction.payment_due_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  IF p_status = 'shipped' AND (NULLIF(btrim(p_carrier), '') IS NULL OR NULLIF(btrim(p_tracking_number), '') IS NULL) THEN
+    RAISE EXCEPTION 'Enter the carrier and tracking number';
+  END IF;
+
+  IF p_status = 'disputed' AND NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Describe the problem to open a dispute';
+  END IF;
+
+  UPDATE public.transactions
+  SET fulfilment_status = p_status,
+      status = CASE WHEN p_status = 'completed' THEN 'completed' ELSE status END,
+      shipping_carrier = CASE WHEN p_status = 'shipped' THEN btrim(p_carrier) ELSE shipping_carrier END,
+      tracking_number = CASE WHEN p_status = 'shipped' THEN btrim(p_tracking_number) ELSE tracking_number END,
+      dispute_reason = CASE WHEN p_status = 'disputed' THEN btrim(p_reason) ELSE dispute_reason END
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  -- A cancelled order can no longer be paid for
+  IF p_status = 'unpaid' THEN
+    UPDATE public.payments
+    SET status = 'failed',
+        failure_message = 'The order was cancelled'
+    WHERE transaction_id = p_transaction_id
+      AND status = 'requires_confirmation';
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_type TEXT,
+  p_provider_payment_id TEXT,
+  p_failure_message TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  INSERT INTO public.payment_webhook_events (provider, event_id, type, provider_payment_id, payload)
+  VALUES (p_provider, p_event_id, p_type, p_provider_payment_id, p_payload)
+  ON CONFLICT (provider, event_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments p
+  WHERE p.provider = p_provider AND p.provider_payment_id = p_provider_payment_id
+  FOR UPDATE;
+
+  -- Raising rolls back the event row too, so the provider's retry is handled
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', p_provider_payment_id;
+  END IF;
+
+  IF p_type = 'payment.succeeded' THEN
+    UPDATE public.payments
+    SET status = 'succeeded',
+        failure_message = NULL
+    WHERE id = v_payment.id
+      AND status IN ('requires_confirmation', 'failed');
+
+    IF FOUND THEN
+      PERFORM public.post_payment_to_ledger(v_payment.id, false);
+    END IF;
+
+    UPDATE public.transactions
+    SET fulfilment_status = 'paid'
+    WHERE id = v_payment.transaction_id
+      AND fulfilment_status = 'payment_pending';
+  ELSIF p_type = 'payment.failed' THEN
+    UPDATE public.payments
+    SET status = 'failed',
+        failure_message = p_failure_message
+    WHERE id = v_payment.id
+      AND status = 'requires_confirmation';
+  ELSIF p_type = 'payment.refunded' THEN
+    UPDATE public.payments
+    SET status = 'refunded'
+    WHERE id = v_payment.id
+      AND status = 'succeeded';
+
+    IF FOUND THEN
+      PERFORM public.post_payment_to_ledger(v_payment.id, true);
+
+      UPDATE public.transactions
+      SET fulfilment_status = 'refunded'
+      WHERE id = v_payment.transaction_id
+        AND fulfilment_status = 'disputed';
+    END IF;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_fulfilment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_from TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.fulfilment_status END;
+  v_actor_id UUID := auth.uid();
+  v_title TEXT;
+  v_recipients UUID[];
+  v_message TEXT;
+BEGIN
+  IF NEW.fulfilment_status IS NULL OR NEW.fulfilment_status IS NOT DISTINCT FROM v_from THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.fulfilment_events (transaction_id, actor_id, from_status, to_status, shipping_carrier, tracking_number, note)
+  VALUES (
+    NEW.id, v_actor_id, v_from, NEW.fulfilment_status,
+    CASE WHEN NEW.fulfilment_status = 'shipped' THEN NEW.shipping_carrier END,
+    CASE WHEN NEW.fulfilment_status = 'shipped' THEN NEW.tracking_number END,
+    CASE WHEN NEW.fulfilment_status = 'disputed' THEN NEW.dispute_reason END
+  );
+
+  -- The acceptance itself is announced by notify_transaction_change()
+  IF v_from IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_title FROM public.auctions WHERE id = NEW.auction_id;
+
+  v_recipients := CASE
+    WHEN v_actor_id = NEW.seller_id THEN ARRAY[NEW.buyer_id]
+    WHEN v_actor_id = NEW.buyer_id THEN ARRAY[NEW.seller_id]
+    ELSE ARRAY[NEW.seller_id, NEW.buyer_id]
+  END;
+
+  v_message := CASE NEW.fulfilment_status
+    WHEN 'paid' THEN format('Payment for "%s" has been received.', v_title)
+    WHEN 'shipped' THEN format('"%s" has shipped with %s, tracking number %s.', v_title, NEW.shipping_carrier, NEW.tracking_number)
+    WHEN 'delivered' THEN format('The buyer confirmed delivery of "%s".', v_title)
+    WHEN 'completed' THEN format('The order for "%s" is complete.', v_title)
+    WHEN 'disputed' THEN format('A dispute was opened on "%s": %s', v_title, NEW.dispute_reason)
+    WHEN 'unpaid' THEN format('"%s" was not paid for by the due date, so the seller cancelled the order.', v_title)
+    WHEN 'refunded' THEN format('The payment for "%s" has been refunded to the buyer.', v_title)
+  END;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  SELECT recipient, NEW.auction_id, 'order_update',
+    CASE NEW.fulfilment_status
+      WHEN 'paid' THEN 'Payment received'
+      WHEN 'shipped' THEN 'Order shipped'
+      WHEN 'delivered' THEN 'Order delivered'
+      WHEN 'completed' THEN 'Order completed'
+      WHEN 'disputed' THEN 'Dispute opened'
+      WHEN 'unpaid' THEN 'Order cancelled for non-payment'
+      WHEN 'refunded' THEN 'Order refunded'
+    END,
+    v_message,
+    jsonb_build_object('transaction_id', NEW.id, 'fulfilment_status', NEW.fulfilment_status)
+  FROM unnest(v_recipients) AS recipient;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,33 @@
+-- A sender that died after claiming a batch left its rows in 'sending' for
+-- good, so those emails were never delivered. Claims now expire after ten
+-- minutes: the rows go back to 'pending', or to 'failed' once they have used
+-- up their attempts, and the next batch picks them up.
+CREATE OR REPLACE FUNCTION public.claim_email_batch(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.email_queue q
+  SET status = CASE WHEN q.attempts < 5 THEN 'pending' ELSE 'failed' END,
+      last_error = 'Timed out while sending'
+  WHERE q.status = 'sending'
+    AND q.updated_at < now() - interval '10 minutes';
+
+  RETURN QUERY
+  UPDATE public.email_queue q
+  SET status = 'sending',
+      attempts = q.attempts + 1
+  WHERE q.id IN (
+    SELECT e.id
+    FROM public.email_queue e
+    WHERE e.status = 'pending'
+       OR (e.status = 'failed' AND e.attempts < 5)
+    ORDER BY e.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Creating an auction took two requests, the auction and then its reserve,
+-- so a failed second request left an auction running with no reserve. Both
+-- are now written by create_auction() in one transaction. It takes only the
+-- listing's own settings; the seller is the caller, and a hosted lot is
+-- always called by its seller and starts out waiting.
+CREATE OR REPLACE FUNCTION public.create_auction(p_auction JSONB, p_reserve_price DECIMAL DEFAULT NULL)
+RETURNS public.auctions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_fields public.auctions%ROWTYPE;
+  v_auction public.auctions%ROWTYPE;
+  v_is_hosted BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to create an auction';
+  END IF;
+
+  v_fields := jsonb_populate_record(NULL::public.auctions, p_auction);
+  v_is_hosted := v_fields.auctioneer_id IS NOT NULL;
+
+  IF p_reserve_price IS NOT NULL THEN
+    IF v_fields.format IN ('dutch', 'reverse', 'multi_unit') THEN
+      RAISE EXCEPTION 'This auction format does not take a reserve price';
+    END IF;
+
+    IF p_reserve_price < v_fields.starting_price THEN
+      RAISE EXCEPTION 'Reserve price cannot be below the starting price';
+    END IF;
+  END IF;
+
+  INSERT INTO public.auctions (
+    seller_id, title, description, format, category, starting_price, bid_increment,
+    start_time, end_time, image_url, buy_now_price, buy_now_threshold,
+    soft_close_window_seconds, soft_close_extension_seconds, soft_close_max_extensions,
+    dutch_price_step, dutch_step_interval_seconds, dutch_floor_price,
+    quantity, candle_window_start, event_id, auctioneer_id, call_state
+  )
+  VALUES (
+    v_user_id, v_fields.title, v_fields.description, COALESCE(v_fields.format, 'english'), v_fields.category,
+    v_fields.starting_price, v_fields.bid_increment,
+    v_fields.start_time, v_fields.end_time, v_fields.image_url, v_fields.buy_now_price, v_fields.buy_now_threshold,
+    v_fields.soft_close_window_seconds, v_fields.soft_close_extension_seconds, v_fields.soft_close_max_extensions,
+    v_fields.dutch_price_step, v_fields.dutch_step_interval_seconds, v_fields.dutch_floor_price,
+    COALESCE(v_fields.quantity, 1), v_fields.candle_window_start, v_fields.event_id,
+    CASE WHEN v_is_hosted THEN v_user_id END,
+    CASE WHEN v_is_hosted THEN 'waiting' END
+  )
+  RETURNING * INTO v_auction;
+
+  -- The reserve is kept in a seller-only table so bidders never see the amount
+  IF p_reserve_price IS NOT NULL THEN
+    INSERT INTO public.auction_reserves (auction_id, reserve_price)
+    VALUES (v_auction.id, p_reserve_price);
+
+    SELECT * INTO v_auction FROM public.auctions WHERE id = v_auction.id;
+  END IF;
+
+  RETURN v_auction;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_auction(JSONB, DECIMAL) TO authenticated;
+
+DROP POLICY "Sellers can create auctions" ON public.auctions;
+DROP POLICY "Sellers can set reserves before the auction starts" ON public.auction_reserves;
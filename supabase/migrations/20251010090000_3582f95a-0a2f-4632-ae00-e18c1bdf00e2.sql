@@ -0,0 +1,139 @@
+-- A confirmation already in flight when its payment was voided (the order
+-- cancelled as unpaid, or the payment replaced by a newer one) still counted
+-- when its success webhook arrived: the money was posted to the ledger for an
+-- order that was not waiting for it, and a second success on the same order
+-- credited the seller twice. A success now only counts while the order is
+-- awaiting payment and has no other successful payment. Any other success is
+-- held as refund_pending and sent back through the refund-payment function.
+
+ALTER TABLE public.payments
+  DROP CONSTRAINT payments_status_check,
+  ADD CONSTRAINT payments_status_check
+    CHECK (status IN ('requires_confirmation', 'succeeded', 'failed', 'refund_pending', 'refunded'));
+
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_type TEXT,
+  p_provider_payment_id TEXT,
+  p_failure_message TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_transaction public.transactions%ROWTYPE;
+BEGIN
+  INSERT INTO public.payment_webhook_events (provider, event_id, type, provider_payment_id, payload)
+  VALUES (p_provider, p_event_id, p_type, p_provider_payment_id, p_payload)
+  ON CONFLICT (provider, event_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments p
+  WHERE p.provider = p_provider AND p.provider_payment_id = p_provider_payment_id
+  FOR UPDATE;
+
+  -- Raising rolls back the event row too, so the provider's retry is handled
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', p_provider_payment_id;
+  END IF;
+
+  IF p_type = 'payment.succeeded' AND v_payment.status IN ('requires_confirmation', 'failed') THEN
+    -- A payment voided while its confirmation was in flight can still go
+    -- through. It only counts if the order is still waiting for it
+    SELECT * INTO v_transaction
+    FROM public.transactions t
+    WHERE t.id = v_payment.transaction_id
+    FOR UPDATE;
+
+    IF v_transaction.fulfilment_status IS DISTINCT FROM 'payment_pending'
+       OR EXISTS (
+         SELECT 1 FROM public.payments p
+         WHERE p.transaction_id = v_payment.transaction_id
+           AND p.id <> v_payment.id
+           AND p.status IN ('succeeded', 'refund_pending', 'refunded')
+       ) THEN
+      UPDATE public.payments
+      SET status = 'refund_pending',
+          failure_message = 'The order was no longer awaiting payment'
+      WHERE id = v_payment.id;
+
+      RETURN true;
+    END IF;
+
+    UPDATE public.payments
+    SET status = 'succeeded',
+        failure_message = NULL
+    WHERE id = v_payment.id;
+
+    PERFORM public.post_payment_to_ledger(v_payment.id, false);
+
+    UPDATE public.payments
+    SET status = 'failed',
+        failure_message = 'The order has been paid'
+    WHERE transaction_id = v_payment.transaction_id
+      AND status = 'requires_confirmation';
+
+    UPDATE public.transactions
+    SET fulfilment_status = 'paid'
+    WHERE id = v_payment.transaction_id;
+  ELSIF p_type = 'payment.failed' THEN
+    UPDATE public.payments
+    SET status = 'failed',
+        failure_message = p_failure_message
+    WHERE id = v_payment.id
+      AND status = 'requires_confirmation';
+  ELSIF p_type = 'payment.refunded' THEN
+    UPDATE public.payments
+    SET status = 'refunded'
+    WHERE id = v_payment.id
+      AND status IN ('succeeded', 'refund_pending');
+
+    -- A payment sent back without being accepted was never posted
+    IF FOUND AND v_payment.status = 'succeeded' THEN
+      PERFORM public.post_payment_to_ledger(v_payment.id, true);
+
+      UPDATE public.transactions
+      SET fulfilment_status = 'refunded'
+      WHERE id = v_payment.transaction_id
+        AND fulfilment_status = 'disputed';
+    END IF;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Ask the edge function to refund a payment the order could not take
+CREATE OR REPLACE FUNCTION public.request_payment_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/refund-payment',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('payment_id', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER request_payment_refund_trigger
+  AFTER UPDATE OF status ON public.payments
+  FOR EACH ROW
+  WHEN (NEW.status = 'refund_pending' AND OLD.status IS DISTINCT FROM 'refund_pending')
+  EXECUTE FUNCTION public.request_payment_refund();
@@ -0,0 +1,102 @@
+-- set_max_bid() holds a new maximum on a called lot to the asking price,
+-- but resolve_proxy_bids() still placed the automatic bid one increment over
+-- the last, below the price the auctioneer was calling. Automatic bids now
+-- go in at the asking price, or at the bidder's maximum if that is lower.
+
+CREATE OR REPLACE FUNCTION public.resolve_proxy_bids(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_reserve_price DECIMAL;
+  v_leader_ceiling DECIMAL;
+  v_leader_placed_at TIMESTAMP WITH TIME ZONE;
+  v_candidate RECORD;
+  v_winner_id UUID;
+  v_winner_ceiling DECIMAL;
+  v_runner_up_ceiling DECIMAL;
+  v_price DECIMAL;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+  SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+  IF v_auction.highest_bidder_id IS NOT NULL THEN
+    SELECT GREATEST(v_auction.current_highest_bid, pb.max_amount),
+           CASE WHEN pb.max_amount >= v_auction.current_highest_bid THEN pb.placed_at END
+    INTO v_leader_ceiling, v_leader_placed_at
+    FROM public.proxy_bids pb
+    WHERE pb.auction_id = p_auction_id AND pb.bidder_id = v_auction.highest_bidder_id;
+
+    v_leader_ceiling := COALESCE(v_leader_ceiling, v_auction.current_highest_bid);
+
+    IF v_leader_placed_at IS NULL THEN
+      SELECT max(b.created_at) INTO v_leader_placed_at
+      FROM public.bids b
+      WHERE b.auction_id = p_auction_id AND b.bidder_id = v_auction.highest_bidder_id AND b.status = 'active';
+    END IF;
+  END IF;
+
+  FOR v_candidate IN
+    SELECT c.bidder_id, c.ceiling
+    FROM (
+      SELECT pb.bidder_id, pb.max_amount AS ceiling, pb.placed_at
+      FROM public.proxy_bids pb
+      WHERE pb.auction_id = p_auction_id
+        AND pb.bidder_id IS DISTINCT FROM v_auction.highest_bidder_id
+        AND pb.max_amount >= COALESCE(v_auction.current_highest_bid, v_auction.starting_price)
+      UNION ALL
+      SELECT v_auction.highest_bidder_id, v_leader_ceiling, v_leader_placed_at
+      WHERE v_auction.highest_bidder_id IS NOT NULL
+    ) c
+    ORDER BY c.ceiling DESC, c.placed_at ASC
+    LIMIT 2
+  LOOP
+    IF v_winner_id IS NULL THEN
+      v_winner_id := v_candidate.bidder_id;
+      v_winner_ceiling := v_candidate.ceiling;
+    ELSE
+      v_runner_up_ceiling := v_candidate.ceiling;
+    END IF;
+  END LOOP;
+
+  IF v_winner_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_runner_up_ceiling IS NOT NULL THEN
+    v_price := LEAST(v_winner_ceiling, v_runner_up_ceiling + public.bid_increment_at(v_auction, v_runner_up_ceiling));
+  ELSIF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id THEN
+    v_price := v_auction.current_highest_bid;
+  ELSE
+    -- Nobody to compete with: an unopposed proxy opens at the starting price
+    v_price := v_auction.starting_price;
+  END IF;
+
+  IF v_reserve_price IS NOT NULL AND v_price < v_reserve_price THEN
+    v_price := LEAST(v_winner_ceiling, v_reserve_price);
+  END IF;
+
+  -- While the auctioneer is calling a lot, automatic bids go in at the asking price too
+  IF v_auction.call_state IN ('open', 'going_once', 'going_twice')
+     AND v_auction.asking_price IS NOT NULL AND v_price < v_auction.asking_price THEN
+    v_price := LEAST(v_winner_ceiling, v_auction.asking_price);
+  END IF;
+
+  IF v_winner_id IS NOT DISTINCT FROM v_auction.highest_bidder_id
+     AND v_price <= v_auction.current_highest_bid THEN
+    RETURN;
+  END IF;
+
+  -- clock_timestamp keeps automatic bids ordered after the bid that triggered them
+  INSERT INTO public.bids (auction_id, bidder_id, amount, is_automatic, created_at)
+  VALUES (p_auction_id, v_winner_id, v_price, true, clock_timestamp());
+
+  UPDATE public.auctions
+  SET current_highest_bid = v_price,
+      highest_bidder_id = v_winner_id
+  WHERE id = p_auction_id;
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Ending a candle auction early published its seed and a candle end time
+-- that had not been reached yet, so the closing notice and the public
+-- commitment described a close that never happened. A candle auction now
+-- runs until the candle goes out once it has started, and a hosted lot only
+-- closes when the auctioneer brings the hammer down.
+CREATE OR REPLACE FUNCTION public.end_auction_early(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_auction.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF v_auction.finalized_at IS NOT NULL OR v_auction.status IN ('ended', 'cancelled') THEN
+    RAISE EXCEPTION 'This auction has already ended';
+  END IF;
+
+  IF v_auction.format = 'candle' AND now() >= v_auction.start_time THEN
+    RAISE EXCEPTION 'A candle auction can''t be ended early once it has started';
+  END IF;
+
+  IF v_auction.call_state IS NOT NULL THEN
+    RAISE EXCEPTION 'A hosted lot closes only when the auctioneer sells or passes it';
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      end_time = now()
+  WHERE id = p_auction_id;
+
+  PERFORM public.finalize_auction(p_auction_id);
+END;
+$$;
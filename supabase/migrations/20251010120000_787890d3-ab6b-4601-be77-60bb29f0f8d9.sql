@@ -0,0 +1,191 @@
+-- A second-price result only kept the winning bid and the price, so the
+-- result panel had to work the second-highest bid back out of the price.
+-- With tiered increments that guess could show a bid nobody placed. The
+-- second-highest bid is now stored next to the other price inputs.
+
+ALTER TABLE public.auctions ADD COLUMN second_bid DECIMAL(10,2);
+
+UPDATE public.auctions a
+SET second_bid = (
+  SELECT b.amount
+  FROM public.bids b
+  WHERE b.auction_id = a.id
+  ORDER BY b.amount DESC, b.created_at ASC
+  OFFSET 1
+  LIMIT 1
+)
+WHERE a.format = 'sealed_second_price'
+  AND a.finalized_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.finalize_auction(p_auction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_auction public.auctions%ROWTYPE;
+  v_top_bid public.bids%ROWTYPE;
+  v_second_amount DECIMAL;
+  v_reserve_price DECIMAL;
+  v_price DECIMAL;
+  v_basis TEXT;
+  v_candle public.auction_candle_secrets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_auction FROM public.auctions WHERE id = p_auction_id;
+
+  IF v_auction.finalized_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'multi_unit' THEN
+    -- Allocations are recorded first so the closing notifications can see them
+    UPDATE public.bids b
+    SET allocated_quantity = al.allocated_quantity
+    FROM public.multi_unit_allocation(p_auction_id) al
+    WHERE b.id = al.bid_id
+      AND al.allocated_quantity > 0;
+
+    SELECT min(b.amount) INTO v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0;
+
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_price,
+        clearing_price = v_price,
+        outcome = CASE WHEN v_price IS NULL THEN 'no_bids' ELSE 'winning_bid' END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount, quantity, unit_price)
+    SELECT v_auction.id, v_auction.seller_id, b.bidder_id, v_price * b.allocated_quantity, b.allocated_quantity, v_price
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id AND b.allocated_quantity > 0
+    ON CONFLICT (auction_id, seller_id, buyer_id) DO NOTHING;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format = 'candle' THEN
+    SELECT * INTO v_candle FROM public.auction_candle_secrets WHERE auction_id = p_auction_id;
+
+    -- Bids placed after the candle went out stay on record but never count,
+    -- and neither do retracted ones
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+      AND b.created_at < v_candle.end_time
+      AND b.status = 'active'
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    -- The winner and the reveal land in the same update that closes the
+    -- auction, so rewinding past late bids is not reported as an outbid
+    UPDATE public.auctions
+    SET status = 'ended',
+        finalized_at = now(),
+        current_highest_bid = v_top_bid.amount,
+        highest_bidder_id = v_top_bid.bidder_id,
+        candle_seed = v_candle.seed,
+        candle_end_time = v_candle.end_time,
+        outcome = CASE
+          WHEN v_top_bid.bidder_id IS NULL THEN 'no_bids'
+          WHEN has_reserve AND NOT public.is_reserve_met(id, v_top_bid.amount) THEN 'reserve_not_met'
+          ELSE 'winning_bid'
+        END
+    WHERE id = p_auction_id
+      AND finalized_at IS NULL
+    RETURNING * INTO v_auction;
+
+    IF FOUND AND v_auction.outcome = 'winning_bid' THEN
+      INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+      VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+      ON CONFLICT (auction_id, seller_id, buyer_id) DO NOTHING;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  IF v_auction.format IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO v_top_bid
+    FROM public.bids b
+    WHERE b.auction_id = p_auction_id
+    ORDER BY b.amount DESC, b.created_at ASC
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF v_auction.format = 'sealed_first_price' THEN
+        v_price := v_top_bid.amount;
+        v_basis := 'winning_bid';
+      ELSE
+        SELECT b.amount INTO v_second_amount
+        FROM public.bids b
+        WHERE b.auction_id = p_auction_id AND b.id <> v_top_bid.id
+        ORDER BY b.amount DESC
+        LIMIT 1;
+
+        IF v_second_amount IS NULL THEN
+          v_price := v_auction.starting_price;
+          v_basis := 'starting_price';
+        ELSIF v_second_amount + public.bid_increment_at(v_auction, v_second_amount) >= v_top_bid.amount THEN
+          v_price := v_top_bid.amount;
+          v_basis := 'winning_bid';
+        ELSE
+          v_price := v_second_amount + public.bid_increment_at(v_auction, v_second_amount);
+          v_basis := 'second_bid';
+        END IF;
+
+        SELECT reserve_price INTO v_reserve_price FROM public.auction_reserves WHERE auction_id = p_auction_id;
+
+        IF v_reserve_price IS NOT NULL AND v_top_bid.amount >= v_reserve_price AND v_price < v_reserve_price THEN
+          v_price := v_reserve_price;
+          v_basis := 'reserve_price';
+        END IF;
+      END IF;
+
+      UPDATE public.auctions
+      SET current_highest_bid = v_price,
+          highest_bidder_id = v_top_bid.bidder_id,
+          winning_bid = v_top_bid.amount,
+          second_bid = v_second_amount,
+          clearing_price = v_price,
+          clearing_price_basis = v_basis
+      WHERE id = p_auction_id;
+    END IF;
+  END IF;
+
+  UPDATE public.auctions
+  SET status = 'ended',
+      finalized_at = now(),
+      outcome = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'winning_bid'
+      END
+  WHERE id = p_auction_id
+    AND finalized_at IS NULL
+  RETURNING * INTO v_auction;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- On a reverse auction the poster is buying from the winning supplier
+  IF v_auction.outcome = 'winning_bid' AND v_auction.format = 'reverse' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.highest_bidder_id, v_auction.seller_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id, seller_id, buyer_id) DO NOTHING;
+  ELSIF v_auction.outcome = 'winning_bid' THEN
+    INSERT INTO public.transactions (auction_id, seller_id, buyer_id, final_amount)
+    VALUES (v_auction.id, v_auction.seller_id, v_auction.highest_bidder_id, v_auction.current_highest_bid)
+    ON CONFLICT (auction_id, seller_id, buyer_id) DO NOTHING;
+  END IF;
+END;
+$$;
@@ -0,0 +1,144 @@
+-- Soft close fired on any change to the current bid, so when a retraction
+-- rolled the price back inside a soft close window longer than the hour
+-- retractions are refused in, the lower price extended the auction. Only a
+-- bid that improves the price extends it now, and a retraction leaves the
+-- end time where it was even when proxies bid again in response.
+
+DROP TRIGGER apply_soft_close_trigger ON public.auctions;
+
+-- Named to sort before update_auction_status_trigger so the status check sees the new end
+CREATE TRIGGER apply_soft_close_trigger
+  BEFORE UPDATE ON public.auctions
+  FOR EACH ROW
+  WHEN (
+    OLD.current_highest_bid IS NULL AND NEW.current_highest_bid IS NOT NULL
+    OR NEW.format = 'reverse' AND NEW.current_highest_bid < OLD.current_highest_bid
+    OR NEW.format <> 'reverse' AND NEW.current_highest_bid > OLD.current_highest_bid
+  )
+  EXECUTE FUNCTION public.apply_soft_close();
+
+CREATE OR REPLACE FUNCTION public.retract_bid(p_bid_id UUID, p_reason TEXT)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  reason TEXT,
+  current_highest_bid DECIMAL,
+  highest_bidder_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_bid public.bids%ROWTYPE;
+  v_auction public.auctions%ROWTYPE;
+  v_reason TEXT;
+  v_leader public.bids%ROWTYPE;
+  v_new_highest_bid DECIMAL;
+  v_new_highest_bidder_id UUID;
+BEGIN
+  IF v_actor_id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_authenticated'::TEXT, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_bid FROM public.bids b WHERE b.id = p_bid_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'bid_not_found'::TEXT, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  -- Same lock as place_bid, so a retraction and a bid never cross
+  SELECT * INTO v_auction
+  FROM public.auctions a
+  WHERE a.id = v_bid.auction_id
+  FOR UPDATE;
+
+  IF v_bid.bidder_id <> v_actor_id THEN
+    v_reason := 'not_your_bid';
+  ELSIF v_bid.status = 'retracted' THEN
+    v_reason := 'already_retracted';
+  ELSIF v_auction.format NOT IN ('english', 'reverse', 'candle') THEN
+    v_reason := 'retraction_not_supported';
+  ELSIF v_auction.status IN ('ended', 'cancelled') OR v_auction.finalized_at IS NOT NULL OR now() >= v_auction.end_time THEN
+    v_reason := 'auction_not_active';
+  ELSIF now() > v_bid.created_at + interval '1 hour' THEN
+    v_reason := 'retraction_window_passed';
+  ELSIF now() > v_auction.end_time - interval '1 hour'
+     OR now() >= COALESCE(v_auction.candle_window_start, 'infinity')
+     OR COALESCE(v_auction.call_state IN ('going_once', 'going_twice'), false) THEN
+    v_reason := 'final_stretch';
+  ELSIF p_reason IS NULL OR length(btrim(p_reason)) = 0 THEN
+    v_reason := 'reason_required';
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_reason, v_auction.current_highest_bid, v_auction.highest_bidder_id;
+    RETURN;
+  END IF;
+
+  UPDATE public.bids SET status = 'retracted' WHERE id = p_bid_id;
+
+  -- A standing maximum would only bid the retracted amount straight back in
+  DELETE FROM public.proxy_bids pb
+  WHERE pb.auction_id = v_auction.id AND pb.bidder_id = v_actor_id;
+
+  SELECT * INTO v_leader
+  FROM public.bids b
+  WHERE b.auction_id = v_auction.id
+    AND b.status = 'active'
+  ORDER BY
+    CASE WHEN v_auction.format = 'reverse' THEN b.amount END ASC,
+    CASE WHEN v_auction.format <> 'reverse' THEN b.amount END DESC,
+    b.created_at ASC
+  LIMIT 1;
+
+  UPDATE public.auctions
+  SET current_highest_bid = v_leader.amount,
+      highest_bidder_id = v_leader.bidder_id
+  WHERE id = v_auction.id
+    AND (current_highest_bid IS DISTINCT FROM v_leader.amount
+         OR highest_bidder_id IS DISTINCT FROM v_leader.bidder_id);
+
+  -- Other bidders' maximums compete again from the rolled-back price
+  IF v_auction.format = 'english' THEN
+    PERFORM public.resolve_proxy_bids(v_auction.id);
+  END IF;
+
+  -- Automatic bids answering a retraction are not new bidding, so they
+  -- don't buy the auction more time
+  UPDATE public.auctions
+  SET end_time = v_auction.end_time,
+      extension_count = v_auction.extension_count
+  WHERE id = v_auction.id
+    AND end_time IS DISTINCT FROM v_auction.end_time;
+
+  INSERT INTO public.bid_retractions (
+    bid_id, auction_id, actor_id, reason,
+    previous_highest_bid, previous_highest_bidder_id, new_highest_bid, new_highest_bidder_id
+  )
+  SELECT p_bid_id, a.id, v_actor_id, btrim(p_reason),
+    v_auction.current_highest_bid, v_auction.highest_bidder_id, a.current_highest_bid, a.highest_bidder_id
+  FROM public.auctions a
+  WHERE a.id = v_auction.id
+  RETURNING new_highest_bid, new_highest_bidder_id INTO v_new_highest_bid, v_new_highest_bidder_id;
+
+  INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+  VALUES (v_auction.seller_id, v_auction.id, 'bid_retracted', 'A bid was retracted',
+    format('A bid of %s on "%s" was retracted: %s', public.format_amount(v_bid.amount), v_auction.title, btrim(p_reason)),
+    jsonb_build_object('bid_id', p_bid_id, 'amount', v_bid.amount));
+
+  IF v_new_highest_bidder_id IS NOT NULL
+     AND v_new_highest_bidder_id IS DISTINCT FROM v_auction.highest_bidder_id THEN
+    INSERT INTO public.notifications (user_id, auction_id, type, title, message, data)
+    VALUES (v_new_highest_bidder_id, v_auction.id, 'bid_retracted', 'You are in the lead again',
+      format('The leading bid on "%s" was retracted. Your bid of %s now leads.',
+             v_auction.title, public.format_amount(v_new_highest_bid)),
+      jsonb_build_object('amount', v_new_highest_bid));
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_new_highest_bid, v_new_highest_bidder_id;
+END;
+$$;